@@ -0,0 +1,36 @@
+-- Migration: Create Password Reset Tokens Table
+-- Description: Stores single-use, expiring tokens for self-service password reset
+-- Created: 2026-10-18
+
+-- ============================================================================
+-- Password Reset Tokens Table
+-- ============================================================================
+-- Each row is one reset link sent by email. Only the SHA-256 hash of the
+-- token is stored, mirroring sessions.token_hash.
+CREATE TABLE password_reset_tokens (
+  -- Primary Key
+  id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+  
+  -- User Reference
+  user_id TEXT NOT NULL,
+  
+  -- Reset Token (hashed for security)
+  token_hash TEXT NOT NULL UNIQUE,
+  
+  -- Request Metadata
+  ip_address TEXT,
+  
+  -- Timestamps
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  expires_at DATETIME NOT NULL,
+  used_at DATETIME, -- NULL = unused, set once the token is redeemed
+  
+  -- Foreign Key Constraint
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+-- Index for faster token lookups (critical for reset validation)
+CREATE INDEX idx_password_reset_tokens_token ON password_reset_tokens(token_hash);
+
+-- Index for invalidating a user's outstanding tokens
+CREATE INDEX idx_password_reset_tokens_user ON password_reset_tokens(user_id);
@@ -0,0 +1,42 @@
+-- Migration: Add Email Verification
+-- Description: Tracks verified email addresses and stores single-use verification tokens
+-- Created: 2026-10-18
+
+-- ============================================================================
+-- Users Table
+-- ============================================================================
+-- NULL = unverified, otherwise the time the address was confirmed
+ALTER TABLE users ADD COLUMN email_verified_at DATETIME;
+
+-- ============================================================================
+-- Email Verification Tokens Table
+-- ============================================================================
+-- Each row is one verification link sent by email. Only the SHA-256 hash of
+-- the token is stored, mirroring sessions.token_hash.
+CREATE TABLE email_verification_tokens (
+  -- Primary Key
+  id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+  
+  -- User Reference
+  user_id TEXT NOT NULL,
+  
+  -- Address being verified (guards against the user's email changing later)
+  email TEXT NOT NULL,
+  
+  -- Verification Token (hashed for security)
+  token_hash TEXT NOT NULL UNIQUE,
+  
+  -- Timestamps
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  expires_at DATETIME NOT NULL,
+  used_at DATETIME, -- NULL = unused, set once the token is redeemed
+  
+  -- Foreign Key Constraint
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+-- Index for faster token lookups (critical for verification)
+CREATE INDEX idx_email_verification_tokens_token ON email_verification_tokens(token_hash);
+
+-- Index for invalidating a user's outstanding tokens
+CREATE INDEX idx_email_verification_tokens_user ON email_verification_tokens(user_id);
@@ -0,0 +1,79 @@
+-- Migration: Create MFA Tables
+-- Description: TOTP two-factor authentication, one-time recovery codes and login challenges
+-- Created: 2026-10-18
+
+-- ============================================================================
+-- User MFA Table
+-- ============================================================================
+-- One row per user that has started TOTP enrollment
+CREATE TABLE user_mfa (
+  -- Primary Key / User Reference
+  user_id TEXT PRIMARY KEY,
+  
+  -- TOTP shared secret (base32)
+  totp_secret TEXT NOT NULL,
+  
+  -- Last accepted TOTP time step (prevents code replay)
+  last_used_step INTEGER,
+  
+  -- Timestamps
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  enabled_at DATETIME, -- NULL = enrollment pending confirmation
+  
+  -- Foreign Key Constraint
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+-- ============================================================================
+-- MFA Recovery Codes Table
+-- ============================================================================
+-- One-time backup codes, stored hashed
+CREATE TABLE mfa_recovery_codes (
+  -- Primary Key
+  id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+  
+  -- User Reference
+  user_id TEXT NOT NULL,
+  
+  -- Recovery Code (hashed for security)
+  code_hash TEXT NOT NULL,
+  
+  -- Timestamps
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  used_at DATETIME, -- NULL = unused
+  
+  -- Foreign Key Constraint
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+-- Index for looking up a user's codes
+CREATE INDEX idx_mfa_recovery_codes_user ON mfa_recovery_codes(user_id, code_hash);
+
+-- ============================================================================
+-- MFA Challenges Table
+-- ============================================================================
+-- Issued after a correct password when MFA is enabled; redeemed with a second factor
+CREATE TABLE mfa_challenges (
+  -- Primary Key
+  id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+  
+  -- User Reference
+  user_id TEXT NOT NULL,
+  
+  -- Challenge Token (hashed for security)
+  token_hash TEXT NOT NULL UNIQUE,
+  
+  -- Failed second-factor attempts against this challenge
+  attempts INTEGER DEFAULT 0,
+  
+  -- Timestamps
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  expires_at DATETIME NOT NULL,
+  used_at DATETIME, -- NULL = unused
+  
+  -- Foreign Key Constraint
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+-- Index for faster challenge lookups
+CREATE INDEX idx_mfa_challenges_token ON mfa_challenges(token_hash);
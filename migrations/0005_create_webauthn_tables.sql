@@ -0,0 +1,61 @@
+-- Migration: Create WebAuthn Tables
+-- Description: Passkey credentials and short-lived ceremony challenges for passwordless login
+-- Created: 2026-10-18
+
+-- ============================================================================
+-- WebAuthn Credentials Table
+-- ============================================================================
+-- One row per registered passkey
+CREATE TABLE webauthn_credentials (
+  -- Primary Key (base64url credential ID from the authenticator)
+  id TEXT PRIMARY KEY,
+  
+  -- User Reference
+  user_id TEXT NOT NULL,
+  
+  -- Credential Data
+  public_key TEXT NOT NULL, -- base64url COSE public key
+  counter INTEGER NOT NULL DEFAULT 0,
+  transports TEXT, -- JSON array, e.g. ["internal","hybrid"]
+  device_type TEXT, -- 'singleDevice' or 'multiDevice'
+  backed_up INTEGER DEFAULT 0, -- 0 = not synced, 1 = synced passkey
+  
+  -- User-visible label
+  name TEXT NOT NULL,
+  
+  -- Timestamps
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  last_used_at DATETIME,
+  
+  -- Foreign Key Constraint
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+-- Index for retrieving user's passkeys
+CREATE INDEX idx_webauthn_credentials_user ON webauthn_credentials(user_id);
+
+-- ============================================================================
+-- WebAuthn Challenges Table
+-- ============================================================================
+-- Pending registration/authentication ceremonies (single-use)
+CREATE TABLE webauthn_challenges (
+  -- Primary Key
+  id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+  
+  -- User Reference (NULL for passwordless login ceremonies)
+  user_id TEXT,
+  
+  -- Ceremony Data
+  challenge TEXT NOT NULL,
+  purpose TEXT NOT NULL, -- 'registration' or 'authentication'
+  
+  -- Timestamps
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  expires_at DATETIME NOT NULL,
+  
+  -- Foreign Key Constraint
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+-- Index for cleanup of expired challenges
+CREATE INDEX idx_webauthn_challenges_expires ON webauthn_challenges(expires_at);
@@ -0,0 +1,55 @@
+-- Migration: Create User Identities
+-- Description: Links external OpenID Connect accounts (Google, Microsoft, ...) to users
+-- Created: 2026-10-18
+
+-- ============================================================================
+-- User Identities Table
+-- ============================================================================
+-- One row per external account linked to a QuizMaker user
+CREATE TABLE user_identities (
+  -- Primary Key
+  id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+  
+  -- User Reference
+  user_id TEXT NOT NULL,
+  
+  -- External Account
+  provider TEXT NOT NULL, -- e.g. 'google', 'microsoft'
+  subject TEXT NOT NULL, -- 'sub' claim from the ID token
+  email TEXT, -- email claim at link time
+  
+  -- Timestamps
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  last_login_at DATETIME,
+  
+  -- An external account can only be linked once
+  UNIQUE (provider, subject),
+  
+  -- Foreign Key Constraint
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+-- Index for retrieving user's linked identities
+CREATE INDEX idx_user_identities_user ON user_identities(user_id);
+
+-- ============================================================================
+-- OIDC Login States Table
+-- ============================================================================
+-- Pending authorization requests (state, nonce and PKCE verifier), single-use
+CREATE TABLE oidc_login_states (
+  -- Primary Key (hash of the state parameter)
+  state_hash TEXT PRIMARY KEY,
+  
+  -- Request Data
+  provider TEXT NOT NULL,
+  nonce TEXT NOT NULL,
+  code_verifier TEXT NOT NULL,
+  redirect_to TEXT, -- in-app path to return to after login
+  
+  -- Timestamps
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  expires_at DATETIME NOT NULL
+);
+
+-- Index for cleanup of expired states
+CREATE INDEX idx_oidc_login_states_expires ON oidc_login_states(expires_at);
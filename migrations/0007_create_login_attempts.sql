@@ -0,0 +1,24 @@
+-- Migration: Create Login Attempts
+-- Description: Failed login counters for brute-force throttling and temporary lockout
+-- Created: 2026-10-18
+
+-- ============================================================================
+-- Login Attempts Table
+-- ============================================================================
+-- One row per throttle key: 'email:<normalized email>' or 'ip:<client IP>'.
+-- Rows exist for unknown emails too, so lockouts don't reveal which accounts exist.
+CREATE TABLE login_attempts (
+  -- Primary Key
+  throttle_key TEXT PRIMARY KEY,
+  
+  -- Consecutive failures since the last success or reset
+  failures INTEGER NOT NULL DEFAULT 0,
+  
+  -- Timestamps
+  first_failed_at DATETIME NOT NULL,
+  last_failed_at DATETIME NOT NULL,
+  locked_until DATETIME -- NULL = not locked
+);
+
+-- Index for cleanup of stale counters
+CREATE INDEX idx_login_attempts_last_failed ON login_attempts(last_failed_at);
@@ -0,0 +1,37 @@
+-- Migration: Create Auth Events
+-- Description: Append-only security audit log of authentication events
+-- Created: 2026-10-18
+
+-- ============================================================================
+-- Auth Events Table
+-- ============================================================================
+-- One row per authentication event. Rows are never updated.
+CREATE TABLE auth_events (
+  -- Primary Key
+  id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+  
+  -- User Reference (NULL for failed logins against unknown emails)
+  user_id TEXT,
+  
+  -- Event Data
+  event_type TEXT NOT NULL, -- e.g. 'login_success', 'session_revoked', 'mfa_enabled'
+  email TEXT, -- email as submitted, for failed logins
+  session_id TEXT, -- session the event happened in or affected
+  metadata TEXT, -- JSON object with event-specific details
+  
+  -- Request Metadata
+  ip_address TEXT,
+  user_agent TEXT,
+  
+  -- Timestamps
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  
+  -- Foreign Key Constraint
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+-- Index for a user's security history (newest first)
+CREATE INDEX idx_auth_events_user ON auth_events(user_id, created_at);
+
+-- Index for investigating activity from an IP
+CREATE INDEX idx_auth_events_ip ON auth_events(ip_address, created_at);
@@ -0,0 +1,26 @@
+-- Migration: Create Refresh Token History
+-- Description: Remembers rotated-out refresh tokens so a replayed token can be detected
+-- Created: 2026-10-18
+
+-- ============================================================================
+-- Refresh Token History Table
+-- ============================================================================
+-- sessions.token_hash holds the session's current refresh token. Every time it
+-- is rotated the previous hash is moved here. Presenting a hash found in this
+-- table means the token was stolen or replayed, and the whole session is revoked.
+CREATE TABLE refresh_token_history (
+  -- Primary Key (SHA-256 hash of the rotated-out refresh token)
+  token_hash TEXT PRIMARY KEY,
+  
+  -- Session Reference (the token family)
+  session_id TEXT NOT NULL,
+  
+  -- Timestamps
+  rotated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  
+  -- Foreign Key Constraint
+  FOREIGN KEY (session_id) REFERENCES sessions(id) ON DELETE CASCADE
+);
+
+-- Index for cleaning up a session's history
+CREATE INDEX idx_refresh_token_history_session ON refresh_token_history(session_id);
@@ -0,0 +1,15 @@
+-- Migration: Add User Roles
+-- Description: Adds a role to every user for role-based access control
+-- Created: 2026-10-18
+
+-- ============================================================================
+-- Users: Role
+-- ============================================================================
+-- One role per user. What each role may do (its permissions) is defined in
+-- src/lib/auth/rbac.ts so it can be checked in the edge middleware without a query.
+-- Existing accounts were all created by teachers, so they become teachers.
+ALTER TABLE users ADD COLUMN role TEXT NOT NULL DEFAULT 'teacher'
+  CHECK (role IN ('student', 'teacher', 'admin'));
+
+-- Index for listing users by role (admin console)
+CREATE INDEX idx_users_role ON users(role);
@@ -0,0 +1,13 @@
+-- Migration: Add Auth Event Actor
+-- Description: Records who performed an event when it wasn't the affected user (admin actions)
+-- Created: 2026-10-18
+
+-- ============================================================================
+-- Auth Events: Actor
+-- ============================================================================
+-- NULL when the user acted on their own account. For admin actions, user_id is
+-- the affected user and actor_id is the administrator who performed the action.
+ALTER TABLE auth_events ADD COLUMN actor_id TEXT REFERENCES users(id) ON DELETE SET NULL;
+
+-- Index for reviewing everything an administrator has done
+CREATE INDEX idx_auth_events_actor ON auth_events(actor_id, created_at);
@@ -0,0 +1,32 @@
+-- Migration: Create API Tokens
+-- Description: Personal access tokens for scripts and integrations (Authorization: Bearer)
+-- Created: 2026-10-18
+
+-- ============================================================================
+-- API Tokens Table
+-- ============================================================================
+-- The token itself is shown once at creation; only its SHA-256 hash is stored
+CREATE TABLE api_tokens (
+  -- Primary Key
+  id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+
+  -- User Reference
+  user_id TEXT NOT NULL,
+
+  -- Token Information
+  name TEXT NOT NULL, -- label chosen by the user, e.g. 'Quiz import script'
+  token_hash TEXT UNIQUE NOT NULL, -- SHA-256 hash of the token
+  token_prefix TEXT NOT NULL, -- first characters of the token, to recognise it in the list
+  scopes TEXT NOT NULL, -- JSON array, e.g. '["mcqs:read","mcqs:manage"]'
+
+  -- Timestamps
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  expires_at DATETIME, -- NULL means the token does not expire
+  last_used_at DATETIME,
+
+  -- Foreign Key Constraint
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+-- Index for listing a user's tokens
+CREATE INDEX idx_api_tokens_user ON api_tokens(user_id);
@@ -0,0 +1,38 @@
+-- Migration: Create Email Change Tokens
+-- Description: Single-use links that confirm a new email address before it replaces the old one
+-- Created: 2026-10-18
+
+-- ============================================================================
+-- Email Change Tokens Table
+-- ============================================================================
+-- Each row is one confirmation link sent to the requested new address. The
+-- change only happens when the link is followed, so a typo or someone else's
+-- address can never take over the account. Only the SHA-256 hash is stored.
+CREATE TABLE email_change_tokens (
+  -- Primary Key
+  id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+
+  -- User Reference
+  user_id TEXT NOT NULL,
+
+  -- Addresses (the change is refused if the current address moved on meanwhile)
+  old_email TEXT NOT NULL,
+  new_email TEXT NOT NULL,
+
+  -- Confirmation Token (hashed for security)
+  token_hash TEXT NOT NULL UNIQUE,
+
+  -- Timestamps
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  expires_at DATETIME NOT NULL,
+  used_at DATETIME, -- NULL = unused, set once the token is redeemed or superseded
+
+  -- Foreign Key Constraint
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+-- Index for faster token lookups
+CREATE INDEX idx_email_change_tokens_token ON email_change_tokens(token_hash);
+
+-- Index for invalidating a user's outstanding tokens
+CREATE INDEX idx_email_change_tokens_user ON email_change_tokens(user_id);
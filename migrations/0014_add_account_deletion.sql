@@ -0,0 +1,14 @@
+-- Migration: Add Account Deletion
+-- Description: Self-service account deletion with a grace period before the data is removed
+-- Created: 2026-10-18
+
+-- ============================================================================
+-- Users Table
+-- ============================================================================
+-- NULL = no deletion requested. Otherwise the account is hard-deleted once this
+-- time has passed; every table holding personal data references users(id) with
+-- ON DELETE CASCADE, so deleting the users row removes the rest.
+ALTER TABLE users ADD COLUMN delete_after DATETIME;
+
+-- Index for finding accounts whose grace period is over
+CREATE INDEX idx_users_delete_after ON users(delete_after);
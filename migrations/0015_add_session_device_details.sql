@@ -0,0 +1,15 @@
+-- Migration: Add Session Device Details
+-- Description: Approximate location and user-chosen nicknames for sessions
+-- Created: 2026-10-18
+
+-- ============================================================================
+-- Sessions Table
+-- ============================================================================
+-- Location comes from Cloudflare's IP geolocation when the session is created.
+-- All of these are NULL when unknown (e.g. local development).
+ALTER TABLE sessions ADD COLUMN country TEXT;   -- ISO 3166-1 alpha-2 code
+ALTER TABLE sessions ADD COLUMN region TEXT;
+ALTER TABLE sessions ADD COLUMN city TEXT;
+
+-- Optional label set by the user, e.g. "Work laptop"
+ALTER TABLE sessions ADD COLUMN nickname TEXT;
@@ -0,0 +1,37 @@
+-- Migration: Create Known Devices
+-- Description: Browser/IP combinations each user has signed in from, for new-device alerts
+-- Created: 2026-10-18
+
+-- ============================================================================
+-- Known Devices Table
+-- ============================================================================
+-- A device is the browser, OS and device class parsed from the user agent plus
+-- the client IP. Signing in from a combination not listed here sends the user
+-- an alert email with a link that revokes the new session.
+CREATE TABLE known_devices (
+  -- Primary Key
+  id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+
+  -- User Reference
+  user_id TEXT NOT NULL,
+
+  -- SHA-256 of the browser, OS, device class and IP (see src/lib/auth/known-devices.ts)
+  device_hash TEXT NOT NULL,
+
+  -- What the user sees in the alert
+  ip_address TEXT,
+  user_agent TEXT,
+
+  -- Timestamps
+  first_seen_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  last_seen_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+
+  -- Each device is recorded once per user
+  UNIQUE (user_id, device_hash),
+
+  -- Foreign Key Constraint
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+-- Index for listing a user's devices
+CREATE INDEX idx_known_devices_user ON known_devices(user_id);
@@ -0,0 +1,29 @@
+-- Migration: Create Password History
+-- Description: Previous password hashes, so recent passwords cannot be reused
+-- Created: 2026-10-18
+
+-- ============================================================================
+-- Password History Table
+-- ============================================================================
+-- One row per password a user has set, newest included. Only the last
+-- DEFAULT_PASSWORD_POLICY.historySize rows per user are kept
+-- (see src/lib/auth/password-history.ts).
+CREATE TABLE password_history (
+  -- Primary Key
+  id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+
+  -- User Reference
+  user_id TEXT NOT NULL,
+
+  -- bcrypt hash, as stored in users.password_hash
+  password_hash TEXT NOT NULL,
+
+  -- Timestamps
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+
+  -- Foreign Key Constraint
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+-- Index for a user's most recent passwords
+CREATE INDEX idx_password_history_user ON password_history(user_id, created_at);
@@ -0,0 +1,15 @@
+-- Migration: Add User Has Password
+-- Description: Track whether a user has chosen a password they know
+-- Created: 2026-10-18
+
+-- ============================================================================
+-- Users Table
+-- ============================================================================
+-- 0 = the account was created or claimed through a sign-in provider and its
+-- password_hash is a random placeholder. Such accounts confirm sensitive changes
+-- by signing in again (see src/lib/auth/reauth.ts). Resetting the password sets
+-- it back to 1.
+--
+-- Existing accounts default to 1, so they keep requiring their password; a
+-- provider-only user can set one through "Forgot password".
+ALTER TABLE users ADD COLUMN has_password INTEGER NOT NULL DEFAULT 1;
@@ -0,0 +1,51 @@
+-- Migration: Keep Auth Events After Account Deletion
+-- Description: The security log outlives the accounts it describes
+-- Created: 2026-10-18
+
+-- ============================================================================
+-- Auth Events Table
+-- ============================================================================
+-- user_id and actor_id no longer reference users(id). Deleting an account used
+-- to cascade to its events, so purging an account erased its security history
+-- along with any trace of the deletion. The IDs are now kept as plain values,
+-- so events for a deleted user can still be found by the ID the purge recorded.
+-- SQLite cannot drop a foreign key, so the table is rebuilt.
+CREATE TABLE auth_events_new (
+  -- Primary Key
+  id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+  
+  -- Subject user (NULL for failed logins against unknown emails); kept after the user is deleted
+  user_id TEXT,
+  
+  -- Administrator who performed the action, if it wasn't the subject user
+  actor_id TEXT,
+  
+  -- Event Data
+  event_type TEXT NOT NULL, -- e.g. 'login_success', 'session_revoked', 'mfa_enabled'
+  email TEXT, -- email as submitted, for failed logins
+  session_id TEXT, -- session the event happened in or affected
+  metadata TEXT, -- JSON object with event-specific details
+  
+  -- Request Metadata
+  ip_address TEXT,
+  user_agent TEXT,
+  
+  -- Timestamps
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+INSERT INTO auth_events_new (id, user_id, actor_id, event_type, email, session_id, metadata, ip_address, user_agent, created_at)
+SELECT id, user_id, actor_id, event_type, email, session_id, metadata, ip_address, user_agent, created_at
+FROM auth_events;
+
+DROP TABLE auth_events;
+ALTER TABLE auth_events_new RENAME TO auth_events;
+
+-- Index for a user's security history (newest first)
+CREATE INDEX idx_auth_events_user ON auth_events(user_id, created_at);
+
+-- Index for investigating activity from an IP
+CREATE INDEX idx_auth_events_ip ON auth_events(ip_address, created_at);
+
+-- Index for reviewing everything an administrator has done
+CREATE INDEX idx_auth_events_actor ON auth_events(actor_id, created_at);
@@ -0,0 +1,3 @@
+-- Rollback: Create Auth Tables
+DROP TABLE IF EXISTS sessions;
+DROP TABLE IF EXISTS users;
@@ -0,0 +1,2 @@
+-- Rollback: Create Password Reset Tokens
+DROP TABLE IF EXISTS password_reset_tokens;
@@ -0,0 +1,3 @@
+-- Rollback: Add Email Verification
+DROP TABLE IF EXISTS email_verification_tokens;
+ALTER TABLE users DROP COLUMN email_verified_at;
@@ -0,0 +1,3 @@
+-- Rollback: Create WebAuthn Tables
+DROP TABLE IF EXISTS webauthn_challenges;
+DROP TABLE IF EXISTS webauthn_credentials;
@@ -0,0 +1,2 @@
+-- Rollback: Create Login Attempts
+DROP TABLE IF EXISTS login_attempts;
@@ -0,0 +1,2 @@
+-- Rollback: Create Auth Events
+DROP TABLE IF EXISTS auth_events;
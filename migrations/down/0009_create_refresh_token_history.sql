@@ -0,0 +1,2 @@
+-- Rollback: Create Refresh Token History
+DROP TABLE IF EXISTS refresh_token_history;
@@ -0,0 +1,3 @@
+-- Rollback: Add User Roles
+DROP INDEX IF EXISTS idx_users_role;
+ALTER TABLE users DROP COLUMN role;
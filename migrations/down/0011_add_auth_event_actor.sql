@@ -0,0 +1,25 @@
+-- Rollback: Add Auth Event Actor
+-- SQLite cannot drop a column that has a foreign key, so the table is rebuilt
+-- with its 0008 definition.
+CREATE TABLE auth_events_rollback (
+  id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+  user_id TEXT,
+  event_type TEXT NOT NULL,
+  email TEXT,
+  session_id TEXT,
+  metadata TEXT,
+  ip_address TEXT,
+  user_agent TEXT,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+INSERT INTO auth_events_rollback (id, user_id, event_type, email, session_id, metadata, ip_address, user_agent, created_at)
+SELECT id, user_id, event_type, email, session_id, metadata, ip_address, user_agent, created_at
+FROM auth_events;
+
+DROP TABLE auth_events;
+ALTER TABLE auth_events_rollback RENAME TO auth_events;
+
+CREATE INDEX idx_auth_events_user ON auth_events(user_id, created_at);
+CREATE INDEX idx_auth_events_ip ON auth_events(ip_address, created_at);
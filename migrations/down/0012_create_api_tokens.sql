@@ -0,0 +1,2 @@
+-- Rollback: Create API Tokens
+DROP TABLE IF EXISTS api_tokens;
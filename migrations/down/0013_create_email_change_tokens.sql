@@ -0,0 +1,2 @@
+-- Rollback: Create Email Change Tokens
+DROP TABLE IF EXISTS email_change_tokens;
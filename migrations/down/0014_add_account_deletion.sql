@@ -0,0 +1,3 @@
+-- Rollback: Add Account Deletion
+DROP INDEX IF EXISTS idx_users_delete_after;
+ALTER TABLE users DROP COLUMN delete_after;
@@ -0,0 +1,5 @@
+-- Rollback: Add Session Device Details
+ALTER TABLE sessions DROP COLUMN nickname;
+ALTER TABLE sessions DROP COLUMN city;
+ALTER TABLE sessions DROP COLUMN region;
+ALTER TABLE sessions DROP COLUMN country;
@@ -0,0 +1,2 @@
+-- Rollback: Create Known Devices
+DROP TABLE IF EXISTS known_devices;
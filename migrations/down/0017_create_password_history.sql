@@ -0,0 +1,2 @@
+-- Rollback: Create Password History
+DROP TABLE IF EXISTS password_history;
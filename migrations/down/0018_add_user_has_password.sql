@@ -0,0 +1,2 @@
+-- Rollback: Add User Has Password
+ALTER TABLE users DROP COLUMN has_password;
@@ -0,0 +1,29 @@
+-- Rollback: Keep Auth Events After Account Deletion
+-- Restores the foreign keys from 0008 and 0011. Events of users that no longer
+-- exist cannot reference them and are dropped; missing actors are cleared.
+CREATE TABLE auth_events_rollback (
+  id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+  user_id TEXT,
+  event_type TEXT NOT NULL,
+  email TEXT,
+  session_id TEXT,
+  metadata TEXT,
+  ip_address TEXT,
+  user_agent TEXT,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  actor_id TEXT REFERENCES users(id) ON DELETE SET NULL,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+INSERT INTO auth_events_rollback (id, user_id, event_type, email, session_id, metadata, ip_address, user_agent, created_at, actor_id)
+SELECT id, user_id, event_type, email, session_id, metadata, ip_address, user_agent, created_at,
+       CASE WHEN actor_id IN (SELECT id FROM users) THEN actor_id END
+FROM auth_events
+WHERE user_id IS NULL OR user_id IN (SELECT id FROM users);
+
+DROP TABLE auth_events;
+ALTER TABLE auth_events_rollback RENAME TO auth_events;
+
+CREATE INDEX idx_auth_events_user ON auth_events(user_id, created_at);
+CREATE INDEX idx_auth_events_ip ON auth_events(ip_address, created_at);
+CREATE INDEX idx_auth_events_actor ON auth_events(actor_id, created_at);
@@ -0,0 +1,61 @@
+// Builds the Bloom filter behind the breached-password check.
+//
+// Run `npm run passwords:filter` after editing scripts/breached-passwords.txt.
+// It writes src/lib/auth/breached-password-filter.ts, which is bundled with
+// both the server and the signup page so passwords are checked without a
+// network call. The hashing must match inBreachedFilter in password-policy.ts.
+import { readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+
+// About one strong password in a million is wrongly reported as breached
+const FALSE_POSITIVE_RATE = 1e-6;
+
+const listPath = join(process.cwd(), 'scripts', 'breached-passwords.txt');
+const outputPath = join(process.cwd(), 'src', 'lib', 'auth', 'breached-password-filter.ts');
+
+const passwords = [...new Set(
+  readFileSync(listPath, 'utf-8')
+    .split('\n')
+    .map((line) => line.trim().toLowerCase())
+    .filter((line) => line && !line.startsWith('#'))
+)];
+
+const size = Math.ceil((-passwords.length * Math.log(FALSE_POSITIVE_RATE)) / Math.LN2 ** 2);
+const hashes = Math.round((size / passwords.length) * Math.LN2);
+const bits = new Uint8Array(Math.ceil(size / 8));
+
+function fnv1a(value, seed) {
+  let hash = seed >>> 0;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash;
+}
+
+for (const password of passwords) {
+  const h1 = fnv1a(password, 0x811c9dc5);
+  const h2 = fnv1a(password, 0x01000193) | 1;
+
+  for (let i = 0; i < hashes; i++) {
+    const bit = ((h1 + Math.imul(i, h2)) >>> 0) % size;
+    bits[bit >> 3] |= 1 << (bit & 7);
+  }
+}
+
+const encoded = Buffer.from(bits).toString('base64');
+const lines = encoded.match(/.{1,100}/g).map((line) => `    '${line}'`).join(' +\n');
+
+writeFileSync(outputPath, `// Generated by scripts/build-breached-filter.mjs from scripts/breached-passwords.txt.
+// Do not edit by hand; run \`npm run passwords:filter\` instead.
+
+// Bloom filter of ${passwords.length} lower-cased breached passwords
+export const BREACHED_PASSWORD_FILTER = {
+  size: ${size}, // Bits
+  hashes: ${hashes},
+  bits:
+${lines},
+};
+`);
+
+console.log(`✅ Wrote ${passwords.length} passwords into a ${bits.length}-byte filter (${hashes} hashes)`);
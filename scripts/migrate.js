@@ -0,0 +1,400 @@
+// Versioned migration runner for the local SQLite database and Cloudflare D1.
+//
+//   npm run db:migrate -- status            What is applied and what is pending
+//   npm run db:migrate -- up [--to 0012]    Apply pending migrations in order
+//   npm run db:migrate -- down [--steps 2]  Roll back the most recent migrations
+//   npm run db:migrate -- baseline --to 0001
+//       Record migrations as applied without running them, for a database
+//       whose schema was created before this runner existed
+//
+// Targets: data/local.db by default (the NEXTJS_ENV=development adapter),
+// `--d1` for wrangler's local D1 state, `--remote` for the deployed D1
+// database. `--database NAME` overrides the D1 database name.
+//
+// Migrations are migrations/NNNN_name.sql; the rollback for each lives in
+// migrations/down/ under the same file name. Every applied migration is
+// recorded in schema_migrations with a SHA-256 checksum, and nothing runs
+// while an applied file has been edited, deleted, or a new file was slotted
+// in before the latest applied version.
+const Database = require('better-sqlite3');
+const { createHash } = require('crypto');
+const { execFileSync } = require('child_process');
+const { join } = require('path');
+const { tmpdir } = require('os');
+const {
+  existsSync,
+  mkdirSync,
+  mkdtempSync,
+  readFileSync,
+  readdirSync,
+  rmSync,
+  writeFileSync,
+} = require('fs');
+
+const MIGRATIONS_DIR = join(process.cwd(), 'migrations');
+const ROLLBACKS_DIR = join(MIGRATIONS_DIR, 'down');
+const DEFAULT_D1_DATABASE = 'quizmaker-database';
+
+const SCHEMA_MIGRATIONS_SQL = `CREATE TABLE IF NOT EXISTS schema_migrations (
+  version TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  checksum TEXT NOT NULL,
+  applied_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);`;
+
+/**
+ * Read every migration in migrations/, oldest first
+ * @returns Migrations with their version, file name, SQL and checksum
+ */
+function discoverMigrations() {
+  const migrations = readdirSync(MIGRATIONS_DIR)
+    .filter((file) => /^\d{4}_[\w-]+\.sql$/.test(file))
+    .sort()
+    .map((file) => {
+      // Line endings are normalized so a Windows checkout has the same checksum
+      const sql = readFileSync(join(MIGRATIONS_DIR, file), 'utf-8').replace(/\r\n/g, '\n');
+      return {
+        version: file.slice(0, 4),
+        name: file.replace(/\.sql$/, ''),
+        file,
+        sql,
+        checksum: createHash('sha256').update(sql).digest('hex'),
+      };
+    });
+
+  const versions = new Set();
+  for (const migration of migrations) {
+    if (versions.has(migration.version)) {
+      throw new Error(`Two migrations share version ${migration.version}`);
+    }
+    versions.add(migration.version);
+  }
+
+  return migrations;
+}
+
+/**
+ * Quote a value as an SQL string literal
+ * @param value - Value to quote
+ * @returns Quoted literal
+ */
+function quote(value) {
+  return `'${String(value).replace(/'/g, "''")}'`;
+}
+
+/**
+ * Open the local SQLite database
+ * Each script runs in a transaction together with its schema_migrations change.
+ * @returns Target with query and exec functions
+ */
+function openLocalTarget() {
+  const dataDir = join(process.cwd(), 'data');
+  if (!existsSync(dataDir)) {
+    mkdirSync(dataDir, { recursive: true });
+  }
+
+  const dbPath = join(dataDir, 'local.db');
+  const db = new Database(dbPath);
+  db.pragma('foreign_keys = ON');
+
+  return {
+    label: `local SQLite database (${dbPath})`,
+    query: (sql) => db.prepare(sql).all(),
+    exec: (sql) => {
+      db.exec('BEGIN');
+      try {
+        db.exec(sql);
+        db.exec('COMMIT');
+      } catch (error) {
+        db.exec('ROLLBACK');
+        throw error;
+      }
+    },
+    close: () => db.close(),
+  };
+}
+
+/**
+ * Connect to a D1 database through wrangler
+ * D1 rejects explicit transactions; a file passed to `wrangler d1 execute`
+ * runs as one batch, so each migration and its schema_migrations row are sent
+ * as one file (as `wrangler d1 migrations apply` does).
+ * @param database - D1 database name from wrangler.jsonc
+ * @param remote - True for the deployed database, false for wrangler's local state
+ * @returns Target with query and exec functions
+ */
+function openD1Target(database, remote) {
+  const location = remote ? '--remote' : '--local';
+  const wrangler = (args) =>
+    execFileSync('npx', ['wrangler', 'd1', 'execute', database, location, ...args], {
+      encoding: 'utf-8',
+      stdio: ['ignore', 'pipe', 'inherit'],
+    });
+
+  return {
+    label: `${remote ? 'remote' : 'local'} D1 database "${database}"`,
+    query: (sql) => {
+      const output = JSON.parse(wrangler(['--json', '--command', sql]));
+      return output[0].results;
+    },
+    exec: (sql) => {
+      const dir = mkdtempSync(join(tmpdir(), 'migrate-'));
+      const file = join(dir, 'migration.sql');
+      try {
+        writeFileSync(file, sql);
+        wrangler(['--yes', '--file', file]);
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    },
+    close: () => {},
+  };
+}
+
+/**
+ * Compare the applied migrations with the files on disk
+ * @param target - Database target
+ * @param migrations - Migrations found on disk
+ * @returns Applied rows, pending migrations, and any problems that block changes
+ */
+function inspect(target, migrations) {
+  target.exec(SCHEMA_MIGRATIONS_SQL);
+
+  const applied = target.query('SELECT version, name, checksum, applied_at FROM schema_migrations ORDER BY version');
+  const appliedVersions = new Set(applied.map((row) => row.version));
+  const latestApplied = applied.length > 0 ? applied[applied.length - 1].version : null;
+  const byVersion = new Map(migrations.map((migration) => [migration.version, migration]));
+  const problems = [];
+
+  for (const row of applied) {
+    const migration = byVersion.get(row.version);
+    if (!migration) {
+      problems.push(`${row.name} is applied but its file is missing`);
+    } else if (migration.checksum !== row.checksum) {
+      problems.push(`${migration.file} has changed since it was applied (checksum mismatch)`);
+    }
+  }
+
+  const pending = migrations.filter((migration) => !appliedVersions.has(migration.version));
+
+  for (const migration of pending) {
+    if (latestApplied && migration.version < latestApplied) {
+      problems.push(`${migration.file} is older than the latest applied migration ${latestApplied}; give it a new number`);
+    }
+  }
+
+  return { applied, pending, problems };
+}
+
+/**
+ * Stop if the database and the migration files disagree
+ * @param problems - Problems found by inspect()
+ */
+function assertConsistent(problems) {
+  if (problems.length > 0) {
+    problems.forEach((problem) => console.error(`❌ ${problem}`));
+    throw new Error('Refusing to migrate until the problems above are fixed');
+  }
+}
+
+/**
+ * Print every migration and whether it is applied
+ * @param target - Database target
+ * @param migrations - Migrations found on disk
+ * @returns True if there are no problems
+ */
+function status(target, migrations) {
+  const { applied, problems } = inspect(target, migrations);
+  const appliedAt = new Map(applied.map((row) => [row.version, row.applied_at]));
+
+  console.log(`📊 Migrations for the ${target.label}:\n`);
+  for (const migration of migrations) {
+    const at = appliedAt.get(migration.version);
+    console.log(at ? `   ✅ ${migration.name} (applied ${at})` : `   ⏳ ${migration.name} (pending)`);
+  }
+
+  if (problems.length > 0) {
+    console.log('');
+    problems.forEach((problem) => console.error(`❌ ${problem}`));
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Apply pending migrations in order
+ * @param target - Database target
+ * @param migrations - Migrations found on disk
+ * @param to - Optional last version to apply
+ */
+function up(target, migrations, to) {
+  const { pending, problems } = inspect(target, migrations);
+  assertConsistent(problems);
+
+  const toApply = pending.filter((migration) => !to || migration.version <= to);
+
+  if (toApply.length === 0) {
+    console.log(`✅ The ${target.label} is up to date`);
+    return;
+  }
+
+  for (const migration of toApply) {
+    console.log(`📝 Applying ${migration.name}...`);
+    try {
+      target.exec(
+        `${migration.sql}\n\nINSERT INTO schema_migrations (version, name, checksum) VALUES (${quote(migration.version)}, ${quote(migration.name)}, ${quote(migration.checksum)});\n`
+      );
+    } catch (error) {
+      if (/already exists|duplicate column/.test(error.message)) {
+        console.error('💡 The schema predates the migration runner? Record what it already has with `baseline --to VERSION`.');
+      }
+      throw new Error(`${migration.file} failed: ${error.message}`);
+    }
+  }
+
+  console.log(`✅ Applied ${toApply.length} migration${toApply.length === 1 ? '' : 's'} to the ${target.label}`);
+}
+
+/**
+ * Roll back the most recently applied migrations
+ * @param target - Database target
+ * @param migrations - Migrations found on disk
+ * @param steps - Number of migrations to roll back
+ */
+function down(target, migrations, steps) {
+  const { applied, problems } = inspect(target, migrations);
+  assertConsistent(problems);
+
+  const toRollBack = applied.slice(-steps).reverse();
+
+  if (toRollBack.length === 0) {
+    console.log(`ℹ️  Nothing to roll back in the ${target.label}`);
+    return;
+  }
+
+  // Check every rollback exists before touching the database
+  const rollbacks = toRollBack.map((row) => {
+    const path = join(ROLLBACKS_DIR, `${row.name}.sql`);
+    if (!existsSync(path)) {
+      throw new Error(`${row.name} has no rollback (expected migrations/down/${row.name}.sql)`);
+    }
+    return { row, sql: readFileSync(path, 'utf-8') };
+  });
+
+  for (const { row, sql } of rollbacks) {
+    console.log(`↩️  Rolling back ${row.name}...`);
+    target.exec(`${sql}\n\nDELETE FROM schema_migrations WHERE version = ${quote(row.version)};\n`);
+  }
+
+  console.log(`✅ Rolled back ${rollbacks.length} migration${rollbacks.length === 1 ? '' : 's'} in the ${target.label}`);
+}
+
+/**
+ * Record migrations as applied without running them
+ * @param target - Database target
+ * @param migrations - Migrations found on disk
+ * @param to - Last version the existing schema already contains
+ */
+function baseline(target, migrations, to) {
+  if (!to) {
+    throw new Error('baseline needs --to VERSION (the last migration the schema already has)');
+  }
+
+  const { pending, problems } = inspect(target, migrations);
+  assertConsistent(problems);
+
+  const toRecord = pending.filter((migration) => migration.version <= to);
+  if (toRecord.length === 0) {
+    console.log('ℹ️  Nothing to record');
+    return;
+  }
+
+  target.exec(
+    toRecord
+      .map((migration) =>
+        `INSERT INTO schema_migrations (version, name, checksum) VALUES (${quote(migration.version)}, ${quote(migration.name)}, ${quote(migration.checksum)});`
+      )
+      .join('\n')
+  );
+
+  toRecord.forEach((migration) => console.log(`   📌 ${migration.name}`));
+  console.log(`✅ Recorded ${toRecord.length} migration${toRecord.length === 1 ? '' : 's'} as applied`);
+}
+
+/**
+ * Parse the command line
+ * @param argv - Arguments after the script name
+ * @returns Command and options
+ */
+function parseArgs(argv) {
+  const options = { command: argv[0], remote: false, d1: false, database: DEFAULT_D1_DATABASE, to: null, steps: 1 };
+
+  for (let i = 1; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--remote') options.remote = true;
+    else if (arg === '--d1') options.d1 = true;
+    else if (arg === '--database') options.database = argv[++i];
+    else if (arg === '--to') options.to = argv[++i];
+    else if (arg === '--steps') options.steps = Number(argv[++i]);
+    else throw new Error(`Unknown option ${arg}`);
+  }
+
+  if (options.to && !/^\d{4}$/.test(options.to)) {
+    throw new Error('--to expects a four-digit version, e.g. 0012');
+  }
+  if (!Number.isInteger(options.steps) || options.steps < 1) {
+    throw new Error('--steps expects a positive number');
+  }
+
+  return options;
+}
+
+/**
+ * Open the database a command should run against
+ * @param options - Parsed options
+ * @returns Database target
+ */
+function openTarget(options) {
+  return options.remote || options.d1
+    ? openD1Target(options.database, options.remote)
+    : openLocalTarget();
+}
+
+function main() {
+  const options = parseArgs(process.argv.slice(2));
+  const commands = ['status', 'up', 'down', 'baseline'];
+
+  if (!commands.includes(options.command)) {
+    console.log('Usage: node scripts/migrate.js <status|up|down|baseline> [--to VERSION] [--steps N] [--d1 | --remote] [--database NAME]');
+    process.exit(options.command ? 1 : 0);
+  }
+
+  const migrations = discoverMigrations();
+  const target = openTarget(options);
+
+  try {
+    if (options.command === 'status') {
+      if (!status(target, migrations)) process.exitCode = 1;
+    } else if (options.command === 'up') {
+      up(target, migrations, options.to);
+    } else if (options.command === 'down') {
+      down(target, migrations, options.steps);
+    } else {
+      baseline(target, migrations, options.to);
+    }
+  } finally {
+    target.close();
+  }
+}
+
+if (require.main === module) {
+  try {
+    main();
+  } catch (error) {
+    console.error(`❌ ${error.message}`);
+    process.exit(1);
+  }
+}
+
+module.exports = { discoverMigrations, openLocalTarget, up };
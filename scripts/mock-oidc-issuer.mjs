@@ -0,0 +1,157 @@
+// Minimal OpenID Connect issuer for testing external sign-in offline.
+//
+// Start it with `npm run oidc:mock`, then add to .dev.vars:
+//   OIDC_PROVIDERS=mock
+//   OIDC_MOCK_ISSUER=http://localhost:9400
+//   OIDC_MOCK_CLIENT_ID=quizmaker-local
+//   OIDC_MOCK_CLIENT_SECRET=quizmaker-local-secret
+//   OIDC_MOCK_LABEL="Mock School Account"
+//
+// The authorize page lets you type any email/name and signs an ID token for it.
+import { createServer } from 'http';
+import { createHash, randomBytes, randomUUID } from 'crypto';
+import { SignJWT, exportJWK, generateKeyPair } from 'jose';
+
+const port = Number(process.env.MOCK_OIDC_PORT || 9400);
+const issuer = process.env.MOCK_OIDC_ISSUER || `http://localhost:${port}`;
+const clientId = process.env.MOCK_OIDC_CLIENT_ID || 'quizmaker-local';
+const clientSecret = process.env.MOCK_OIDC_CLIENT_SECRET || 'quizmaker-local-secret';
+
+const { publicKey, privateKey } = await generateKeyPair('RS256');
+const jwk = { ...(await exportJWK(publicKey)), kid: randomUUID(), alg: 'RS256', use: 'sig' };
+
+// Issued authorization codes (single-use, in memory)
+const codes = new Map();
+
+function sendJson(res, status, body) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+function escapeHtml(value) {
+  return String(value).replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`);
+}
+
+async function readForm(req) {
+  let body = '';
+  for await (const chunk of req) body += chunk;
+  return new URLSearchParams(body);
+}
+
+function base64Url(buffer) {
+  return buffer.toString('base64').replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+const server = createServer(async (req, res) => {
+  const url = new URL(req.url, issuer);
+
+  if (req.method === 'GET' && url.pathname === '/.well-known/openid-configuration') {
+    return sendJson(res, 200, {
+      issuer,
+      authorization_endpoint: `${issuer}/authorize`,
+      token_endpoint: `${issuer}/token`,
+      jwks_uri: `${issuer}/jwks`,
+      response_types_supported: ['code'],
+      subject_types_supported: ['public'],
+      id_token_signing_alg_values_supported: ['RS256'],
+      code_challenge_methods_supported: ['S256'],
+    });
+  }
+
+  if (req.method === 'GET' && url.pathname === '/jwks') {
+    return sendJson(res, 200, { keys: [jwk] });
+  }
+
+  if (req.method === 'GET' && url.pathname === '/authorize') {
+    const params = Object.fromEntries(url.searchParams);
+    if (params.client_id !== clientId || params.code_challenge_method !== 'S256') {
+      return sendJson(res, 400, { error: 'invalid_request' });
+    }
+
+    const hidden = Object.entries(params)
+      .map(([key, value]) => `<input type="hidden" name="${escapeHtml(key)}" value="${escapeHtml(value)}">`)
+      .join('');
+
+    res.writeHead(200, { 'Content-Type': 'text/html' });
+    return res.end(`<!doctype html>
+<title>Mock OIDC sign-in</title>
+<form method="post" action="/authorize" style="font-family:sans-serif;max-width:320px;margin:4rem auto;display:grid;gap:.5rem">
+  <h1>Mock OIDC sign-in</h1>
+  ${hidden}
+  <label>Email <input name="email" value="teacher@example.edu" required></label>
+  <label>Name <input name="name" value="Test Teacher"></label>
+  <label><input type="checkbox" name="email_verified" checked> Email verified</label>
+  <button type="submit">Sign in</button>
+</form>`);
+  }
+
+  if (req.method === 'POST' && url.pathname === '/authorize') {
+    const form = await readForm(req);
+    const code = base64Url(randomBytes(24));
+    const email = form.get('email');
+
+    codes.set(code, {
+      clientId: form.get('client_id'),
+      redirectUri: form.get('redirect_uri'),
+      codeChallenge: form.get('code_challenge'),
+      nonce: form.get('nonce'),
+      email,
+      name: form.get('name'),
+      emailVerified: form.get('email_verified') === 'on',
+      // Stable subject per email so repeat logins hit the same identity
+      subject: createHash('sha256').update(email).digest('hex').slice(0, 24),
+    });
+
+    const redirect = new URL(form.get('redirect_uri'));
+    redirect.searchParams.set('code', code);
+    redirect.searchParams.set('state', form.get('state'));
+    res.writeHead(302, { Location: redirect.toString() });
+    return res.end();
+  }
+
+  if (req.method === 'POST' && url.pathname === '/token') {
+    const form = await readForm(req);
+    const grant = codes.get(form.get('code'));
+    codes.delete(form.get('code'));
+
+    const verifierHash = base64Url(createHash('sha256').update(form.get('code_verifier') || '').digest());
+
+    if (
+      !grant ||
+      form.get('client_id') !== clientId ||
+      form.get('client_secret') !== clientSecret ||
+      form.get('redirect_uri') !== grant.redirectUri ||
+      verifierHash !== grant.codeChallenge
+    ) {
+      return sendJson(res, 400, { error: 'invalid_grant' });
+    }
+
+    const idToken = await new SignJWT({
+      nonce: grant.nonce,
+      email: grant.email,
+      email_verified: grant.emailVerified,
+      name: grant.name,
+    })
+      .setProtectedHeader({ alg: 'RS256', kid: jwk.kid })
+      .setIssuer(issuer)
+      .setAudience(clientId)
+      .setSubject(grant.subject)
+      .setIssuedAt()
+      .setExpirationTime('5m')
+      .sign(privateKey);
+
+    return sendJson(res, 200, {
+      access_token: base64Url(randomBytes(24)),
+      token_type: 'Bearer',
+      expires_in: 300,
+      id_token: idToken,
+    });
+  }
+
+  sendJson(res, 404, { error: 'not_found' });
+});
+
+server.listen(port, () => {
+  console.log(`🔐 Mock OIDC issuer running at ${issuer}`);
+  console.log(`   client_id=${clientId} client_secret=${clientSecret}`);
+});
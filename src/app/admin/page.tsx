@@ -0,0 +1,218 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { useAuth } from '@/lib/auth/auth-context';
+import { authFetch } from '@/lib/auth/auth-fetch';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+
+interface AdminUser {
+  id: string;
+  email: string;
+  fullName: string;
+  role: string;
+  isActive: boolean;
+  emailVerified: boolean;
+  createdAt: string;
+  lastLoginAt: string | null;
+  lockedUntil: string | null;
+  deleteAfter: string | null;
+}
+
+export default function AdminPage() {
+  const { user, logout } = useAuth();
+  const [users, setUsers] = useState<AdminUser[]>([]);
+  const [total, setTotal] = useState(0);
+  const [pageSize, setPageSize] = useState(25);
+  const [page, setPage] = useState(1);
+  const [search, setSearch] = useState('');
+  const [query, setQuery] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const fetchUsers = async () => {
+      try {
+        setLoading(true);
+        const params = new URLSearchParams({ q: query, page: String(page) });
+        const response = await authFetch(`/api/admin/users?${params.toString()}`);
+
+        if (!response.ok) {
+          throw new Error('Failed to fetch users');
+        }
+
+        const data = await response.json() as { users: AdminUser[]; total: number; pageSize: number };
+        setUsers(data.users);
+        setTotal(data.total);
+        setPageSize(data.pageSize);
+        setError('');
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load users');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchUsers();
+  }, [query, page]);
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setPage(1);
+    setQuery(search);
+  };
+
+  const totalPages = Math.max(1, Math.ceil(total / pageSize));
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-4">
+              <Link href="/dashboard">
+                <Button variant="outline" size="sm">
+                  ← Back to Dashboard
+                </Button>
+              </Link>
+              <h1 className="text-2xl font-bold text-gray-900">Admin Console</h1>
+            </div>
+            <div className="flex items-center gap-4">
+              <span className="text-sm text-gray-600">{user?.email}</span>
+              <Button variant="outline" onClick={logout}>
+                Log Out
+              </Button>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="space-y-6">
+          {error && (
+            <div className="p-4 text-sm text-red-500 bg-red-50 border border-red-200 rounded-md">
+              {error}
+            </div>
+          )}
+
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between gap-4">
+                <div>
+                  <CardTitle>Users</CardTitle>
+                  <CardDescription>
+                    {total} {total === 1 ? 'account' : 'accounts'}
+                  </CardDescription>
+                </div>
+                <form onSubmit={handleSearch} className="flex gap-2">
+                  <Input
+                    type="search"
+                    placeholder="Search by email or name"
+                    value={search}
+                    onChange={(e) => setSearch(e.target.value)}
+                    className="w-64"
+                  />
+                  <Button type="submit" variant="outline">
+                    Search
+                  </Button>
+                </form>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {loading ? (
+                <div className="text-center py-8 text-gray-500">Loading users...</div>
+              ) : users.length === 0 ? (
+                <div className="text-center py-8 text-gray-500">No users found</div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>User</TableHead>
+                        <TableHead>Role</TableHead>
+                        <TableHead>Status</TableHead>
+                        <TableHead>Last Login</TableHead>
+                        <TableHead className="text-right">Action</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {users.map((account) => (
+                        <TableRow key={account.id}>
+                          <TableCell>
+                            <div className="font-medium">{account.fullName}</div>
+                            <div className="text-sm text-gray-600">{account.email}</div>
+                          </TableCell>
+                          <TableCell className="capitalize">{account.role}</TableCell>
+                          <TableCell>
+                            <div className="flex flex-wrap gap-1">
+                              {account.isActive ? (
+                                <Badge variant="secondary">Active</Badge>
+                              ) : (
+                                <Badge variant="destructive">Deactivated</Badge>
+                              )}
+                              {account.lockedUntil && (
+                                <Badge variant="destructive">Locked</Badge>
+                              )}
+                              {account.deleteAfter && (
+                                <Badge variant="outline">Deletion pending</Badge>
+                              )}
+                              {!account.emailVerified && (
+                                <Badge variant="outline">Unverified</Badge>
+                              )}
+                            </div>
+                          </TableCell>
+                          <TableCell className="text-gray-600">
+                            {account.lastLoginAt ? new Date(account.lastLoginAt).toLocaleString() : 'Never'}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            <Link href={`/admin/users/${account.id}`}>
+                              <Button variant="outline" size="sm">
+                                Manage
+                              </Button>
+                            </Link>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+
+              {totalPages > 1 && (
+                <div className="flex items-center justify-between pt-4">
+                  <span className="text-sm text-gray-600">
+                    Page {page} of {totalPages}
+                  </span>
+                  <div className="flex gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setPage(page - 1)}
+                      disabled={page <= 1}
+                    >
+                      Previous
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setPage(page + 1)}
+                      disabled={page >= totalPages}
+                    >
+                      Next
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,346 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import { useAuth } from '@/lib/auth/auth-context';
+import { authFetch } from '@/lib/auth/auth-fetch';
+import { ROLES, type Role } from '@/lib/auth/rbac';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { SecurityEventsTable, type SecurityEvent } from '@/components/sessions/security-activity';
+
+interface AdminUser {
+  id: string;
+  email: string;
+  fullName: string;
+  role: Role;
+  isActive: boolean;
+  emailVerified: boolean;
+  createdAt: string;
+  lastLoginAt: string | null;
+  lockedUntil: string | null;
+  deleteAfter: string | null;
+}
+
+interface AdminSession {
+  id: string;
+  createdAt: string;
+  lastActiveAt: string;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+export default function AdminUserPage() {
+  const { id } = useParams<{ id: string }>();
+  const { user: currentUser, logout } = useAuth();
+  const [user, setUser] = useState<AdminUser | null>(null);
+  const [sessions, setSessions] = useState<AdminSession[]>([]);
+  const [events, setEvents] = useState<SecurityEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [pending, setPending] = useState<string | null>(null);
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+
+  const fetchUser = useCallback(async () => {
+    try {
+      const response = await authFetch(`/api/admin/users/${id}`);
+
+      if (!response.ok) {
+        const data = await response.json() as { error: string };
+        throw new Error(data.error || 'Failed to fetch user');
+      }
+
+      const data = await response.json() as { user: AdminUser; sessions: AdminSession[]; events: SecurityEvent[] };
+      setUser(data.user);
+      setSessions(data.sessions);
+      setEvents(data.events);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load user');
+    } finally {
+      setLoading(false);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    fetchUser();
+  }, [fetchUser]);
+
+  /**
+   * Run an admin action and reload the user
+   * @param action - Key used to disable the triggering button
+   * @param url - Admin API endpoint
+   * @param init - Request options
+   */
+  const runAction = async (action: string, url: string, init: RequestInit) => {
+    try {
+      setPending(action);
+      setError('');
+      setMessage('');
+
+      const response = await authFetch(url, init);
+      const data = await response.json() as { error?: string; message?: string };
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Action failed');
+      }
+
+      setMessage(data.message || 'User updated');
+      await fetchUser();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Action failed');
+    } finally {
+      setPending(null);
+    }
+  };
+
+  const updateUser = (action: string, changes: { isActive?: boolean; role?: Role }) =>
+    runAction(action, `/api/admin/users/${id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(changes),
+    });
+
+  const handleToggleActive = () => {
+    if (!user) return;
+    if (user.isActive && !confirm(`Deactivate ${user.email}? They will be logged out everywhere.`)) {
+      return;
+    }
+    updateUser('active', { isActive: !user.isActive });
+  };
+
+  const handleRoleChange = (role: Role) => {
+    if (!user || role === user.role) return;
+    if (!confirm(`Change ${user.email} to ${role}? They will be logged out everywhere.`)) {
+      return;
+    }
+    updateUser('role', { role });
+  };
+
+  const handleForceLogout = () => {
+    if (!confirm('Log this user out from all devices?')) {
+      return;
+    }
+    runAction('sessions', `/api/admin/users/${id}/sessions`, { method: 'DELETE' });
+  };
+
+  const handlePasswordReset = () =>
+    runAction('reset', `/api/admin/users/${id}/password-reset`, { method: 'POST' });
+
+  const handleUnlock = () =>
+    runAction('unlock', `/api/admin/users/${id}/unlock`, { method: 'POST' });
+
+  const isSelf = currentUser?.id === id;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-4">
+              <Link href="/admin">
+                <Button variant="outline" size="sm">
+                  ← Back to Users
+                </Button>
+              </Link>
+              <h1 className="text-2xl font-bold text-gray-900">Manage User</h1>
+            </div>
+            <div className="flex items-center gap-4">
+              <span className="text-sm text-gray-600">{currentUser?.email}</span>
+              <Button variant="outline" onClick={logout}>
+                Log Out
+              </Button>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="space-y-6">
+          {error && (
+            <div className="p-4 text-sm text-red-500 bg-red-50 border border-red-200 rounded-md">
+              {error}
+            </div>
+          )}
+
+          {message && (
+            <div className="p-4 text-sm text-green-700 bg-green-50 border border-green-200 rounded-md">
+              {message}
+            </div>
+          )}
+
+          {loading ? (
+            <div className="text-center py-8 text-gray-500">Loading user...</div>
+          ) : user && (
+            <>
+              <Card>
+                <CardHeader>
+                  <div className="flex items-center justify-between gap-4">
+                    <div>
+                      <CardTitle>{user.fullName}</CardTitle>
+                      <CardDescription>{user.email}</CardDescription>
+                    </div>
+                    <div className="flex flex-wrap gap-1">
+                      {user.isActive ? (
+                        <Badge variant="secondary">Active</Badge>
+                      ) : (
+                        <Badge variant="destructive">Deactivated</Badge>
+                      )}
+                      {user.lockedUntil && (
+                        <Badge variant="destructive">
+                          Locked until {new Date(user.lockedUntil).toLocaleTimeString()}
+                        </Badge>
+                      )}
+                      {user.deleteAfter && (
+                        <Badge variant="outline">
+                          Deletion on {new Date(user.deleteAfter).toLocaleDateString()}
+                        </Badge>
+                      )}
+                      {!user.emailVerified && (
+                        <Badge variant="outline">Unverified</Badge>
+                      )}
+                    </div>
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 text-sm">
+                    <div>
+                      <p className="text-gray-600">Joined</p>
+                      <p className="font-medium">{new Date(user.createdAt).toLocaleDateString()}</p>
+                    </div>
+                    <div>
+                      <p className="text-gray-600">Last login</p>
+                      <p className="font-medium">
+                        {user.lastLoginAt ? new Date(user.lastLoginAt).toLocaleString() : 'Never'}
+                      </p>
+                    </div>
+                    <div>
+                      <label htmlFor="role" className="text-gray-600">Role</label>
+                      <select
+                        id="role"
+                        className="mt-1 block w-full rounded-md border border-input bg-transparent px-3 py-1 capitalize"
+                        value={user.role}
+                        onChange={(e) => handleRoleChange(e.target.value as Role)}
+                        disabled={isSelf || pending !== null}
+                      >
+                        {ROLES.map((role) => (
+                          <option key={role} value={role}>
+                            {role}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                  </div>
+
+                  {isSelf ? (
+                    <p className="text-sm text-gray-600">
+                      This is your own account. Use Account Settings to manage it.
+                    </p>
+                  ) : (
+                    <div className="flex flex-wrap gap-2">
+                      <Button
+                        variant={user.isActive ? 'destructive' : 'default'}
+                        onClick={handleToggleActive}
+                        disabled={pending !== null}
+                      >
+                        {pending === 'active' ? 'Saving...' : user.isActive ? 'Deactivate Account' : 'Reactivate Account'}
+                      </Button>
+                      <Button
+                        variant="outline"
+                        onClick={handleForceLogout}
+                        disabled={pending !== null || sessions.length === 0}
+                      >
+                        {pending === 'sessions' ? 'Logging out...' : 'Logout All Devices'}
+                      </Button>
+                      <Button
+                        variant="outline"
+                        onClick={handlePasswordReset}
+                        disabled={pending !== null || !user.isActive}
+                      >
+                        {pending === 'reset' ? 'Sending...' : 'Send Password Reset'}
+                      </Button>
+                      {user.lockedUntil && (
+                        <Button
+                          variant="outline"
+                          onClick={handleUnlock}
+                          disabled={pending !== null}
+                        >
+                          {pending === 'unlock' ? 'Unlocking...' : 'Clear Login Lockout'}
+                        </Button>
+                      )}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>Active Sessions</CardTitle>
+                  <CardDescription>Devices where this user is currently logged in</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  {sessions.length === 0 ? (
+                    <div className="text-center py-8 text-gray-500">
+                      No active sessions
+                    </div>
+                  ) : (
+                    <div className="overflow-x-auto">
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>IP Address</TableHead>
+                            <TableHead>Browser</TableHead>
+                            <TableHead>Last Active</TableHead>
+                            <TableHead>Login Date</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {sessions.map((session) => (
+                            <TableRow key={session.id}>
+                              <TableCell className="text-gray-600">
+                                {session.ipAddress || 'Unknown'}
+                              </TableCell>
+                              <TableCell className="text-gray-600 max-w-xs truncate" title={session.userAgent}>
+                                {session.userAgent || 'Unknown'}
+                              </TableCell>
+                              <TableCell className="text-gray-600">
+                                {new Date(session.lastActiveAt).toLocaleString()}
+                              </TableCell>
+                              <TableCell className="text-gray-600">
+                                {new Date(session.createdAt).toLocaleDateString()}
+                              </TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>Security Activity</CardTitle>
+                  <CardDescription>Most recent 50 events, including admin actions</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  {events.length === 0 ? (
+                    <div className="text-center py-8 text-gray-500">
+                      No security activity recorded yet
+                    </div>
+                  ) : (
+                    <SecurityEventsTable events={events} />
+                  )}
+                </CardContent>
+              </Card>
+            </>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
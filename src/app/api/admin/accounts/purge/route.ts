@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server';
+import { withApiAuth } from '@/lib/auth/with-auth';
+import { purgeDeletedAccounts } from '@/lib/auth/account';
+import { recordAuthEvent } from '@/lib/auth/audit';
+import { getDatabase } from '@/lib/d1-client';
+
+// POST - Hard-delete accounts whose deletion grace period is over
+// Meant to be called on a schedule, e.g. by a cron job holding a users:manage API token
+export const POST = withApiAuth(async (request, { user: admin, session, apiToken }) => {
+  try {
+    const db = getDatabase();
+    const deletedIds = await purgeDeletedAccounts(db);
+
+    // One event per account, filed under its ID, so it sits at the end of that account's history
+    for (const deletedId of deletedIds) {
+      await recordAuthEvent(db, request, {
+        type: 'admin_account_purged',
+        userId: deletedId,
+        actorId: admin.id,
+        sessionId: session?.id,
+        metadata: { apiTokenId: apiToken?.id },
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      deleted: deletedIds.length,
+    });
+  } catch (error) {
+    console.error('Purge deleted accounts error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}, { permission: 'users:manage', scope: 'users:manage' });
@@ -0,0 +1,49 @@
+import { NextResponse } from 'next/server';
+import { withApiAuth } from '@/lib/auth/with-auth';
+import { getAdminUser } from '@/lib/auth/admin';
+import { sendPasswordResetEmail } from '@/lib/auth/password-reset';
+import { recordAuthEvent } from '@/lib/auth/audit';
+import { getAppOrigin } from '@/lib/email';
+import { getDatabase } from '@/lib/d1-client';
+
+// POST - Email the user a password reset link
+export const POST = withApiAuth<{ id: string }>(async (request, { user: admin, params }) => {
+  try {
+    const { id } = await params;
+    const db = getDatabase();
+    const user = await getAdminUser(db, id);
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!user.isActive) {
+      return NextResponse.json(
+        { error: 'Reactivate the account before resetting its password' },
+        { status: 400 }
+      );
+    }
+
+    await sendPasswordResetEmail(db, user, getAppOrigin(request));
+
+    await recordAuthEvent(db, request, {
+      type: 'admin_password_reset_sent',
+      userId: id,
+      actorId: admin.id,
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: `Password reset link sent to ${user.email}`,
+    });
+  } catch (error) {
+    console.error('Admin password reset error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}, { permission: 'users:manage', scope: 'users:manage' });
@@ -0,0 +1,141 @@
+import { NextResponse } from 'next/server';
+import { withApiAuth } from '@/lib/auth/with-auth';
+import { getAdminUser } from '@/lib/auth/admin';
+import { revokeAllUserSessions } from '@/lib/auth/session';
+import { SessionRepository } from '@/lib/repositories/session-repository';
+import { UserRepository } from '@/lib/repositories/user-repository';
+import { recordAuthEvent, getUserAuthEvents } from '@/lib/auth/audit';
+import { isRole, type Role } from '@/lib/auth/rbac';
+import { getDatabase } from '@/lib/d1-client';
+
+interface UpdateUserRequest {
+  isActive?: boolean;
+  role?: Role;
+}
+
+// GET - User details with active sessions and recent security activity
+export const GET = withApiAuth<{ id: string }>(async (request, { params }) => {
+  try {
+    const { id } = await params;
+    const db = getDatabase();
+
+    const user = await getAdminUser(db, id);
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      );
+    }
+
+    const sessions = await SessionRepository.listActiveSessions(db, id);
+    const events = await getUserAuthEvents(db, id, 50);
+
+    return NextResponse.json({
+      success: true,
+      user,
+      sessions: sessions.map((session) => ({
+        id: session.id,
+        createdAt: session.createdAt,
+        lastActiveAt: session.lastActiveAt,
+        ipAddress: session.ipAddress,
+        userAgent: session.userAgent,
+      })),
+      events,
+    });
+  } catch (error) {
+    console.error('Admin get user error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}, { permission: 'users:read', scope: 'users:read' });
+
+// PATCH - Activate/deactivate a user or change their role
+export const PATCH = withApiAuth<{ id: string }>(async (request, { user: admin, params }) => {
+  try {
+    const { id } = await params;
+    const body = await request.json() as UpdateUserRequest;
+    const { isActive, role } = body;
+
+    if (isActive === undefined && role === undefined) {
+      return NextResponse.json(
+        { error: 'Nothing to update' },
+        { status: 400 }
+      );
+    }
+
+    if (isActive !== undefined && typeof isActive !== 'boolean') {
+      return NextResponse.json(
+        { error: 'isActive must be a boolean' },
+        { status: 400 }
+      );
+    }
+
+    if (role !== undefined && !isRole(role)) {
+      return NextResponse.json(
+        { error: 'Invalid role' },
+        { status: 400 }
+      );
+    }
+
+    // Admins can't lock themselves out of the console
+    if (id === admin.id) {
+      return NextResponse.json(
+        { error: 'You cannot change your own status or role' },
+        { status: 400 }
+      );
+    }
+
+    const db = getDatabase();
+    const user = await getAdminUser(db, id);
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      );
+    }
+
+    if (isActive !== undefined && isActive !== user.isActive) {
+      await UserRepository.setActive(db, id, isActive);
+
+      // A deactivated account must not keep its open sessions
+      if (!isActive) {
+        await revokeAllUserSessions(db, id);
+      }
+
+      await recordAuthEvent(db, request, {
+        type: isActive ? 'admin_user_activated' : 'admin_user_deactivated',
+        userId: id,
+        actorId: admin.id,
+      });
+    }
+
+    if (role !== undefined && role !== user.role) {
+      await UserRepository.setRole(db, id, role);
+
+      // Roles travel in the access token; sign the user out so the change applies now
+      await revokeAllUserSessions(db, id);
+
+      await recordAuthEvent(db, request, {
+        type: 'admin_role_changed',
+        userId: id,
+        actorId: admin.id,
+        metadata: { from: user.role, to: role },
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      user: await getAdminUser(db, id),
+    });
+  } catch (error) {
+    console.error('Admin update user error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}, { permission: 'users:manage', scope: 'users:manage' });
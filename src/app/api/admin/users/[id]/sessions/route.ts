@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server';
+import { withApiAuth } from '@/lib/auth/with-auth';
+import { getAdminUser } from '@/lib/auth/admin';
+import { revokeAllUserSessions } from '@/lib/auth/session';
+import { recordAuthEvent } from '@/lib/auth/audit';
+import { getDatabase } from '@/lib/d1-client';
+
+// DELETE - Force-logout a user from every device
+export const DELETE = withApiAuth<{ id: string }>(async (request, { user: admin, params }) => {
+  try {
+    const { id } = await params;
+    const db = getDatabase();
+
+    if (!await getAdminUser(db, id)) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      );
+    }
+
+    await revokeAllUserSessions(db, id);
+
+    await recordAuthEvent(db, request, {
+      type: 'admin_sessions_revoked',
+      userId: id,
+      actorId: admin.id,
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: 'User logged out from all devices',
+    });
+  } catch (error) {
+    console.error('Admin revoke sessions error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}, { permission: 'users:manage', scope: 'users:manage' });
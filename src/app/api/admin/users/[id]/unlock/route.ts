@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server';
+import { withApiAuth } from '@/lib/auth/with-auth';
+import { getAdminUser } from '@/lib/auth/admin';
+import { clearLoginFailures } from '@/lib/auth/login-throttle';
+import { recordAuthEvent } from '@/lib/auth/audit';
+import { getDatabase } from '@/lib/d1-client';
+
+// POST - Clear a login lockout caused by too many failed attempts
+export const POST = withApiAuth<{ id: string }>(async (request, { user: admin, params }) => {
+  try {
+    const { id } = await params;
+    const db = getDatabase();
+    const user = await getAdminUser(db, id);
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      );
+    }
+
+    await clearLoginFailures(db, user.email);
+
+    await recordAuthEvent(db, request, {
+      type: 'admin_login_unlocked',
+      userId: id,
+      actorId: admin.id,
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: 'Login lockout cleared',
+    });
+  } catch (error) {
+    console.error('Admin unlock error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}, { permission: 'users:manage', scope: 'users:manage' });
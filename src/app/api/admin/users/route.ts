@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server';
+import { withApiAuth } from '@/lib/auth/with-auth';
+import { listUsers, parsePageNumber, ADMIN_USERS_PAGE_SIZE } from '@/lib/auth/admin';
+import { getDatabase } from '@/lib/d1-client';
+
+// GET - List and search users
+export const GET = withApiAuth(async (request) => {
+  try {
+    const query = request.nextUrl.searchParams.get('q') || '';
+    const page = parsePageNumber(request.nextUrl.searchParams.get('page'));
+
+    const db = getDatabase();
+    const { users, total } = await listUsers(db, { query, page });
+
+    return NextResponse.json({
+      success: true,
+      users,
+      total,
+      page,
+      pageSize: ADMIN_USERS_PAGE_SIZE,
+    });
+  } catch (error) {
+    console.error('Admin list users error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}, { permission: 'users:read', scope: 'users:read' });
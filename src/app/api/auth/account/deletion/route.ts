@@ -0,0 +1,109 @@
+import { NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth/with-auth';
+import { scheduleAccountDeletion, cancelAccountDeletion, ACCOUNT_DELETION_GRACE_DAYS } from '@/lib/auth/account';
+import { revokeAllUserSessions } from '@/lib/auth/session';
+import { recordAuthEvent } from '@/lib/auth/audit';
+import { confirmReauthentication } from '@/lib/auth/reauth';
+import { clearAuthCookies } from '@/lib/auth/cookies';
+import { getDatabase } from '@/lib/d1-client';
+
+// GET - Pending deletion status
+export const GET = withAuth(async (request, { user }) => {
+  return NextResponse.json({
+    success: true,
+    deleteAfter: user.deleteAfter,
+    gracePeriodDays: ACCOUNT_DELETION_GRACE_DAYS,
+  });
+});
+
+// POST - Schedule the account for deletion (password or a fresh sign-in required); signs out everywhere
+export const POST = withAuth(async (request, { user, session }) => {
+  try {
+    const body = await request.json() as { password?: string };
+    const { password } = body;
+
+    if (user.deleteAfter) {
+      return NextResponse.json(
+        { error: 'Account deletion is already scheduled' },
+        { status: 400 }
+      );
+    }
+
+    const db = getDatabase();
+
+    const reauth = await confirmReauthentication(db, user.id, session.id, password);
+
+    if (reauth === 'password_required') {
+      return NextResponse.json(
+        { error: 'Enter your password, or sign in again to confirm' },
+        { status: 400 }
+      );
+    }
+
+    if (reauth === 'incorrect_password') {
+      return NextResponse.json(
+        { error: 'Invalid password' },
+        { status: 400 }
+      );
+    }
+
+    const deleteAfter = await scheduleAccountDeletion(db, user);
+
+    await recordAuthEvent(db, request, {
+      type: 'account_deletion_scheduled',
+      userId: user.id,
+      sessionId: session.id,
+      metadata: { deleteAfter },
+    });
+
+    await revokeAllUserSessions(db, user.id);
+
+    const response = NextResponse.json({
+      success: true,
+      deleteAfter,
+      message: `Your account will be deleted on ${new Date(deleteAfter).toDateString()}. Sign in before then to cancel.`,
+    });
+
+    clearAuthCookies(response);
+
+    return response;
+  } catch (error) {
+    console.error('Schedule account deletion error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
+
+// DELETE - Cancel a pending account deletion
+export const DELETE = withAuth(async (request, { user, session }) => {
+  try {
+    if (!user.deleteAfter) {
+      return NextResponse.json(
+        { error: 'No account deletion is scheduled' },
+        { status: 400 }
+      );
+    }
+
+    const db = getDatabase();
+    await cancelAccountDeletion(db, user.id);
+
+    await recordAuthEvent(db, request, {
+      type: 'account_deletion_cancelled',
+      userId: user.id,
+      sessionId: session.id,
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: 'Account deletion cancelled',
+    });
+  } catch (error) {
+    console.error('Cancel account deletion error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth/with-auth';
+import { exportUserData } from '@/lib/auth/account';
+import { recordAuthEvent } from '@/lib/auth/audit';
+import { getDatabase } from '@/lib/d1-client';
+
+// GET - Download all of the user's personal data as a JSON archive
+export const GET = withAuth(async (request, { user, session }) => {
+  try {
+    const db = getDatabase();
+    const data = await exportUserData(db, user.id);
+
+    await recordAuthEvent(db, request, {
+      type: 'data_exported',
+      userId: user.id,
+      sessionId: session.id,
+    });
+
+    const filename = `quizmaker-export-${data.exportedAt.slice(0, 10)}.json`;
+
+    return new NextResponse(JSON.stringify(data, null, 2), {
+      headers: {
+        'Content-Type': 'application/json',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Data export error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
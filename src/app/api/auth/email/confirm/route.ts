@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { consumeEmailChangeToken } from '@/lib/auth/email-change';
+import { recordAuthEvent } from '@/lib/auth/audit';
+import { getDatabase } from '@/lib/d1-client';
+
+// POST - Confirm an email change from the link sent to the new address
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json() as { token: string };
+    const { token } = body;
+
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Confirmation token is required' },
+        { status: 400 }
+      );
+    }
+
+    const db = getDatabase();
+    const result = await consumeEmailChangeToken(db, token);
+
+    if (result.status === 'email_taken') {
+      return NextResponse.json(
+        { error: 'That email address is now used by another account' },
+        { status: 409 }
+      );
+    }
+
+    if (result.status === 'invalid') {
+      return NextResponse.json(
+        { error: 'Confirmation link is invalid or has expired' },
+        { status: 400 }
+      );
+    }
+
+    await recordAuthEvent(db, request, {
+      type: 'email_changed',
+      userId: result.userId,
+      email: result.newEmail,
+      metadata: { from: result.oldEmail, to: result.newEmail },
+    });
+
+    return NextResponse.json({
+      success: true,
+      email: result.newEmail,
+    });
+  } catch (error) {
+    console.error('Confirm email change error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,92 @@
+import { NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth/with-auth';
+import { requestEmailChange } from '@/lib/auth/email-change';
+import { recordAuthEvent } from '@/lib/auth/audit';
+import { confirmReauthentication } from '@/lib/auth/reauth';
+import { getAppOrigin } from '@/lib/email';
+import { UserRepository } from '@/lib/repositories/user-repository';
+import { getDatabase } from '@/lib/d1-client';
+
+interface ChangeEmailRequest {
+  newEmail: string;
+  currentPassword?: string;
+}
+
+// POST - Request an email change; it takes effect once the new address is confirmed
+export const POST = withAuth(async (request, { user, session }) => {
+  try {
+    const body = await request.json() as ChangeEmailRequest;
+    const { newEmail, currentPassword } = body;
+
+    if (!newEmail) {
+      return NextResponse.json(
+        { error: 'New email is required' },
+        { status: 400 }
+      );
+    }
+
+    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+    if (!emailRegex.test(newEmail)) {
+      return NextResponse.json(
+        { error: 'Invalid email format' },
+        { status: 400 }
+      );
+    }
+
+    const email = newEmail.toLowerCase();
+
+    if (email === user.email) {
+      return NextResponse.json(
+        { error: 'That is already your email address' },
+        { status: 400 }
+      );
+    }
+
+    const db = getDatabase();
+
+    const reauth = await confirmReauthentication(db, user.id, session.id, currentPassword);
+
+    if (reauth === 'password_required') {
+      return NextResponse.json(
+        { error: 'Enter your password, or sign in again to confirm' },
+        { status: 400 }
+      );
+    }
+
+    if (reauth === 'incorrect_password') {
+      return NextResponse.json(
+        { error: 'Current password is incorrect' },
+        { status: 400 }
+      );
+    }
+
+    const existingUser = await UserRepository.findByEmail(db, email);
+
+    if (existingUser) {
+      return NextResponse.json(
+        { error: 'Email already registered' },
+        { status: 409 }
+      );
+    }
+
+    await requestEmailChange(db, user, email, getAppOrigin(request));
+
+    await recordAuthEvent(db, request, {
+      type: 'email_change_requested',
+      userId: user.id,
+      sessionId: session.id,
+      metadata: { newEmail: email },
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: `We sent a confirmation link to ${email}. Your address changes once you follow it.`,
+    });
+  } catch (error) {
+    console.error('Change email error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth/with-auth';
+import { getUserAuthEvents } from '@/lib/auth/audit';
+import { getDatabase } from '@/lib/d1-client';
+
+// GET - List the user's recent security activity
+export const GET = withAuth(async (request, { user, session }) => {
+  try {
+    const db = getDatabase();
+    const events = await getUserAuthEvents(db, user.id);
+
+    return NextResponse.json({
+      success: true,
+      events: events.map((event) => ({
+        ...event,
+        isCurrentSession: event.sessionId === session.id,
+      })),
+    });
+  } catch (error) {
+    console.error('Get auth events error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
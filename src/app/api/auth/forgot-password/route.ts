@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { sendPasswordResetEmail } from '@/lib/auth/password-reset';
+import { recordAuthEvent } from '@/lib/auth/audit';
+import { consumePasswordResetAllowance } from '@/lib/auth/login-throttle';
+import { getClientIp } from '@/lib/auth/request';
+import { getAppOrigin } from '@/lib/email';
+import { UserRepository } from '@/lib/repositories/user-repository';
+import { getDatabase } from '@/lib/d1-client';
+
+interface ForgotPasswordRequest {
+  email: string;
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json() as ForgotPasswordRequest;
+    const { email } = body;
+
+    // Validate input
+    if (!email) {
+      return NextResponse.json(
+        { error: 'Email is required' },
+        { status: 400 }
+      );
+    }
+
+    // Get database
+    const db = getDatabase();
+    const clientIp = getClientIp(request);
+
+    // Limit reset emails per address and per IP
+    const throttle = await consumePasswordResetAllowance(db, email, clientIp);
+
+    if (throttle.locked) {
+      return NextResponse.json(
+        { error: 'Too many reset requests. Please try again later.' },
+        {
+          status: 429,
+          headers: { 'Retry-After': String(throttle.retryAfterSeconds) },
+        }
+      );
+    }
+
+    // Find user
+    const user = await UserRepository.findByEmail(db, email);
+
+    // Only send a reset link to existing, active accounts
+    if (user && user.isActive) {
+      await recordAuthEvent(db, request, {
+        type: 'password_reset_requested',
+        userId: user.id,
+      });
+
+      await sendPasswordResetEmail(db, user, getAppOrigin(request), {
+        ipAddress: clientIp,
+      });
+    }
+
+    // Same response either way (don't reveal if email exists)
+    return NextResponse.json({
+      success: true,
+      message: 'If an account exists for that email, a reset link has been sent',
+    });
+  } catch (error) {
+    console.error('Forgot password error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
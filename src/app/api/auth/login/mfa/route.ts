@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createLoginResponse } from '@/lib/auth/login';
+import {
+  completeMfaChallenge,
+  getMfaChallengeUser,
+  MFA_CHALLENGE_COOKIE,
+  MFA_CHALLENGE_COOKIE_PATH,
+} from '@/lib/auth/mfa';
+import {
+  checkLoginThrottle,
+  recordLoginFailure,
+  clearLoginFailures,
+} from '@/lib/auth/login-throttle';
+import { getClientIp } from '@/lib/auth/request';
+import { recordAuthEvent } from '@/lib/auth/audit';
+import { UserRepository } from '@/lib/repositories/user-repository';
+import { getDatabase } from '@/lib/d1-client';
+
+interface MfaLoginRequest {
+  challengeToken?: string; // Omitted after an external sign-in, which sets MFA_CHALLENGE_COOKIE instead
+  code: string;
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json() as MfaLoginRequest;
+    const { code } = body;
+    const challengeToken = body.challengeToken || request.cookies.get(MFA_CHALLENGE_COOKIE)?.value;
+
+    // Validate input
+    if (!challengeToken || !code) {
+      return NextResponse.json(
+        { error: 'Challenge and verification code are required' },
+        { status: 400 }
+      );
+    }
+
+    const db = getDatabase();
+    const clientIp = getClientIp(request);
+
+    const userId = await getMfaChallengeUser(db, challengeToken);
+    const user = userId ? await UserRepository.findById(db, userId) : null;
+
+    if (!user) {
+      await recordAuthEvent(db, request, {
+        type: 'login_failure',
+        userId: userId || undefined,
+        metadata: { reason: 'invalid_mfa_challenge' },
+      });
+      return NextResponse.json(
+        { error: 'Invalid verification code' },
+        { status: 401 }
+      );
+    }
+
+    // Wrong codes count against the same per-account and per-IP limits as
+    // wrong passwords, across however many challenges the attacker starts
+    const throttle = await checkLoginThrottle(db, user.email, clientIp);
+    if (throttle.locked) {
+      await recordAuthEvent(db, request, {
+        type: 'login_failure',
+        userId: user.id,
+        email: user.email,
+        metadata: { reason: 'locked' },
+      });
+      return NextResponse.json(
+        { error: 'Too many login attempts. Please try again later.' },
+        {
+          status: 429,
+          headers: { 'Retry-After': String(throttle.retryAfterSeconds) },
+        }
+      );
+    }
+
+    // Verify the second factor against the pending challenge
+    const result = await completeMfaChallenge(db, challengeToken, code);
+
+    if (!result || !result.verified) {
+      if (result) {
+        await recordLoginFailure(db, user.email, clientIp);
+      }
+      await recordAuthEvent(db, request, {
+        type: 'login_failure',
+        userId: user.id,
+        metadata: { reason: result ? 'invalid_mfa_code' : 'invalid_mfa_challenge' },
+      });
+      return NextResponse.json(
+        { error: 'Invalid verification code' },
+        { status: 401 }
+      );
+    }
+
+    if (!user.isActive) {
+      return NextResponse.json(
+        { error: 'Account is inactive' },
+        { status: 403 }
+      );
+    }
+
+    await clearLoginFailures(db, user.email);
+
+    const response = await createLoginResponse(db, request, user, 'password+totp');
+    response.cookies.delete({ name: MFA_CHALLENGE_COOKIE, path: MFA_CHALLENGE_COOKIE_PATH });
+
+    return response;
+  } catch (error) {
+    console.error('MFA login error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,16 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { verifyPassword } from '@/lib/auth/password';
-import { createToken } from '@/lib/auth/jwt';
-import { createSession } from '@/lib/auth/session';
-import { getDatabase, executeQueryFirst, executeMutation } from '@/lib/d1-client';
-
-interface UserRow {
-  id: string;
-  email: string;
-  password_hash: string;
-  full_name: string;
-  is_active: number;
-}
+import { createLoginResponse } from '@/lib/auth/login';
+import { recordAuthEvent } from '@/lib/auth/audit';
+import { isMfaEnabled, createMfaChallenge } from '@/lib/auth/mfa';
+import {
+  checkLoginThrottle,
+  recordLoginFailure,
+  clearLoginFailures,
+} from '@/lib/auth/login-throttle';
+import { getClientIp } from '@/lib/auth/request';
+import { UserRepository } from '@/lib/repositories/user-repository';
+import { getDatabase } from '@/lib/d1-client';
 
 interface LoginRequest {
   email: string;
@@ -32,18 +32,37 @@ export async function POST(request: NextRequest) {
 
     // Get database
     const db = getDatabase();
+    const clientIp = getClientIp(request);
 
     // Find user
-    const user = await executeQueryFirst<UserRow>(
-      db,
-      `SELECT id, email, password_hash, full_name, is_active
-       FROM users
-       WHERE email = ?`,
-      [email.toLowerCase()]
-    );
+    const user = await UserRepository.findByEmail(db, email);
+
+    // Refuse attempts while the email or IP is locked out (same response for unknown emails)
+    const throttle = await checkLoginThrottle(db, email, clientIp);
+    if (throttle.locked) {
+      await recordAuthEvent(db, request, {
+        type: 'login_failure',
+        userId: user?.id,
+        email,
+        metadata: { reason: 'locked' },
+      });
+      return NextResponse.json(
+        { error: 'Too many login attempts. Please try again later.' },
+        {
+          status: 429,
+          headers: { 'Retry-After': String(throttle.retryAfterSeconds) },
+        }
+      );
+    }
 
     // Generic error message (don't reveal if email exists)
     if (!user) {
+      await recordLoginFailure(db, email, clientIp);
+      await recordAuthEvent(db, request, {
+        type: 'login_failure',
+        email,
+        metadata: { reason: 'unknown_email' },
+      });
       return NextResponse.json(
         { error: 'Invalid email or password' },
         { status: 401 }
@@ -51,7 +70,13 @@ export async function POST(request: NextRequest) {
     }
 
     // Check if account is active
-    if (user.is_active === 0) {
+    if (!user.isActive) {
+      await recordAuthEvent(db, request, {
+        type: 'login_failure',
+        userId: user.id,
+        email,
+        metadata: { reason: 'inactive' },
+      });
       return NextResponse.json(
         { error: 'Account is inactive' },
         { status: 403 }
@@ -61,59 +86,39 @@ export async function POST(request: NextRequest) {
     // Verify password
     const isValidPassword = await verifyPassword(
       password,
-      user.password_hash
+      user.passwordHash
     );
 
     if (!isValidPassword) {
+      await recordLoginFailure(db, email, clientIp);
+      await recordAuthEvent(db, request, {
+        type: 'login_failure',
+        userId: user.id,
+        email,
+        metadata: { reason: 'invalid_password' },
+      });
       return NextResponse.json(
         { error: 'Invalid email or password' },
         { status: 401 }
       );
     }
 
-    // Update last login timestamp
-    await executeMutation(
-      db,
-      'UPDATE users SET last_login_at = CURRENT_TIMESTAMP WHERE id = ?',
-      [user.id]
-    );
-
-    // Generate temporary token for session creation
-    const tempToken = crypto.randomUUID();
-
-    // Create session
-    const sessionId = await createSession(db, user.id, tempToken, {
-      ipAddress: request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || undefined,
-      userAgent: request.headers.get('user-agent') || undefined,
-    });
-
-    // Generate JWT token with session ID
-    const token = await createToken({
-      sessionId,
-      userId: user.id,
-      email: user.email,
-    });
-
-    // Create response
-    const response = NextResponse.json({
-      success: true,
-      user: {
-        id: user.id,
-        email: user.email,
-        fullName: user.full_name,
-      },
-    });
+    // Second factor required before a session is issued. The failure counter is
+    // only cleared once it succeeds, so a known password doesn't reset the
+    // throttle on guessing codes (see the MFA route).
+    if (await isMfaEnabled(db, user.id)) {
+      const challengeToken = await createMfaChallenge(db, user.id);
+      return NextResponse.json({
+        success: true,
+        status: 'mfa_required',
+        challengeToken,
+      });
+    }
 
-    // Set HTTP-only cookie
-    response.cookies.set('auth-token', token, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === 'production',
-      sameSite: 'lax',
-      maxAge: 60 * 60 * 24 * 7, // 7 days
-      path: '/',
-    });
+    // Correct password resets the account's failure counter
+    await clearLoginFailures(db, user.email);
 
-    return response;
+    return await createLoginResponse(db, request, user, 'password');
   } catch (error) {
     console.error('Login error:', error);
     return NextResponse.json(
@@ -1,26 +1,22 @@
-import { NextRequest, NextResponse } from 'next/server';
-import { verifyToken } from '@/lib/auth/jwt';
+import { NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth/with-auth';
 import { revokeAllUserSessions } from '@/lib/auth/session';
+import { recordAuthEvent } from '@/lib/auth/audit';
+import { clearAuthCookies } from '@/lib/auth/cookies';
 import { getDatabase } from '@/lib/d1-client';
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request, { user, session }) => {
   try {
-    // Get token from cookie
-    const token = request.cookies.get('auth-token')?.value;
-
-    if (!token) {
-      return NextResponse.json(
-        { error: 'Not authenticated' },
-        { status: 401 }
-      );
-    }
-
-    // Verify token and get user ID
-    const { userId } = await verifyToken(token);
 
     // Revoke all sessions for this user
     const db = getDatabase();
-    await revokeAllUserSessions(db, userId);
+    await revokeAllUserSessions(db, user.id);
+
+    await recordAuthEvent(db, request, {
+      type: 'logout_all',
+      userId: user.id,
+      sessionId: session.id,
+    });
 
     // Create response
     const response = NextResponse.json({
@@ -28,8 +24,8 @@ export async function POST(request: NextRequest) {
       message: 'Logged out from all devices successfully',
     });
 
-    // Clear the auth cookie
-    response.cookies.delete('auth-token');
+    // Clear the auth cookies
+    clearAuthCookies(response);
 
     return response;
   } catch (error) {
@@ -39,5 +35,5 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
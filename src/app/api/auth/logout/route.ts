@@ -1,23 +1,38 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { verifyToken } from '@/lib/auth/jwt';
-import { revokeSession } from '@/lib/auth/session';
+import { revokeSession, findSessionByRefreshToken } from '@/lib/auth/session';
+import { recordAuthEvent } from '@/lib/auth/audit';
+import { clearAuthCookies, ACCESS_TOKEN_COOKIE, REFRESH_TOKEN_COOKIE } from '@/lib/auth/cookies';
 import { getDatabase } from '@/lib/d1-client';
 
 export async function POST(request: NextRequest) {
   try {
-    // Get token from cookie
-    const token = request.cookies.get('auth-token')?.value;
+    // Get tokens from cookies
+    const token = request.cookies.get(ACCESS_TOKEN_COOKIE)?.value;
+    const refreshToken = request.cookies.get(REFRESH_TOKEN_COOKIE)?.value;
 
-    if (token) {
+    if (token || refreshToken) {
       try {
-        // Verify token and get session ID
-        const { sessionId } = await verifyToken(token);
-
-        // Revoke session in database
         const db = getDatabase();
-        await revokeSession(db, sessionId);
+
+        // The access token may already have expired; fall back to the refresh token
+        const session = token
+          ? await verifyToken(token).catch(() => null)
+          : null;
+        const current = session || (refreshToken ? await findSessionByRefreshToken(db, refreshToken) : null);
+
+        if (current) {
+          // Revoke session in database
+          await revokeSession(db, current.sessionId);
+
+          await recordAuthEvent(db, request, {
+            type: 'logout',
+            userId: current.userId,
+            sessionId: current.sessionId,
+          });
+        }
       } catch (error) {
-        // Token invalid or expired - ignore and continue with logout
+        // Session lookup failed - ignore and continue with logout
         console.error('Error revoking session:', error);
       }
     }
@@ -28,8 +43,8 @@ export async function POST(request: NextRequest) {
       message: 'Logged out successfully',
     });
 
-    // Clear the auth cookie
-    response.cookies.delete('auth-token');
+    // Clear the auth cookies
+    clearAuthCookies(response);
 
     return response;
   } catch (error) {
@@ -0,0 +1,47 @@
+import { NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth/with-auth';
+import { confirmTotpEnrollment } from '@/lib/auth/mfa';
+import { recordAuthEvent } from '@/lib/auth/audit';
+import { getDatabase } from '@/lib/d1-client';
+
+// POST - Confirm TOTP enrollment with a first code and issue recovery codes
+export const POST = withAuth(async (request, { user, session }) => {
+  try {
+    const body = await request.json() as { code: string };
+    const { code } = body;
+
+    if (!code) {
+      return NextResponse.json(
+        { error: 'Verification code is required' },
+        { status: 400 }
+      );
+    }
+
+    const db = getDatabase();
+    const recoveryCodes = await confirmTotpEnrollment(db, user.id, code);
+
+    if (!recoveryCodes) {
+      return NextResponse.json(
+        { error: 'Invalid verification code' },
+        { status: 400 }
+      );
+    }
+
+    await recordAuthEvent(db, request, {
+      type: 'mfa_enabled',
+      userId: user.id,
+      sessionId: session.id,
+    });
+
+    return NextResponse.json({
+      success: true,
+      recoveryCodes,
+    });
+  } catch (error) {
+    console.error('MFA confirm error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,58 @@
+import { NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth/with-auth';
+import { isMfaEnabled, disableMfa } from '@/lib/auth/mfa';
+import { recordAuthEvent } from '@/lib/auth/audit';
+import { confirmReauthentication } from '@/lib/auth/reauth';
+import { getDatabase } from '@/lib/d1-client';
+
+// POST - Disable MFA after re-entering the password (or a fresh sign-in)
+export const POST = withAuth(async (request, { user, session }) => {
+  try {
+    const body = await request.json() as { password?: string };
+    const { password } = body;
+
+    const db = getDatabase();
+
+    const reauth = await confirmReauthentication(db, user.id, session.id, password);
+
+    if (reauth === 'password_required') {
+      return NextResponse.json(
+        { error: 'Enter your password, or sign in again to confirm' },
+        { status: 400 }
+      );
+    }
+
+    if (reauth === 'incorrect_password') {
+      return NextResponse.json(
+        { error: 'Incorrect password' },
+        { status: 403 }
+      );
+    }
+
+    if (!(await isMfaEnabled(db, user.id))) {
+      return NextResponse.json(
+        { error: 'Two-factor authentication is not enabled' },
+        { status: 400 }
+      );
+    }
+
+    await disableMfa(db, user.id);
+
+    await recordAuthEvent(db, request, {
+      type: 'mfa_disabled',
+      userId: user.id,
+      sessionId: session.id,
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: 'Two-factor authentication disabled',
+    });
+  } catch (error) {
+    console.error('MFA disable error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
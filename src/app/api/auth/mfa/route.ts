@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth/with-auth';
+import { getMfaStatus } from '@/lib/auth/mfa';
+import { getDatabase } from '@/lib/d1-client';
+
+// GET - Current MFA status
+export const GET = withAuth(async (request, { user }) => {
+  try {
+    const db = getDatabase();
+    const status = await getMfaStatus(db, user.id);
+
+    return NextResponse.json({
+      success: true,
+      ...status,
+    });
+  } catch (error) {
+    console.error('Get MFA status error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
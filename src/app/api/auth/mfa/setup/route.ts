@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth/with-auth';
+import { beginTotpEnrollment, isMfaEnabled } from '@/lib/auth/mfa';
+import { buildOtpauthUri } from '@/lib/auth/totp';
+import { getDatabase } from '@/lib/d1-client';
+
+// POST - Start TOTP enrollment and return the secret for the authenticator app
+export const POST = withAuth(async (request, { user }) => {
+  try {
+    const db = getDatabase();
+
+    if (await isMfaEnabled(db, user.id)) {
+      return NextResponse.json(
+        { error: 'Two-factor authentication is already enabled' },
+        { status: 409 }
+      );
+    }
+
+    const secret = await beginTotpEnrollment(db, user.id);
+
+    return NextResponse.json({
+      success: true,
+      secret,
+      otpauthUri: buildOtpauthUri(secret, user.email),
+    });
+  } catch (error) {
+    console.error('MFA setup error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
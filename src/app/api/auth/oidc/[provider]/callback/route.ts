@@ -0,0 +1,122 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  consumeAuthorizationRequest,
+  exchangeCodeForClaims,
+  getOidcProvider,
+  OIDC_STATE_COOKIE,
+} from '@/lib/auth/oidc';
+import { resolveOidcUser } from '@/lib/auth/identities';
+import { startUserSession } from '@/lib/auth/login';
+import { setAuthCookies } from '@/lib/auth/cookies';
+import { setCsrfCookie } from '@/lib/auth/csrf';
+import {
+  isMfaEnabled,
+  createMfaChallenge,
+  MFA_CHALLENGE_COOKIE,
+  MFA_CHALLENGE_COOKIE_PATH,
+  MFA_CHALLENGE_TTL_SECONDS,
+} from '@/lib/auth/mfa';
+import { UserRepository } from '@/lib/repositories/user-repository';
+import { isSafeRedirect } from '@/lib/auth/redirect';
+import { getDatabase } from '@/lib/d1-client';
+
+/**
+ * Redirect back to the login page with an error message
+ * @param request - Incoming request
+ * @param message - Message to show on the login page
+ * @returns Redirect response that also clears the state cookie
+ */
+function loginError(request: NextRequest, message: string): NextResponse {
+  const loginUrl = new URL('/login', request.url);
+  loginUrl.searchParams.set('error', message);
+  const response = NextResponse.redirect(loginUrl);
+  response.cookies.delete({ name: OIDC_STATE_COOKIE, path: '/api/auth/oidc' });
+  return response;
+}
+
+// GET - Handle the provider redirect, link the identity and start a session
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ provider: string }> }
+) {
+  const { provider: providerId } = await params;
+
+  try {
+    const provider = getOidcProvider(providerId);
+
+    if (!provider) {
+      return loginError(request, 'Unknown sign-in provider');
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const code = searchParams.get('code');
+    const state = searchParams.get('state');
+    const stateCookie = request.cookies.get(OIDC_STATE_COOKIE)?.value;
+
+    if (searchParams.get('error')) {
+      return loginError(request, `Sign-in with ${provider.label} was cancelled`);
+    }
+
+    // State must match the cookie set for this browser (CSRF / login injection)
+    if (!code || !state || !stateCookie || state !== stateCookie) {
+      return loginError(request, 'Sign-in request is invalid or has expired');
+    }
+
+    const db = getDatabase();
+    const pending = await consumeAuthorizationRequest(db, provider, state);
+
+    if (!pending) {
+      return loginError(request, 'Sign-in request is invalid or has expired');
+    }
+
+    const redirectUri = new URL(`/api/auth/oidc/${provider.id}/callback`, request.nextUrl.origin).toString();
+    const claims = await exchangeCodeForClaims(provider, code, redirectUri, pending);
+
+    // Checked again here: states stored before the stricter check may still be pending
+    const redirectTo = isSafeRedirect(pending.redirectTo) ? pending.redirectTo : null;
+
+    const userId = await resolveOidcUser(db, provider.id, claims);
+
+    if (!userId) {
+      return loginError(request, `Your ${provider.label} account must have a verified email address`);
+    }
+
+    const user = await UserRepository.findById(db, userId);
+
+    if (!user || !user.isActive) {
+      return loginError(request, 'Account is inactive');
+    }
+
+    // Second factor still required before a session is issued. The challenge
+    // goes in a cookie only the MFA route receives, not in the login page URL
+    if (await isMfaEnabled(db, user.id)) {
+      const loginUrl = new URL('/login', request.url);
+      loginUrl.searchParams.set('mfa', '1');
+      if (redirectTo) {
+        loginUrl.searchParams.set('redirect', redirectTo);
+      }
+      const response = NextResponse.redirect(loginUrl);
+      response.cookies.set(MFA_CHALLENGE_COOKIE, await createMfaChallenge(db, user.id), {
+        httpOnly: true,
+        secure: process.env.NODE_ENV === 'production',
+        sameSite: 'strict',
+        maxAge: MFA_CHALLENGE_TTL_SECONDS,
+        path: MFA_CHALLENGE_COOKIE_PATH,
+      });
+      response.cookies.delete({ name: OIDC_STATE_COOKIE, path: '/api/auth/oidc' });
+      return response;
+    }
+
+    const tokens = await startUserSession(db, request, user, `oidc:${provider.id}`);
+
+    const response = NextResponse.redirect(new URL(redirectTo || '/dashboard', request.url));
+    setAuthCookies(response, tokens);
+    setCsrfCookie(response);
+    response.cookies.delete({ name: OIDC_STATE_COOKIE, path: '/api/auth/oidc' });
+
+    return response;
+  } catch (error) {
+    console.error('OIDC callback error:', error);
+    return loginError(request, 'Sign-in failed. Please try again.');
+  }
+}
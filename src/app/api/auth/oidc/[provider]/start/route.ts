@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  createAuthorizationRequest,
+  getOidcProvider,
+  OIDC_STATE_COOKIE,
+  OIDC_STATE_TTL_SECONDS,
+} from '@/lib/auth/oidc';
+import { isSafeRedirect } from '@/lib/auth/redirect';
+import { getDatabase } from '@/lib/d1-client';
+
+// GET - Redirect the browser to the provider's authorization endpoint
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ provider: string }> }
+) {
+  const { provider: providerId } = await params;
+
+  try {
+    const provider = getOidcProvider(providerId);
+
+    if (!provider) {
+      return NextResponse.json(
+        { error: 'Unknown sign-in provider' },
+        { status: 404 }
+      );
+    }
+
+    // Only allow in-app return paths (no open redirects)
+    const redirect = request.nextUrl.searchParams.get('redirect');
+    const redirectTo = isSafeRedirect(redirect) ? redirect : null;
+
+    const redirectUri = new URL(`/api/auth/oidc/${provider.id}/callback`, request.nextUrl.origin).toString();
+
+    const db = getDatabase();
+    const { url, state } = await createAuthorizationRequest(db, provider, redirectUri, redirectTo);
+
+    const response = NextResponse.redirect(url);
+
+    response.cookies.set(OIDC_STATE_COOKIE, state, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'lax',
+      maxAge: OIDC_STATE_TTL_SECONDS,
+      path: '/api/auth/oidc',
+    });
+
+    return response;
+  } catch (error) {
+    console.error('OIDC start error:', error);
+    const loginUrl = new URL('/login', request.url);
+    loginUrl.searchParams.set('error', 'Sign-in provider is unavailable. Please try again.');
+    return NextResponse.redirect(loginUrl);
+  }
+}
@@ -0,0 +1,10 @@
+import { NextResponse } from 'next/server';
+import { getConfiguredOidcProviders } from '@/lib/auth/oidc';
+
+// GET - List external sign-in providers enabled for the login page
+export async function GET() {
+  return NextResponse.json({
+    success: true,
+    providers: getConfiguredOidcProviders(),
+  });
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { generateAuthenticationOptions } from '@simplewebauthn/server';
+import {
+  getRelyingParty,
+  saveChallenge,
+  PASSKEY_CHALLENGE_COOKIE,
+  PASSKEY_CHALLENGE_TTL_SECONDS,
+} from '@/lib/auth/passkeys';
+import { getDatabase } from '@/lib/d1-client';
+
+// POST - Start a passwordless (discoverable credential) login ceremony
+export async function POST(request: NextRequest) {
+  try {
+    const db = getDatabase();
+    const { rpID } = getRelyingParty(request);
+
+    const options = await generateAuthenticationOptions({
+      rpID,
+      userVerification: 'required',
+    });
+
+    const challengeId = await saveChallenge(db, options.challenge, 'authentication');
+
+    const response = NextResponse.json({ success: true, options });
+
+    response.cookies.set(PASSKEY_CHALLENGE_COOKIE, challengeId, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'strict',
+      maxAge: PASSKEY_CHALLENGE_TTL_SECONDS,
+      path: '/api/auth/passkeys',
+    });
+
+    return response;
+  } catch (error) {
+    console.error('Passkey login options error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAuthenticationResponse, type AuthenticationResponseJSON } from '@simplewebauthn/server';
+import { createLoginResponse } from '@/lib/auth/login';
+import {
+  consumeChallenge,
+  getPasskey,
+  getRelyingParty,
+  updatePasskeyUsage,
+  PASSKEY_CHALLENGE_COOKIE,
+} from '@/lib/auth/passkeys';
+import { recordAuthEvent } from '@/lib/auth/audit';
+import { UserRepository } from '@/lib/repositories/user-repository';
+import { getDatabase } from '@/lib/d1-client';
+
+// POST - Finish a passkey login ceremony and start a session
+export async function POST(request: NextRequest) {
+  try {
+    const challengeId = request.cookies.get(PASSKEY_CHALLENGE_COOKIE)?.value;
+    const body = await request.json() as { response: AuthenticationResponseJSON };
+
+    if (!body.response || !challengeId) {
+      return NextResponse.json(
+        { error: 'Authentication response and challenge are required' },
+        { status: 400 }
+      );
+    }
+
+    const db = getDatabase();
+
+    const pending = await consumeChallenge(db, challengeId, 'authentication');
+
+    if (!pending) {
+      return NextResponse.json(
+        { error: 'Login challenge is invalid or has expired' },
+        { status: 400 }
+      );
+    }
+
+    // Generic error message (don't reveal which credentials exist)
+    const passkey = await getPasskey(db, body.response.id);
+
+    if (!passkey) {
+      return NextResponse.json(
+        { error: 'Passkey not recognized' },
+        { status: 401 }
+      );
+    }
+
+    const { rpID, origin } = getRelyingParty(request);
+
+    let verification;
+    try {
+      verification = await verifyAuthenticationResponse({
+        response: body.response,
+        expectedChallenge: pending.challenge,
+        expectedOrigin: origin,
+        expectedRPID: rpID,
+        credential: passkey.credential,
+        requireUserVerification: true,
+      });
+    } catch (error) {
+      console.error('Passkey authentication verification failed:', error);
+      verification = null;
+    }
+
+    if (!verification?.verified) {
+      await recordAuthEvent(db, request, {
+        type: 'login_failure',
+        userId: passkey.userId,
+        metadata: { reason: 'invalid_passkey_assertion', credentialId: passkey.id },
+      });
+      return NextResponse.json(
+        { error: 'Passkey not recognized' },
+        { status: 401 }
+      );
+    }
+
+    await updatePasskeyUsage(db, passkey.id, verification.authenticationInfo.newCounter);
+
+    const user = await UserRepository.findById(db, passkey.userId);
+
+    if (!user || !user.isActive) {
+      return NextResponse.json(
+        { error: 'Account is inactive' },
+        { status: 403 }
+      );
+    }
+
+    // A user-verified passkey already satisfies MFA, so issue the session directly
+    const response = await createLoginResponse(db, request, user, 'passkey');
+    response.cookies.delete({ name: PASSKEY_CHALLENGE_COOKIE, path: '/api/auth/passkeys' });
+
+    return response;
+  } catch (error) {
+    console.error('Passkey login error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,58 @@
+import { NextResponse } from 'next/server';
+import { generateRegistrationOptions } from '@simplewebauthn/server';
+import { withAuth } from '@/lib/auth/with-auth';
+import {
+  getRelyingParty,
+  getUserPasskeys,
+  saveChallenge,
+  PASSKEY_CHALLENGE_COOKIE,
+  PASSKEY_CHALLENGE_TTL_SECONDS,
+} from '@/lib/auth/passkeys';
+import { getDatabase } from '@/lib/d1-client';
+
+// POST - Start the passkey registration ceremony
+export const POST = withAuth(async (request, { user }) => {
+  try {
+    const db = getDatabase();
+
+    const { rpID, rpName } = getRelyingParty(request);
+    const existingPasskeys = await getUserPasskeys(db, user.id);
+
+    const options = await generateRegistrationOptions({
+      rpName,
+      rpID,
+      userName: user.email,
+      userDisplayName: user.fullName,
+      userID: new TextEncoder().encode(user.id),
+      attestationType: 'none',
+      excludeCredentials: existingPasskeys.map((passkey) => ({
+        id: passkey.id,
+        transports: passkey.credential.transports,
+      })),
+      authenticatorSelection: {
+        residentKey: 'required',
+        userVerification: 'required',
+      },
+    });
+
+    const challengeId = await saveChallenge(db, options.challenge, 'registration', user.id);
+
+    const response = NextResponse.json({ success: true, options });
+
+    response.cookies.set(PASSKEY_CHALLENGE_COOKIE, challengeId, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'strict',
+      maxAge: PASSKEY_CHALLENGE_TTL_SECONDS,
+      path: '/api/auth/passkeys',
+    });
+
+    return response;
+  } catch (error) {
+    console.error('Passkey registration options error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
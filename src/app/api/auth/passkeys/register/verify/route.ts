@@ -0,0 +1,95 @@
+import { NextResponse } from 'next/server';
+import { verifyRegistrationResponse, type RegistrationResponseJSON } from '@simplewebauthn/server';
+import { withAuth } from '@/lib/auth/with-auth';
+import {
+  consumeChallenge,
+  getRelyingParty,
+  savePasskey,
+  PASSKEY_CHALLENGE_COOKIE,
+} from '@/lib/auth/passkeys';
+import { recordAuthEvent } from '@/lib/auth/audit';
+import { getDatabase } from '@/lib/d1-client';
+
+interface RegisterVerifyRequest {
+  response: RegistrationResponseJSON;
+  name?: string;
+}
+
+// POST - Finish the passkey registration ceremony
+export const POST = withAuth(async (request, { user, session }) => {
+  try {
+    const challengeId = request.cookies.get(PASSKEY_CHALLENGE_COOKIE)?.value;
+    const body = await request.json() as RegisterVerifyRequest;
+
+    if (!body.response || !challengeId) {
+      return NextResponse.json(
+        { error: 'Registration response and challenge are required' },
+        { status: 400 }
+      );
+    }
+
+    const db = getDatabase();
+
+    const pending = await consumeChallenge(db, challengeId, 'registration');
+
+    if (!pending || pending.userId !== user.id) {
+      return NextResponse.json(
+        { error: 'Registration challenge is invalid or has expired' },
+        { status: 400 }
+      );
+    }
+
+    const { rpID, origin } = getRelyingParty(request);
+
+    let verification;
+    try {
+      verification = await verifyRegistrationResponse({
+        response: body.response,
+        expectedChallenge: pending.challenge,
+        expectedOrigin: origin,
+        expectedRPID: rpID,
+        requireUserVerification: true,
+      });
+    } catch (error) {
+      console.error('Passkey registration verification failed:', error);
+      verification = null;
+    }
+
+    if (!verification?.verified) {
+      return NextResponse.json(
+        { error: 'Passkey registration could not be verified' },
+        { status: 400 }
+      );
+    }
+
+    const { credential, credentialDeviceType, credentialBackedUp } = verification.registrationInfo;
+
+    await savePasskey(db, user.id, credential, {
+      name: body.name?.trim() || 'Passkey',
+      deviceType: credentialDeviceType,
+      backedUp: credentialBackedUp,
+    });
+
+    await recordAuthEvent(db, request, {
+      type: 'passkey_added',
+      userId: user.id,
+      sessionId: session.id,
+      metadata: { credentialId: credential.id },
+    });
+
+    const response = NextResponse.json({
+      success: true,
+      message: 'Passkey registered successfully',
+    });
+
+    response.cookies.delete({ name: PASSKEY_CHALLENGE_COOKIE, path: '/api/auth/passkeys' });
+
+    return response;
+  } catch (error) {
+    console.error('Passkey registration error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
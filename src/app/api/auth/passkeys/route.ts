@@ -0,0 +1,68 @@
+import { NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth/with-auth';
+import { getUserPasskeys, deletePasskey } from '@/lib/auth/passkeys';
+import { recordAuthEvent } from '@/lib/auth/audit';
+import { getDatabase } from '@/lib/d1-client';
+
+// GET - List the user's passkeys
+export const GET = withAuth(async (request, { user }) => {
+  try {
+    const db = getDatabase();
+
+    const passkeys = await getUserPasskeys(db, user.id);
+
+    return NextResponse.json({
+      success: true,
+      passkeys: passkeys.map((passkey) => ({
+        id: passkey.id,
+        name: passkey.name,
+        backedUp: passkey.backedUp,
+        createdAt: passkey.createdAt,
+        lastUsedAt: passkey.lastUsedAt,
+      })),
+    });
+  } catch (error) {
+    console.error('Get passkeys error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
+
+// DELETE - Remove a passkey
+export const DELETE = withAuth(async (request, { user, session }) => {
+  try {
+    const body = await request.json() as { credentialId: string };
+    const { credentialId } = body;
+
+    if (!credentialId) {
+      return NextResponse.json(
+        { error: 'Credential ID required' },
+        { status: 400 }
+      );
+    }
+
+    const db = getDatabase();
+
+    await deletePasskey(db, user.id, credentialId);
+
+    await recordAuthEvent(db, request, {
+      type: 'passkey_removed',
+      userId: user.id,
+      sessionId: session.id,
+      metadata: { credentialId },
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: 'Passkey removed successfully',
+    });
+  } catch (error) {
+    console.error('Delete passkey error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,81 @@
+import { NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth/with-auth';
+import { hashPassword, verifyPassword, validatePasswordStrength } from '@/lib/auth/password';
+import { isPasswordReused, recordPasswordHistory } from '@/lib/auth/password-history';
+import { revokeOtherUserSessions } from '@/lib/auth/session';
+import { recordAuthEvent } from '@/lib/auth/audit';
+import { UserRepository } from '@/lib/repositories/user-repository';
+import { getDatabase } from '@/lib/d1-client';
+
+interface ChangePasswordRequest {
+  currentPassword: string;
+  newPassword: string;
+}
+
+// POST - Change the password (current password required); other devices are signed out
+export const POST = withAuth(async (request, { user, session }) => {
+  try {
+    const body = await request.json() as ChangePasswordRequest;
+    const { currentPassword, newPassword } = body;
+
+    if (!currentPassword || !newPassword) {
+      return NextResponse.json(
+        { error: 'Current and new password are required' },
+        { status: 400 }
+      );
+    }
+
+    const passwordValidation = validatePasswordStrength(newPassword);
+    if (!passwordValidation.valid) {
+      return NextResponse.json(
+        {
+          error: 'Password does not meet requirements',
+          details: passwordValidation.errors
+        },
+        { status: 400 }
+      );
+    }
+
+    const db = getDatabase();
+
+    const credentials = await UserRepository.findById(db, user.id);
+
+    if (!credentials || !(await verifyPassword(currentPassword, credentials.passwordHash))) {
+      return NextResponse.json(
+        { error: 'Current password is incorrect' },
+        { status: 400 }
+      );
+    }
+
+    if (await isPasswordReused(db, user.id, newPassword)) {
+      return NextResponse.json(
+        { error: 'Choose a password you have not used recently' },
+        { status: 400 }
+      );
+    }
+
+    const passwordHash = await hashPassword(newPassword);
+    await UserRepository.updatePassword(db, user.id, passwordHash);
+    await recordPasswordHistory(db, user.id, passwordHash);
+
+    // Anyone signed in with the old password loses access; this device stays signed in
+    await revokeOtherUserSessions(db, user.id, session.id);
+
+    await recordAuthEvent(db, request, {
+      type: 'password_changed',
+      userId: user.id,
+      sessionId: session.id,
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: 'Password changed. Other devices have been signed out.',
+    });
+  } catch (error) {
+    console.error('Change password error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,53 @@
+import { NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth/with-auth';
+import { recordAuthEvent } from '@/lib/auth/audit';
+import { UserRepository } from '@/lib/repositories/user-repository';
+import { getDatabase } from '@/lib/d1-client';
+
+interface UpdateProfileRequest {
+  fullName: string;
+}
+
+// PATCH - Update the user's profile (display name)
+export const PATCH = withAuth(async (request, { user, session }) => {
+  try {
+    const body = await request.json() as UpdateProfileRequest;
+    const fullName = body.fullName?.trim();
+
+    if (!fullName || fullName.length > 100) {
+      return NextResponse.json(
+        { error: 'Full name is required (max 100 characters)' },
+        { status: 400 }
+      );
+    }
+
+    const db = getDatabase();
+
+    if (fullName !== user.fullName) {
+      await UserRepository.setFullName(db, user.id, fullName);
+
+      await recordAuthEvent(db, request, {
+        type: 'profile_updated',
+        userId: user.id,
+        sessionId: session.id,
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      user: {
+        id: user.id,
+        email: user.email,
+        fullName,
+        emailVerified: user.emailVerified,
+        role: user.role,
+      },
+    });
+  } catch (error) {
+    console.error('Update profile error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
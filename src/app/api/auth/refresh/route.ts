@@ -0,0 +1,135 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createToken } from '@/lib/auth/jwt';
+import { rotateRefreshToken, revokeSession } from '@/lib/auth/session';
+import { recordAuthEvent } from '@/lib/auth/audit';
+import {
+  setAuthCookies,
+  clearAuthCookies,
+  REFRESH_TOKEN_COOKIE,
+  type SessionTokens,
+} from '@/lib/auth/cookies';
+import { isSafeRedirect } from '@/lib/auth/redirect';
+import { UserRepository } from '@/lib/repositories/user-repository';
+import { getDatabase } from '@/lib/d1-client';
+
+/**
+ * Rotate the refresh token cookie and mint a new access token
+ * @param request - Incoming request carrying the refresh-token cookie
+ * @returns New tokens, 'superseded' if a concurrent refresh already rotated the
+ * token (its response carries the new cookies), or null if the session cannot be refreshed
+ */
+async function refreshTokens(request: NextRequest): Promise<SessionTokens | 'superseded' | null> {
+  const refreshToken = request.cookies.get(REFRESH_TOKEN_COOKIE)?.value;
+
+  if (!refreshToken) {
+    return null;
+  }
+
+  const db = getDatabase();
+  const rotation = await rotateRefreshToken(db, refreshToken);
+
+  if (rotation.status === 'reused') {
+    await recordAuthEvent(db, request, {
+      type: 'refresh_token_reused',
+      userId: rotation.userId,
+      sessionId: rotation.sessionId,
+    });
+    return null;
+  }
+
+  if (rotation.status === 'invalid') {
+    return null;
+  }
+
+  if (rotation.status === 'superseded') {
+    return 'superseded';
+  }
+
+  const user = await UserRepository.findById(db, rotation.userId);
+
+  if (!user || !user.isActive) {
+    await revokeSession(db, rotation.sessionId);
+    return null;
+  }
+
+  const accessToken = await createToken({
+    sessionId: rotation.sessionId,
+    userId: user.id,
+    email: user.email,
+    role: user.role,
+  });
+
+  return { accessToken, refreshToken: rotation.refreshToken };
+}
+
+/**
+ * Refresh from client code (AuthContext)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const tokens = await refreshTokens(request);
+
+    if (!tokens) {
+      const response = NextResponse.json(
+        { error: 'Session invalid or expired' },
+        { status: 401 }
+      );
+      clearAuthCookies(response);
+      return response;
+    }
+
+    // Another request rotated this token a moment ago and is setting the new
+    // cookies; don't clear them, let the client retry
+    if (tokens === 'superseded') {
+      return NextResponse.json(
+        { error: 'Session was refreshed by another request' },
+        { status: 409 }
+      );
+    }
+
+    const response = NextResponse.json({ success: true });
+    setAuthCookies(response, tokens);
+
+    return response;
+  } catch (error) {
+    console.error('Refresh error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Refresh during page navigation (middleware redirects here when the access token has expired)
+ */
+export async function GET(request: NextRequest) {
+  const redirectParam = request.nextUrl.searchParams.get('redirect');
+  // Only allow same-origin relative paths
+  const redirectTo = isSafeRedirect(redirectParam) ? redirectParam : '/dashboard';
+
+  try {
+    const tokens = await refreshTokens(request);
+
+    if (!tokens) {
+      const loginUrl = new URL('/login', request.url);
+      loginUrl.searchParams.set('redirect', redirectTo);
+      const response = NextResponse.redirect(loginUrl);
+      clearAuthCookies(response);
+      return response;
+    }
+
+    // Concurrent navigation already rotated the token; continue with the cookies it sets
+    if (tokens === 'superseded') {
+      return NextResponse.redirect(new URL(redirectTo, request.url));
+    }
+
+    const response = NextResponse.redirect(new URL(redirectTo, request.url));
+    setAuthCookies(response, tokens);
+
+    return response;
+  } catch (error) {
+    console.error('Refresh error:', error);
+    return NextResponse.redirect(new URL('/login', request.url));
+  }
+}
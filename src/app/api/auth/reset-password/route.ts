@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { hashPassword, validatePasswordStrength } from '@/lib/auth/password';
+import { findPasswordResetTokenUser, consumePasswordResetToken } from '@/lib/auth/password-reset';
+import { isPasswordReused, recordPasswordHistory } from '@/lib/auth/password-history';
+import { revokeAllUserSessions } from '@/lib/auth/session';
+import { clearLoginFailures } from '@/lib/auth/login-throttle';
+import { recordAuthEvent } from '@/lib/auth/audit';
+import { clearAuthCookies } from '@/lib/auth/cookies';
+import { UserRepository } from '@/lib/repositories/user-repository';
+import { getDatabase } from '@/lib/d1-client';
+
+interface ResetPasswordRequest {
+  token: string;
+  password: string;
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json() as ResetPasswordRequest;
+    const { token, password } = body;
+
+    // Validate input
+    if (!token || !password) {
+      return NextResponse.json(
+        { error: 'Token and new password are required' },
+        { status: 400 }
+      );
+    }
+
+    // Validate password strength before spending the token
+    const passwordValidation = validatePasswordStrength(password);
+    if (!passwordValidation.valid) {
+      return NextResponse.json(
+        {
+          error: 'Password does not meet requirements',
+          details: passwordValidation.errors
+        },
+        { status: 400 }
+      );
+    }
+
+    // Get database
+    const db = getDatabase();
+
+    // Refuse a recently used password before spending the token, so the user can try again
+    const tokenUserId = await findPasswordResetTokenUser(db, token);
+
+    if (tokenUserId && await isPasswordReused(db, tokenUserId, password)) {
+      return NextResponse.json(
+        { error: 'Choose a password you have not used recently' },
+        { status: 400 }
+      );
+    }
+
+    // Redeem the single-use token
+    const userId = await consumePasswordResetToken(db, token);
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Reset link is invalid or has expired' },
+        { status: 400 }
+      );
+    }
+
+    // Update password
+    const passwordHash = await hashPassword(password);
+    await UserRepository.updatePassword(db, userId, passwordHash);
+    await recordPasswordHistory(db, userId, passwordHash);
+
+    // Sessions opened with the old password must not survive the reset
+    await revokeAllUserSessions(db, userId);
+
+    await recordAuthEvent(db, request, {
+      type: 'password_reset',
+      userId,
+    });
+
+    // Proving control of the inbox lifts any brute-force lockout on the account
+    const user = await UserRepository.findById(db, userId);
+    if (user) {
+      await clearLoginFailures(db, user.email);
+    }
+
+    const response = NextResponse.json({
+      success: true,
+      message: 'Password reset successfully. Please log in with your new password.',
+    });
+
+    // Clear the auth cookies in case this browser held one of the revoked sessions
+    clearAuthCookies(response);
+
+    return response;
+  } catch (error) {
+    console.error('Reset password error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
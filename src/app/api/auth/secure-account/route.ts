@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { secureAccountFromAlert } from '@/lib/auth/known-devices';
+import { recordAuthEvent } from '@/lib/auth/audit';
+import { getClientIp } from '@/lib/auth/request';
+import { getAppOrigin } from '@/lib/email';
+import { getDatabase } from '@/lib/d1-client';
+
+// POST - "This wasn't me" from a new-device alert: sign that device out and email a password reset link
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json() as { token: string };
+    const { token } = body;
+
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Alert token is required' },
+        { status: 400 }
+      );
+    }
+
+    const db = getDatabase();
+    const result = await secureAccountFromAlert(db, token, getAppOrigin(request), {
+      ipAddress: getClientIp(request),
+    });
+
+    if (!result) {
+      return NextResponse.json(
+        { error: 'This link is invalid, has expired or was already used' },
+        { status: 400 }
+      );
+    }
+
+    await recordAuthEvent(db, request, {
+      type: 'new_device_session_revoked',
+      userId: result.userId,
+      metadata: { revokedSessionId: result.revokedSessionId },
+    });
+
+    await recordAuthEvent(db, request, {
+      type: 'password_reset_requested',
+      userId: result.userId,
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: 'We emailed you a link to choose a new password',
+    });
+  } catch (error) {
+    console.error('Secure account error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
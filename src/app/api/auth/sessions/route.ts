@@ -1,79 +1,81 @@
-import { NextRequest, NextResponse } from 'next/server';
-import { verifyToken } from '@/lib/auth/jwt';
-import { getUserSessions, revokeSession } from '@/lib/auth/session';
+import { NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth/with-auth';
+import {
+  getUserSessionSummaries,
+  revokeSession,
+  SESSION_NICKNAME_MAX_LENGTH,
+} from '@/lib/auth/session';
+import { SessionRepository } from '@/lib/repositories/session-repository';
+import { recordAuthEvent } from '@/lib/auth/audit';
 import { getDatabase } from '@/lib/d1-client';
 
-/**
- * Simple user agent parser
- * @param userAgent - User agent string
- * @returns Device type description
- */
-function parseUserAgent(userAgent?: string): string {
-  if (!userAgent) return 'Unknown Device';
+// GET - List all active sessions
+export const GET = withAuth(async (request, { user, session: currentSession }) => {
+  try {
+    const db = getDatabase();
 
-  if (userAgent.includes('Mobile')) return 'Mobile Device';
-  if (userAgent.includes('Tablet')) return 'Tablet';
-  if (userAgent.includes('Windows')) return 'Windows PC';
-  if (userAgent.includes('Mac')) return 'Mac';
-  if (userAgent.includes('Linux')) return 'Linux PC';
+    const sessions = await getUserSessionSummaries(db, user.id, currentSession.id);
 
-  return 'Unknown Device';
-}
+    return NextResponse.json({
+      success: true,
+      sessions,
+    });
+  } catch (error) {
+    console.error('Get sessions error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
 
-// GET - List all active sessions
-export async function GET(request: NextRequest) {
+// PATCH - Set or clear a session's nickname
+export const PATCH = withAuth(async (request, { user }) => {
   try {
-    const token = request.cookies.get('auth-token')?.value;
+    const body = await request.json() as { sessionId: string; nickname?: string | null };
+    const { sessionId } = body;
+    const nickname = body.nickname?.trim() || null;
 
-    if (!token) {
+    if (!sessionId) {
       return NextResponse.json(
-        { error: 'Not authenticated' },
-        { status: 401 }
+        { error: 'Session ID required' },
+        { status: 400 }
       );
     }
 
-    const { userId, sessionId: currentSessionId } = await verifyToken(token);
-    const db = getDatabase();
+    if (nickname && nickname.length > SESSION_NICKNAME_MAX_LENGTH) {
+      return NextResponse.json(
+        { error: `Nickname must be at most ${SESSION_NICKNAME_MAX_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
 
-    const sessions = await getUserSessions(db, userId);
+    const db = getDatabase();
+    const updated = await SessionRepository.setNickname(db, user.id, sessionId, nickname);
 
-    // Format sessions for frontend
-    const formattedSessions = sessions.map((session) => ({
-      id: session.id,
-      isCurrent: session.id === currentSessionId,
-      createdAt: session.createdAt,
-      lastActiveAt: session.lastActiveAt,
-      ipAddress: session.ipAddress,
-      userAgent: session.userAgent,
-      device: parseUserAgent(session.userAgent),
-    }));
+    if (!updated) {
+      return NextResponse.json(
+        { error: 'Session not found' },
+        { status: 404 }
+      );
+    }
 
     return NextResponse.json({
       success: true,
-      sessions: formattedSessions,
+      nickname,
     });
   } catch (error) {
-    console.error('Get sessions error:', error);
+    console.error('Rename session error:', error);
     return NextResponse.json(
       { error: 'Internal server error' },
       { status: 500 }
     );
   }
-}
+});
 
 // DELETE - Revoke a specific session
-export async function DELETE(request: NextRequest) {
+export const DELETE = withAuth(async (request, { user, session: currentSession }) => {
   try {
-    const token = request.cookies.get('auth-token')?.value;
-
-    if (!token) {
-      return NextResponse.json(
-        { error: 'Not authenticated' },
-        { status: 401 }
-      );
-    }
-
-    const { userId } = await verifyToken(token);
     const body = await request.json() as { sessionId: string };
     const { sessionId } = body;
 
@@ -87,7 +89,7 @@ export async function DELETE(request: NextRequest) {
     const db = getDatabase();
 
     // Verify the session belongs to the user (security check)
-    const sessions = await getUserSessions(db, userId);
+    const sessions = await SessionRepository.listActiveSessions(db, user.id);
     const sessionExists = sessions.some((s) => s.id === sessionId);
 
     if (!sessionExists) {
@@ -100,6 +102,13 @@ export async function DELETE(request: NextRequest) {
     // Revoke the session
     await revokeSession(db, sessionId);
 
+    await recordAuthEvent(db, request, {
+      type: 'session_revoked',
+      userId: user.id,
+      sessionId: currentSession.id,
+      metadata: { revokedSessionId: sessionId },
+    });
+
     return NextResponse.json({
       success: true,
       message: 'Session revoked successfully',
@@ -111,5 +120,5 @@ export async function DELETE(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
@@ -1,8 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { hashPassword, validatePasswordStrength } from '@/lib/auth/password';
-import { createToken } from '@/lib/auth/jwt';
-import { createSession } from '@/lib/auth/session';
-import { getDatabase, executeQueryFirst, executeMutation } from '@/lib/d1-client';
+import { prepareUserSession } from '@/lib/auth/login';
+import { rememberDevice } from '@/lib/auth/known-devices';
+import { passwordHistoryStatement } from '@/lib/auth/password-history';
+import { setAuthCookies } from '@/lib/auth/cookies';
+import { setCsrfCookie } from '@/lib/auth/csrf';
+import { sendVerificationEmail } from '@/lib/auth/email-verification';
+import { recordAuthEvent } from '@/lib/auth/audit';
+import { DEFAULT_ROLE } from '@/lib/auth/rbac';
+import { UserRepository } from '@/lib/repositories/user-repository';
+import { getAppOrigin } from '@/lib/email';
+import { getDatabase, executeBatch, isUniqueConstraintError } from '@/lib/d1-client';
 
 interface SignupRequest {
   email: string;
@@ -48,11 +56,7 @@ export async function POST(request: NextRequest) {
     const db = getDatabase();
 
     // Check if user already exists
-    const existingUser = await executeQueryFirst<{ id: string }>(
-      db,
-      'SELECT id FROM users WHERE email = ?',
-      [email.toLowerCase()]
-    );
+    const existingUser = await UserRepository.findByEmail(db, email);
 
     if (existingUser) {
       return NextResponse.json(
@@ -64,31 +68,59 @@ export async function POST(request: NextRequest) {
     // Hash password
     const passwordHash = await hashPassword(password);
 
-    // Create user
+    // Create user, password history and session together: a failure part way
+    // through must not leave an account that cannot sign in
     const userId = crypto.randomUUID();
-    await executeMutation(
-      db,
-      `INSERT INTO users (id, email, password_hash, full_name)
-       VALUES (?, ?, ?, ?)`,
-      [userId, email.toLowerCase(), passwordHash, fullName]
-    );
-
-    // Generate temporary token for session creation
-    const tempToken = crypto.randomUUID();
-
-    // Create session
-    const sessionId = await createSession(db, userId, tempToken, {
-      ipAddress: request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || undefined,
-      userAgent: request.headers.get('user-agent') || undefined,
+    const { sessionId, tokens, statement: sessionInsert } = await prepareUserSession(request, {
+      id: userId,
+      email: email.toLowerCase(),
+      role: DEFAULT_ROLE,
     });
 
-    // Generate JWT token with session ID
-    const token = await createToken({
-      sessionId,
+    try {
+      await executeBatch(db, [
+        UserRepository.createStatement({
+          id: userId,
+          email,
+          passwordHash,
+          fullName,
+          role: DEFAULT_ROLE,
+        }),
+        passwordHistoryStatement(userId, passwordHash),
+        sessionInsert,
+      ]);
+    } catch (error) {
+      // A concurrent signup with the same email got past the check above
+      if (isUniqueConstraintError(error)) {
+        return NextResponse.json(
+          { error: 'Email already registered' },
+          { status: 409 }
+        );
+      }
+      throw error;
+    }
+
+    await recordAuthEvent(db, request, {
+      type: 'signup',
       userId,
-      email: email.toLowerCase(),
+      sessionId,
     });
 
+    // Later sign-ins from other devices are compared against this one. The
+    // account already exists, so a failure here must not fail the signup
+    try {
+      await rememberDevice(db, userId, request);
+    } catch (error) {
+      console.error('Error remembering signup device:', error);
+    }
+
+    // Send verification email (signup still succeeds if delivery fails; user can resend)
+    try {
+      await sendVerificationEmail(db, userId, email.toLowerCase(), getAppOrigin(request));
+    } catch (error) {
+      console.error('Error sending verification email:', error);
+    }
+
     // Create response
     const response = NextResponse.json(
       {
@@ -97,19 +129,16 @@ export async function POST(request: NextRequest) {
           id: userId,
           email: email.toLowerCase(),
           fullName,
+          emailVerified: false,
+          role: DEFAULT_ROLE,
         },
       },
       { status: 201 }
     );
 
-    // Set HTTP-only cookie
-    response.cookies.set('auth-token', token, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === 'production',
-      sameSite: 'lax',
-      maxAge: 60 * 60 * 24 * 7, // 7 days
-      path: '/',
-    });
+    // Set HTTP-only cookies
+    setAuthCookies(response, tokens);
+    setCsrfCookie(response);
 
     return response;
   } catch (error) {
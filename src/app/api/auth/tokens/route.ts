@@ -0,0 +1,152 @@
+import { NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth/with-auth';
+import {
+  createApiToken,
+  getUserApiTokens,
+  revokeApiToken,
+  canGrantScope,
+  isApiScope,
+  API_SCOPES,
+  API_TOKEN_EXPIRY_DAYS,
+} from '@/lib/auth/api-tokens';
+import { recordAuthEvent } from '@/lib/auth/audit';
+import { getDatabase } from '@/lib/d1-client';
+
+interface CreateTokenRequest {
+  name: string;
+  scopes: string[];
+  expiresInDays: number | null;
+}
+
+// GET - List the user's personal access tokens, the scopes they may grant and expiry choices
+export const GET = withAuth(async (request, { user }) => {
+  try {
+    const db = getDatabase();
+    const tokens = await getUserApiTokens(db, user.id);
+
+    return NextResponse.json({
+      success: true,
+      tokens,
+      availableScopes: API_SCOPES.filter((scope) => canGrantScope(user.role, scope)),
+      expiryOptions: API_TOKEN_EXPIRY_DAYS,
+    });
+  } catch (error) {
+    console.error('List API tokens error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
+
+// POST - Create a personal access token (the token is only returned here, once)
+export const POST = withAuth(async (request, { user, session }) => {
+  try {
+    const body = await request.json() as CreateTokenRequest;
+    const name = body.name?.trim();
+    const { scopes, expiresInDays } = body;
+
+    if (!name || name.length > 100) {
+      return NextResponse.json(
+        { error: 'Token name is required (max 100 characters)' },
+        { status: 400 }
+      );
+    }
+
+    if (!Array.isArray(scopes) || scopes.length === 0 || !scopes.every(isApiScope)) {
+      return NextResponse.json(
+        { error: 'Select at least one valid scope' },
+        { status: 400 }
+      );
+    }
+
+    if (!scopes.every((scope) => canGrantScope(user.role, scope))) {
+      return NextResponse.json(
+        { error: 'You cannot grant a scope your role does not have' },
+        { status: 403 }
+      );
+    }
+
+    if (!(API_TOKEN_EXPIRY_DAYS as readonly (number | null)[]).includes(expiresInDays)) {
+      return NextResponse.json(
+        { error: 'Invalid expiry' },
+        { status: 400 }
+      );
+    }
+
+    const expiresAt = expiresInDays === null
+      ? null
+      : new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000).toISOString();
+
+    const db = getDatabase();
+    const { token, apiToken } = await createApiToken(db, user.id, {
+      name,
+      scopes: Array.from(new Set(scopes)),
+      expiresAt,
+    });
+
+    await recordAuthEvent(db, request, {
+      type: 'api_token_created',
+      userId: user.id,
+      sessionId: session.id,
+      metadata: { tokenId: apiToken.id, name, scopes: apiToken.scopes },
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        token,
+        apiToken,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Create API token error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
+
+// DELETE - Revoke a personal access token
+export const DELETE = withAuth(async (request, { user, session }) => {
+  try {
+    const body = await request.json() as { tokenId: string };
+    const { tokenId } = body;
+
+    if (!tokenId) {
+      return NextResponse.json(
+        { error: 'Token ID required' },
+        { status: 400 }
+      );
+    }
+
+    const db = getDatabase();
+
+    if (!(await revokeApiToken(db, user.id, tokenId))) {
+      return NextResponse.json(
+        { error: 'Token not found' },
+        { status: 404 }
+      );
+    }
+
+    await recordAuthEvent(db, request, {
+      type: 'api_token_revoked',
+      userId: user.id,
+      sessionId: session.id,
+      metadata: { tokenId },
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: 'Token revoked successfully',
+    });
+  } catch (error) {
+    console.error('Revoke API token error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,45 @@
+import { NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth/with-auth';
+import { isVerificationResendThrottled, sendVerificationEmail } from '@/lib/auth/email-verification';
+import { recordAuthEvent } from '@/lib/auth/audit';
+import { getAppOrigin } from '@/lib/email';
+import { getDatabase } from '@/lib/d1-client';
+
+export const POST = withAuth(async (request, { user, session }) => {
+  try {
+    if (user.emailVerified) {
+      return NextResponse.json(
+        { error: 'Email is already verified' },
+        { status: 400 }
+      );
+    }
+
+    const db = getDatabase();
+
+    if (await isVerificationResendThrottled(db, user.id)) {
+      return NextResponse.json(
+        { error: 'Please wait a minute before requesting another email' },
+        { status: 429 }
+      );
+    }
+
+    await sendVerificationEmail(db, user.id, user.email, getAppOrigin(request));
+
+    await recordAuthEvent(db, request, {
+      type: 'email_verification_sent',
+      userId: user.id,
+      sessionId: session.id,
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: 'Verification email sent',
+    });
+  } catch (error) {
+    console.error('Resend verification error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
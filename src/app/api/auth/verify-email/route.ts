@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { consumeEmailVerificationToken } from '@/lib/auth/email-verification';
+import { recordAuthEvent } from '@/lib/auth/audit';
+import { getDatabase } from '@/lib/d1-client';
+
+interface VerifyEmailRequest {
+  token: string;
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json() as VerifyEmailRequest;
+    const { token } = body;
+
+    // Validate input
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Verification token is required' },
+        { status: 400 }
+      );
+    }
+
+    const db = getDatabase();
+
+    // Redeem the single-use token
+    const userId = await consumeEmailVerificationToken(db, token);
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Verification link is invalid or has expired' },
+        { status: 400 }
+      );
+    }
+
+    await recordAuthEvent(db, request, {
+      type: 'email_verified',
+      userId,
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: 'Email verified successfully',
+    });
+  } catch (error) {
+    console.error('Verify email error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,14 +1,29 @@
 'use client';
 
-import React from 'react';
+import React, { useState } from 'react';
 import Link from 'next/link';
 import { useAuth } from '@/lib/auth/auth-context';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Separator } from '@/components/ui/separator';
+import { Badge } from '@/components/ui/badge';
 
 export default function DashboardPage() {
-  const { user, loading, logout } = useAuth();
+  const { user, loading, logout, resendVerificationEmail } = useAuth();
+  const [verificationMessage, setVerificationMessage] = useState('');
+  const [resending, setResending] = useState(false);
+
+  const handleResendVerification = async () => {
+    try {
+      setResending(true);
+      await resendVerificationEmail();
+      setVerificationMessage('Verification email sent. Please check your inbox.');
+    } catch (err) {
+      setVerificationMessage(err instanceof Error ? err.message : 'Failed to resend verification email');
+    } finally {
+      setResending(false);
+    }
+  };
 
   if (loading) {
     return (
@@ -48,6 +63,7 @@ export default function DashboardPage() {
             <h1 className="text-2xl font-bold text-gray-900">QuizMaker</h1>
             <div className="flex items-center gap-4">
               <span className="text-sm text-gray-600">{user.email}</span>
+              <Badge variant="secondary" className="capitalize">{user.role}</Badge>
               <Button variant="outline" onClick={logout}>
                 Log Out
               </Button>
@@ -59,6 +75,28 @@ export default function DashboardPage() {
       {/* Main Content */}
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
         <div className="space-y-6">
+          {/* Email Verification Notice */}
+          {!user.emailVerified && (
+            <div className="p-4 text-sm text-yellow-800 bg-yellow-50 border border-yellow-200 rounded-md">
+              <div className="flex items-center justify-between gap-4">
+                <span>
+                  Please verify your email address ({user.email}) to publish and share quizzes.
+                </span>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={handleResendVerification}
+                  disabled={resending}
+                >
+                  {resending ? 'Sending...' : 'Resend Email'}
+                </Button>
+              </div>
+              {verificationMessage && (
+                <p className="mt-2">{verificationMessage}</p>
+              )}
+            </div>
+          )}
+
           {/* Welcome Card */}
           <Card>
             <CardHeader>
@@ -112,6 +150,50 @@ export default function DashboardPage() {
                 </Link>
               </CardContent>
             </Card>
+
+            <Card className="hover:shadow-lg transition-shadow">
+              <CardHeader>
+                <CardTitle className="text-lg">Account Settings</CardTitle>
+                <CardDescription>Update your profile, email, password and sign-in methods</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Link href="/dashboard/settings">
+                  <Button className="w-full" variant="outline">
+                    Open Settings
+                  </Button>
+                </Link>
+              </CardContent>
+            </Card>
+
+            <Card className="hover:shadow-lg transition-shadow">
+              <CardHeader>
+                <CardTitle className="text-lg">API Tokens</CardTitle>
+                <CardDescription>Create tokens for scripts and integrations</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Link href="/dashboard/tokens">
+                  <Button className="w-full" variant="outline">
+                    Manage Tokens
+                  </Button>
+                </Link>
+              </CardContent>
+            </Card>
+
+            {user.role === 'admin' && (
+              <Card className="hover:shadow-lg transition-shadow">
+                <CardHeader>
+                  <CardTitle className="text-lg">Admin Console</CardTitle>
+                  <CardDescription>Manage users, sessions and lockouts</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <Link href="/admin">
+                    <Button className="w-full" variant="outline">
+                      Open Admin Console
+                    </Button>
+                  </Link>
+                </CardContent>
+              </Card>
+            )}
           </div>
 
           {/* Stats (Placeholder for future) */}
@@ -4,39 +4,77 @@ import React, { useState, useEffect } from 'react';
 import Link from 'next/link';
 import { useAuth } from '@/lib/auth/auth-context';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Badge } from '@/components/ui/badge';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { SecurityActivity } from '@/components/sessions/security-activity';
+import { authFetch } from '@/lib/auth/auth-fetch';
+import type { SessionSummary } from '@/lib/auth/session';
 
-interface Session {
-  id: string;
-  deviceType: string;
-  ipAddress: string | null;
-  lastActiveAt: string;
-  createdAt: string;
-  isCurrent: boolean;
+const DEVICE_TYPE_LABELS: Record<SessionSummary['device']['deviceType'], string> = {
+  desktop: 'Desktop',
+  mobile: 'Mobile',
+  tablet: 'Tablet',
+  unknown: 'Unknown device',
+};
+
+/**
+ * Describe a session's browser and OS, e.g. "Chrome 124 on macOS 14.4"
+ * @param device - Parsed device details
+ * @returns Display name for the device
+ */
+function describeDevice(device: SessionSummary['device']): string {
+  const browser = device.browser
+    ? [device.browser, device.browserVersion].filter(Boolean).join(' ')
+    : null;
+  const os = device.os ? [device.os, device.osVersion].filter(Boolean).join(' ') : null;
+
+  if (browser && os) return `${browser} on ${os}`;
+  return browser || os || 'Unknown browser';
+}
+
+/**
+ * Describe a session's approximate location, e.g. "Berlin, Germany"
+ * @param location - Location recorded when the session was created
+ * @returns Display location, or null if unknown
+ */
+function describeLocation(location: SessionSummary['location']): string | null {
+  let country = location.country;
+
+  if (country) {
+    try {
+      country = new Intl.DisplayNames(undefined, { type: 'region' }).of(country) || country;
+    } catch {
+      // Keep the country code
+    }
+  }
+
+  const parts = [location.city, country].filter(Boolean);
+  return parts.length > 0 ? parts.join(', ') : null;
 }
 
 export default function SessionsPage() {
-  const [sessions, setSessions] = useState<Session[]>([]);
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
   const [revoking, setRevoking] = useState<string | null>(null);
+  const [renaming, setRenaming] = useState<string | null>(null);
+  const [nickname, setNickname] = useState('');
 
   const { user, logout } = useAuth();
 
   const fetchSessions = async () => {
     try {
       setLoading(true);
-      const response = await fetch('/api/auth/sessions', {
-        credentials: 'include',
-      });
+      const response = await authFetch('/api/auth/sessions');
 
       if (!response.ok) {
         throw new Error('Failed to fetch sessions');
       }
 
-      const data = await response.json() as { sessions: Session[] };
+      const data = await response.json() as { sessions: SessionSummary[] };
       setSessions(data.sessions);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load sessions');
@@ -56,9 +94,10 @@ export default function SessionsPage() {
 
     try {
       setRevoking(sessionId);
-      const response = await fetch(`/api/auth/sessions?sessionId=${sessionId}`, {
+      const response = await authFetch('/api/auth/sessions', {
         method: 'DELETE',
-        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ sessionId }),
       });
 
       if (!response.ok) {
@@ -74,15 +113,45 @@ export default function SessionsPage() {
     }
   };
 
+  const startRenaming = (session: SessionSummary) => {
+    setRenaming(session.id);
+    setNickname(session.nickname || '');
+  };
+
+  const handleRenameSession = async (e: React.FormEvent, sessionId: string) => {
+    e.preventDefault();
+    setError('');
+
+    try {
+      const response = await authFetch('/api/auth/sessions', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ sessionId, nickname }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json() as { error: string };
+        throw new Error(data.error || 'Failed to rename session');
+      }
+
+      const data = await response.json() as { nickname: string | null };
+      setSessions((current) =>
+        current.map((s) => (s.id === sessionId ? { ...s, nickname: data.nickname } : s))
+      );
+      setRenaming(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to rename session');
+    }
+  };
+
   const handleLogoutAllDevices = async () => {
     if (!confirm('Are you sure you want to log out all devices? You will be logged out.')) {
       return;
     }
 
     try {
-      const response = await fetch('/api/auth/logout-all', {
+      const response = await authFetch('/api/auth/logout-all', {
         method: 'POST',
-        credentials: 'include',
       });
 
       if (!response.ok) {
@@ -156,106 +225,162 @@ export default function SessionsPage() {
             </div>
           )}
 
-          <Card>
-            <CardHeader>
-              <div className="flex items-center justify-between">
-                <div>
-                  <CardTitle>Your Active Sessions</CardTitle>
-                  <CardDescription>
-                    Manage devices where you&apos;re currently logged in
-                  </CardDescription>
-                </div>
-                <Button 
-                  variant="destructive" 
-                  onClick={handleLogoutAllDevices}
-                  disabled={sessions.length === 0}
-                >
-                  Logout All Devices
-                </Button>
-              </div>
-            </CardHeader>
-            <CardContent>
-              {sessions.length === 0 ? (
-                <div className="text-center py-8 text-gray-500">
-                  No active sessions found
-                </div>
-              ) : (
-                <div className="overflow-x-auto">
-                  <Table>
-                    <TableHeader>
-                      <TableRow>
-                        <TableHead>Device</TableHead>
-                        <TableHead>IP Address</TableHead>
-                        <TableHead>Last Active</TableHead>
-                        <TableHead>Login Date</TableHead>
-                        <TableHead className="text-right">Action</TableHead>
-                      </TableRow>
-                    </TableHeader>
-                    <TableBody>
-                      {sessions.map((session) => (
-                        <TableRow key={session.id}>
-                          <TableCell className="font-medium">
-                            <div className="flex items-center gap-2">
-                              {session.deviceType}
-                              {session.isCurrent && (
-                                <Badge variant="default" className="text-xs">
-                                  Current
-                                </Badge>
-                              )}
-                            </div>
-                          </TableCell>
-                          <TableCell className="text-gray-600">
-                            {session.ipAddress || 'Unknown'}
-                          </TableCell>
-                          <TableCell className="text-gray-600">
-                            {formatDate(session.lastActiveAt)}
-                          </TableCell>
-                          <TableCell className="text-gray-600">
-                            {new Date(session.createdAt).toLocaleDateString()}
-                          </TableCell>
-                          <TableCell className="text-right">
-                            {session.isCurrent ? (
-                              <Button
-                                variant="outline"
-                                size="sm"
-                                disabled
-                              >
-                                Current Device
-                              </Button>
-                            ) : (
-                              <Button
-                                variant="destructive"
-                                size="sm"
-                                onClick={() => handleRevokeSession(session.id)}
-                                disabled={revoking === session.id}
-                              >
-                                {revoking === session.id ? 'Logging out...' : 'Logout'}
-                              </Button>
-                            )}
-                          </TableCell>
-                        </TableRow>
-                      ))}
-                    </TableBody>
-                  </Table>
-                </div>
-              )}
-            </CardContent>
-          </Card>
-
-          {/* Info Card */}
-          <Card>
-            <CardHeader>
-              <CardTitle className="text-lg">About Sessions</CardTitle>
-            </CardHeader>
-            <CardContent className="text-sm text-gray-600 space-y-2">
-              <p>
-                Sessions represent devices where you&apos;re currently logged in. Each session is valid for 7 days of inactivity.
-              </p>
-              <p>
-                If you notice any suspicious activity, you can immediately revoke access to any device or logout all devices at once.
-              </p>
-            </CardContent>
-          </Card>
+          <Tabs defaultValue="sessions">
+            <TabsList>
+              <TabsTrigger value="sessions">Active Sessions</TabsTrigger>
+              <TabsTrigger value="activity">Security Activity</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="sessions" className="space-y-6">
+              <Card>
+                <CardHeader>
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <CardTitle>Your Active Sessions</CardTitle>
+                      <CardDescription>
+                        Manage devices where you&apos;re currently logged in
+                      </CardDescription>
+                    </div>
+                    <Button 
+                      variant="destructive" 
+                      onClick={handleLogoutAllDevices}
+                      disabled={sessions.length === 0}
+                    >
+                      Logout All Devices
+                    </Button>
+                  </div>
+                </CardHeader>
+                <CardContent>
+                  {sessions.length === 0 ? (
+                    <div className="text-center py-8 text-gray-500">
+                      No active sessions found
+                    </div>
+                  ) : (
+                    <div className="overflow-x-auto">
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>Device</TableHead>
+                            <TableHead>Location</TableHead>
+                            <TableHead>Last Active</TableHead>
+                            <TableHead>Login Date</TableHead>
+                            <TableHead className="text-right">Action</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {sessions.map((session) => (
+                            <TableRow key={session.id}>
+                              <TableCell>
+                                {renaming === session.id ? (
+                                  <form
+                                    onSubmit={(e) => handleRenameSession(e, session.id)}
+                                    className="flex items-center gap-2"
+                                  >
+                                    <Input
+                                      value={nickname}
+                                      onChange={(e) => setNickname(e.target.value)}
+                                      placeholder={describeDevice(session.device)}
+                                      maxLength={50}
+                                      className="h-8 w-48"
+                                      autoFocus
+                                    />
+                                    <Button type="submit" size="sm">
+                                      Save
+                                    </Button>
+                                    <Button
+                                      type="button"
+                                      variant="ghost"
+                                      size="sm"
+                                      onClick={() => setRenaming(null)}
+                                    >
+                                      Cancel
+                                    </Button>
+                                  </form>
+                                ) : (
+                                  <div className="space-y-1">
+                                    <div className="flex items-center gap-2 font-medium">
+                                      {session.nickname || describeDevice(session.device)}
+                                      {session.isCurrent && (
+                                        <Badge variant="default" className="text-xs">
+                                          Current
+                                        </Badge>
+                                      )}
+                                      <button
+                                        type="button"
+                                        onClick={() => startRenaming(session)}
+                                        className="text-xs font-normal text-gray-500 hover:text-gray-900 underline"
+                                      >
+                                        Rename
+                                      </button>
+                                    </div>
+                                    <div className="text-xs text-gray-500">
+                                      {DEVICE_TYPE_LABELS[session.device.deviceType]}
+                                      {session.nickname && ` · ${describeDevice(session.device)}`}
+                                    </div>
+                                  </div>
+                                )}
+                              </TableCell>
+                              <TableCell className="text-gray-600">
+                                <div>{describeLocation(session.location) || 'Unknown'}</div>
+                                <div className="text-xs text-gray-500">
+                                  {session.ipAddress || 'Unknown IP'}
+                                </div>
+                              </TableCell>
+                              <TableCell className="text-gray-600">
+                                {formatDate(session.lastActiveAt)}
+                              </TableCell>
+                              <TableCell className="text-gray-600">
+                                {new Date(session.createdAt).toLocaleDateString()}
+                              </TableCell>
+                              <TableCell className="text-right">
+                                {session.isCurrent ? (
+                                  <Button
+                                    variant="outline"
+                                    size="sm"
+                                    disabled
+                                  >
+                                    Current Device
+                                  </Button>
+                                ) : (
+                                  <Button
+                                    variant="destructive"
+                                    size="sm"
+                                    onClick={() => handleRevokeSession(session.id)}
+                                    disabled={revoking === session.id}
+                                  >
+                                    {revoking === session.id ? 'Logging out...' : 'Logout'}
+                                  </Button>
+                                )}
+                              </TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+
+              {/* Info Card */}
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-lg">About Sessions</CardTitle>
+                </CardHeader>
+                <CardContent className="text-sm text-gray-600 space-y-2">
+                  <p>
+                    Sessions represent devices where you&apos;re currently logged in. Each session is valid for 7 days of inactivity.
+                  </p>
+                  <p>
+                    If you notice any suspicious activity, you can immediately revoke access to any device or logout all devices at once.
+                  </p>
+                </CardContent>
+              </Card>
+            </TabsContent>
+
+            <TabsContent value="activity">
+              <SecurityActivity />
+            </TabsContent>
+          </Tabs>
         </div>
       </main>
     </div>
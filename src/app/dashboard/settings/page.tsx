@@ -0,0 +1,52 @@
+'use client';
+
+import React from 'react';
+import Link from 'next/link';
+import { useAuth } from '@/lib/auth/auth-context';
+import { Button } from '@/components/ui/button';
+import { ProfileSettings } from '@/components/settings/profile-settings';
+import { PasswordSettings } from '@/components/settings/password-settings';
+import { TwoFactorSettings } from '@/components/settings/two-factor-settings';
+import { PasskeySettings } from '@/components/settings/passkey-settings';
+import { AccountDataSettings } from '@/components/settings/account-data-settings';
+
+export default function SettingsPage() {
+  const { user, logout } = useAuth();
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-4">
+              <Link href="/dashboard">
+                <Button variant="outline" size="sm">
+                  ← Back to Dashboard
+                </Button>
+              </Link>
+              <h1 className="text-2xl font-bold text-gray-900">Account Settings</h1>
+            </div>
+            <div className="flex items-center gap-4">
+              <span className="text-sm text-gray-600">{user?.email}</span>
+              <Button variant="outline" onClick={logout}>
+                Log Out
+              </Button>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="space-y-6">
+          <ProfileSettings />
+          <PasswordSettings />
+          <TwoFactorSettings />
+          <PasskeySettings />
+          <AccountDataSettings />
+        </div>
+      </main>
+    </div>
+  );
+}
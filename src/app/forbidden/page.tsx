@@ -0,0 +1,48 @@
+'use client';
+
+import React, { Suspense } from 'react';
+import Link from 'next/link';
+import { useSearchParams } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+
+function ForbiddenContent() {
+  const searchParams = useSearchParams();
+  const from = searchParams.get('from');
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-gray-50 px-4">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle>403 - Access Denied</CardTitle>
+          <CardDescription>
+            Your account doesn&apos;t have permission to view {from ? <code>{from}</code> : 'this page'}.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm text-gray-600">
+            If you think this is a mistake, ask an administrator to check your account role.
+          </p>
+          <Link href="/dashboard">
+            <Button className="w-full">Back to Dashboard</Button>
+          </Link>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+export default function ForbiddenPage() {
+  return (
+    <Suspense fallback={
+      <div className="flex min-h-screen items-center justify-center">
+        <div className="text-center space-y-4">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-gray-900 mx-auto"></div>
+          <p className="text-gray-600">Loading...</p>
+        </div>
+      </div>
+    }>
+      <ForbiddenContent />
+    </Suspense>
+  );
+}
@@ -4,6 +4,7 @@ import React, { useState, useEffect, Suspense } from 'react';
 import Link from 'next/link';
 import { useRouter, useSearchParams } from 'next/navigation';
 import { useAuth } from '@/lib/auth/auth-context';
+import { isSafeRedirect } from '@/lib/auth/redirect';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -14,18 +15,57 @@ function LoginForm() {
   const [password, setPassword] = useState('');
   const [error, setError] = useState('');
   const [loading, setLoading] = useState(false);
+  const [mfaRequired, setMfaRequired] = useState(false);
+  // Null after an external sign-in: the challenge is then in an HTTP-only cookie
+  const [challengeToken, setChallengeToken] = useState<string | null>(null);
+  const [mfaCode, setMfaCode] = useState('');
+  const [providers, setProviders] = useState<{ id: string; label: string }[]>([]);
 
-  const { login } = useAuth();
+  const { login, verifyMfa, loginWithPasskey } = useAuth();
   const router = useRouter();
   const searchParams = useSearchParams();
 
   useEffect(() => {
+    // External sign-in finished but still needs a second factor
+    if (searchParams.get('mfa')) {
+      setMfaRequired(true);
+      return;
+    }
+
+    const loginError = searchParams.get('error');
+    if (loginError) {
+      setError(loginError);
+      return;
+    }
+
     const redirect = searchParams.get('redirect');
     if (redirect) {
       setError('Please log in to access that page');
     }
   }, [searchParams]);
 
+  useEffect(() => {
+    const fetchProviders = async () => {
+      try {
+        const response = await fetch('/api/auth/oidc/providers');
+        if (response.ok) {
+          const data = await response.json() as { providers: { id: string; label: string }[] };
+          setProviders(data.providers);
+        }
+      } catch (err) {
+        console.error('Failed to load sign-in providers:', err);
+      }
+    };
+
+    fetchProviders();
+  }, []);
+
+  const getProviderStartUrl = (providerId: string): string => {
+    const redirect = searchParams.get('redirect');
+    const query = redirect ? `?redirect=${encodeURIComponent(redirect)}` : '';
+    return `/api/auth/oidc/${providerId}/start${query}`;
+  };
+
   const validateForm = (): boolean => {
     if (!email || !password) {
       setError('Please enter both email and password');
@@ -52,15 +92,15 @@ function LoginForm() {
     setLoading(true);
 
     try {
-      await login(email, password);
-      
-      // Check if there's a redirect parameter
-      const redirect = searchParams.get('redirect');
-      if (redirect) {
-        router.push(redirect);
-      } else {
-        router.push('/dashboard');
+      const result = await login(email, password);
+
+      if (result.mfaRequired) {
+        setChallengeToken(result.challengeToken);
+        setMfaRequired(true);
+        return;
       }
+
+      redirectAfterLogin();
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Login failed. Please try again.');
     } finally {
@@ -68,6 +108,107 @@ function LoginForm() {
     }
   };
 
+  const handlePasskeyLogin = async () => {
+    setError('');
+    setLoading(true);
+
+    try {
+      await loginWithPasskey();
+      redirectAfterLogin();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Passkey login failed. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const redirectAfterLogin = () => {
+    // Check if there's a redirect parameter
+    const redirect = searchParams.get('redirect');
+    if (isSafeRedirect(redirect)) {
+      router.push(redirect);
+    } else {
+      router.push('/dashboard');
+    }
+  };
+
+  const handleMfaSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (!mfaCode.trim()) {
+      setError('Please enter your verification code');
+      return;
+    }
+
+    setLoading(true);
+
+    try {
+      await verifyMfa(challengeToken, mfaCode.trim());
+      redirectAfterLogin();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Verification failed. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleMfaCancel = () => {
+    setMfaRequired(false);
+    setChallengeToken(null);
+    setMfaCode('');
+    setPassword('');
+    setError('');
+  };
+
+  if (mfaRequired) {
+    return (
+      <div className="flex min-h-screen items-center justify-center p-4 bg-gray-50">
+        <Card className="w-full max-w-md">
+          <CardHeader className="space-y-1">
+            <CardTitle className="text-2xl font-bold">Two-factor authentication</CardTitle>
+            <CardDescription>
+              Enter the 6-digit code from your authenticator app, or one of your recovery codes
+            </CardDescription>
+          </CardHeader>
+          <form onSubmit={handleMfaSubmit}>
+            <CardContent className="space-y-4">
+              {error && (
+                <div className="p-3 text-sm text-red-500 bg-red-50 border border-red-200 rounded-md">
+                  {error}
+                </div>
+              )}
+
+              <div className="space-y-2">
+                <Label htmlFor="mfaCode">Verification Code</Label>
+                <Input
+                  id="mfaCode"
+                  type="text"
+                  inputMode="numeric"
+                  placeholder="123456"
+                  value={mfaCode}
+                  onChange={(e) => setMfaCode(e.target.value)}
+                  required
+                  disabled={loading}
+                  autoComplete="one-time-code"
+                  autoFocus
+                />
+              </div>
+            </CardContent>
+            <CardFooter className="flex flex-col space-y-4">
+              <Button type="submit" className="w-full" disabled={loading}>
+                {loading ? 'Verifying...' : 'Verify'}
+              </Button>
+              <Button type="button" variant="ghost" className="w-full" onClick={handleMfaCancel} disabled={loading}>
+                Back to login
+              </Button>
+            </CardFooter>
+          </form>
+        </Card>
+      </div>
+    );
+  }
+
   return (
     <div className="flex min-h-screen items-center justify-center p-4 bg-gray-50">
       <Card className="w-full max-w-md">
@@ -103,12 +244,8 @@ function LoginForm() {
               <div className="flex items-center justify-between">
                 <Label htmlFor="password">Password</Label>
                 <Link 
-                  href="#" 
+                  href="/forgot-password" 
                   className="text-sm text-blue-600 hover:underline"
-                  onClick={(e) => {
-                    e.preventDefault();
-                    alert('Password reset feature coming soon!');
-                  }}
                 >
                   Forgot password?
                 </Link>
@@ -129,6 +266,20 @@ function LoginForm() {
             <Button type="submit" className="w-full" disabled={loading}>
               {loading ? 'Logging in...' : 'Log In'}
             </Button>
+            <Button
+              type="button"
+              variant="outline"
+              className="w-full"
+              onClick={handlePasskeyLogin}
+              disabled={loading}
+            >
+              Sign in with a passkey
+            </Button>
+            {providers.map((provider) => (
+              <Button key={provider.id} variant="outline" className="w-full" asChild>
+                <a href={getProviderStartUrl(provider.id)}>Continue with {provider.label}</a>
+              </Button>
+            ))}
             <div className="text-sm text-center text-gray-600">
               Don&apos;t have an account?{' '}
               <Link href="/signup" className="text-blue-600 hover:underline">
@@ -0,0 +1,102 @@
+'use client';
+
+import React, { useState, useEffect, useRef, Suspense } from 'react';
+import Link from 'next/link';
+import { useSearchParams } from 'next/navigation';
+import { csrfFetch } from '@/lib/auth/auth-fetch';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+
+type SecureStatus = 'securing' | 'success' | 'error';
+
+function SecureAccountContent() {
+  const [status, setStatus] = useState<SecureStatus>('securing');
+  const [error, setError] = useState('');
+  const requested = useRef(false);
+
+  const searchParams = useSearchParams();
+  const token = searchParams.get('token');
+
+  useEffect(() => {
+    // The link works once, so never submit twice (e.g. React strict mode)
+    if (requested.current) return;
+    requested.current = true;
+
+    const secureAccount = async () => {
+      if (!token) {
+        setError('This link is missing its token.');
+        setStatus('error');
+        return;
+      }
+
+      try {
+        const response = await csrfFetch('/api/auth/secure-account', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ token }),
+        });
+
+        if (!response.ok) {
+          const data = await response.json() as { error: string };
+          throw new Error(data.error || 'Could not sign out the device');
+        }
+
+        setStatus('success');
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Could not sign out the device');
+        setStatus('error');
+      }
+    };
+
+    secureAccount();
+  }, [token]);
+
+  return (
+    <div className="flex min-h-screen items-center justify-center p-4 bg-gray-50">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle>
+            {status === 'securing' && 'Signing out the new device...'}
+            {status === 'success' && 'Device signed out'}
+            {status === 'error' && 'Something went wrong'}
+          </CardTitle>
+          <CardDescription>
+            {status === 'securing' && 'Please wait a moment.'}
+            {status === 'success' &&
+              'The sign-in you did not recognize has been ended. We emailed you a link to choose a new password so it cannot sign in again.'}
+            {status === 'error' && error}
+          </CardDescription>
+        </CardHeader>
+        {status === 'success' && (
+          <CardContent>
+            <Link href="/login">
+              <Button variant="outline" className="w-full">Back to Login</Button>
+            </Link>
+          </CardContent>
+        )}
+        {status === 'error' && (
+          <CardContent>
+            <Link href="/forgot-password">
+              <Button variant="outline" className="w-full">Reset Password</Button>
+            </Link>
+          </CardContent>
+        )}
+      </Card>
+    </div>
+  );
+}
+
+export default function SecureAccountPage() {
+  return (
+    <Suspense fallback={
+      <div className="flex min-h-screen items-center justify-center">
+        <div className="text-center space-y-4">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-gray-900 mx-auto"></div>
+          <p className="text-gray-600">Loading...</p>
+        </div>
+      </div>
+    }>
+      <SecureAccountContent />
+    </Suspense>
+  );
+}
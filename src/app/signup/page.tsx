@@ -8,6 +8,8 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { PasswordStrength } from '@/components/auth/password-strength';
+import { evaluatePassword } from '@/lib/auth/password-policy';
 
 export default function SignupPage() {
   const [fullName, setFullName] = useState('');
@@ -16,31 +18,12 @@ export default function SignupPage() {
   const [confirmPassword, setConfirmPassword] = useState('');
   const [error, setError] = useState('');
   const [loading, setLoading] = useState(false);
-  const [passwordStrength, setPasswordStrength] = useState<string>('');
 
   const { signup } = useAuth();
   const router = useRouter();
 
-  const validatePasswordStrength = (pwd: string): string => {
-    if (pwd.length === 0) return '';
-    if (pwd.length < 8) return 'Too short (min 8 characters)';
-    
-    const hasUpper = /[A-Z]/.test(pwd);
-    const hasLower = /[a-z]/.test(pwd);
-    const hasNumber = /[0-9]/.test(pwd);
-    const hasSpecial = /[^A-Za-z0-9]/.test(pwd);
-    
-    const strength = [hasUpper, hasLower, hasNumber, hasSpecial].filter(Boolean).length;
-    
-    if (strength < 3) return 'Weak';
-    if (strength === 3) return 'Medium';
-    return 'Strong';
-  };
-
-  const handlePasswordChange = (value: string) => {
-    setPassword(value);
-    setPasswordStrength(validatePasswordStrength(value));
-  };
+  // Evaluated on every keystroke with the same policy the API enforces
+  const passwordFeedback = evaluatePassword(password);
 
   const validateForm = (): boolean => {
     if (!fullName.trim()) {
@@ -54,17 +37,8 @@ export default function SignupPage() {
       return false;
     }
 
-    if (password.length < 8) {
-      setError('Password must be at least 8 characters long');
-      return false;
-    }
-
-    const hasUpper = /[A-Z]/.test(password);
-    const hasLower = /[a-z]/.test(password);
-    const hasNumber = /[0-9]/.test(password);
-
-    if (!hasUpper || !hasLower || !hasNumber) {
-      setError('Password must contain uppercase, lowercase, and number');
+    if (!passwordFeedback.valid) {
+      setError(passwordFeedback.errors[0]);
       return false;
     }
 
@@ -96,19 +70,6 @@ export default function SignupPage() {
     }
   };
 
-  const getStrengthColor = (strength: string): string => {
-    switch (strength) {
-      case 'Weak':
-        return 'text-red-500';
-      case 'Medium':
-        return 'text-yellow-500';
-      case 'Strong':
-        return 'text-green-500';
-      default:
-        return 'text-gray-500';
-    }
-  };
-
   return (
     <div className="flex min-h-screen items-center justify-center p-4 bg-gray-50">
       <Card className="w-full max-w-md">
@@ -159,15 +120,12 @@ export default function SignupPage() {
                 type="password"
                 placeholder="••••••••"
                 value={password}
-                onChange={(e) => handlePasswordChange(e.target.value)}
+                onChange={(e) => setPassword(e.target.value)}
                 required
                 disabled={loading}
+                autoComplete="new-password"
               />
-              {passwordStrength && (
-                <p className={`text-xs ${getStrengthColor(passwordStrength)}`}>
-                  Password strength: {passwordStrength}
-                </p>
-              )}
+              {password && <PasswordStrength feedback={passwordFeedback} />}
             </div>
 
             <div className="space-y-2">
@@ -182,10 +140,6 @@ export default function SignupPage() {
                 disabled={loading}
               />
             </div>
-
-            <div className="text-xs text-gray-500">
-              Password must be at least 8 characters and contain uppercase, lowercase, and a number.
-            </div>
           </CardContent>
           <CardFooter className="flex flex-col space-y-4">
             <Button type="submit" className="w-full" disabled={loading}>
@@ -0,0 +1,97 @@
+'use client';
+
+import React, { useState, useEffect, useRef, Suspense } from 'react';
+import Link from 'next/link';
+import { useSearchParams } from 'next/navigation';
+import { useAuth } from '@/lib/auth/auth-context';
+import { csrfFetch } from '@/lib/auth/auth-fetch';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+
+type VerifyStatus = 'verifying' | 'success' | 'error';
+
+function VerifyEmailContent() {
+  const [status, setStatus] = useState<VerifyStatus>('verifying');
+  const [error, setError] = useState('');
+  const requested = useRef(false);
+
+  const { checkAuth } = useAuth();
+  const searchParams = useSearchParams();
+  const token = searchParams.get('token');
+
+  useEffect(() => {
+    // Tokens are single-use, so never submit twice (e.g. React strict mode)
+    if (requested.current) return;
+    requested.current = true;
+
+    const verify = async () => {
+      if (!token) {
+        setError('This verification link is missing its token.');
+        setStatus('error');
+        return;
+      }
+
+      try {
+        const response = await csrfFetch('/api/auth/verify-email', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ token }),
+        });
+
+        if (!response.ok) {
+          const data = await response.json() as { error: string };
+          throw new Error(data.error || 'Verification failed');
+        }
+
+        setStatus('success');
+        await checkAuth();
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Verification failed');
+        setStatus('error');
+      }
+    };
+
+    verify();
+  }, [token, checkAuth]);
+
+  return (
+    <div className="flex min-h-screen items-center justify-center p-4 bg-gray-50">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle>
+            {status === 'verifying' && 'Verifying your email...'}
+            {status === 'success' && 'Email verified'}
+            {status === 'error' && 'Verification failed'}
+          </CardTitle>
+          <CardDescription>
+            {status === 'verifying' && 'Please wait a moment.'}
+            {status === 'success' && 'Thanks! Your email address has been confirmed.'}
+            {status === 'error' && error}
+          </CardDescription>
+        </CardHeader>
+        {status !== 'verifying' && (
+          <CardContent>
+            <Link href="/dashboard">
+              <Button className="w-full">Go to Dashboard</Button>
+            </Link>
+          </CardContent>
+        )}
+      </Card>
+    </div>
+  );
+}
+
+export default function VerifyEmailPage() {
+  return (
+    <Suspense fallback={
+      <div className="flex min-h-screen items-center justify-center">
+        <div className="text-center space-y-4">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-gray-900 mx-auto"></div>
+          <p className="text-gray-600">Loading...</p>
+        </div>
+      </div>
+    }>
+      <VerifyEmailContent />
+    </Suspense>
+  );
+}
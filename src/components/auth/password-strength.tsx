@@ -0,0 +1,44 @@
+'use client';
+
+import React from 'react';
+import { PASSWORD_SCORE_LABELS, type PasswordFeedback } from '@/lib/auth/password-policy';
+
+const SCORE_COLORS = ['bg-red-500', 'bg-red-500', 'bg-yellow-500', 'bg-green-500', 'bg-green-600'];
+const SCORE_TEXT_COLORS = ['text-red-500', 'text-red-500', 'text-yellow-600', 'text-green-600', 'text-green-600'];
+
+interface PasswordStrengthProps {
+  feedback: PasswordFeedback;
+}
+
+/**
+ * Live strength meter and checklist for a new password
+ * Shows the same checks the API enforces (see evaluatePassword).
+ */
+export function PasswordStrength({ feedback }: PasswordStrengthProps) {
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <div className="flex flex-1 gap-1">
+          {[1, 2, 3, 4].map((segment) => (
+            <div
+              key={segment}
+              className={`h-1.5 flex-1 rounded-full ${
+                feedback.score >= segment ? SCORE_COLORS[feedback.score] : 'bg-gray-200'
+              }`}
+            />
+          ))}
+        </div>
+        <span className={`text-xs ${SCORE_TEXT_COLORS[feedback.score]}`}>
+          {PASSWORD_SCORE_LABELS[feedback.score]}
+        </span>
+      </div>
+      <ul className="space-y-1 text-xs">
+        {feedback.checks.map((check) => (
+          <li key={check.id} className={check.passed ? 'text-green-600' : 'text-gray-500'}>
+            {check.passed ? '✓' : '○'} {check.message}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
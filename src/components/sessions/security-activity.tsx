@@ -0,0 +1,189 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { authFetch } from '@/lib/auth/auth-fetch';
+
+export interface SecurityEvent {
+  id: string;
+  type: string;
+  ipAddress: string | null;
+  userAgent: string | null;
+  metadata: Record<string, unknown> | null;
+  createdAt: string;
+  isCurrentSession?: boolean;
+}
+
+const EVENT_LABELS: Record<string, string> = {
+  signup: 'Account created',
+  login_success: 'Signed in',
+  login_failure: 'Failed sign-in attempt',
+  logout: 'Signed out',
+  logout_all: 'Signed out of all devices',
+  session_revoked: 'Device signed out',
+  new_device_alert_sent: 'Signed in from a new device',
+  new_device_session_revoked: 'New device signed out from the alert email',
+  refresh_token_reused: 'Session ended after suspicious token reuse',
+  password_reset_requested: 'Password reset requested',
+  password_reset: 'Password reset',
+  password_changed: 'Password changed',
+  profile_updated: 'Profile updated',
+  email_change_requested: 'Email change requested',
+  email_changed: 'Email address changed',
+  data_exported: 'Personal data exported',
+  account_deletion_scheduled: 'Account deletion scheduled',
+  account_deletion_cancelled: 'Account deletion cancelled',
+  email_verification_sent: 'Verification email sent',
+  email_verified: 'Email verified',
+  mfa_enabled: 'Two-factor authentication enabled',
+  mfa_disabled: 'Two-factor authentication disabled',
+  mfa_recovery_codes_regenerated: 'Recovery codes regenerated',
+  passkey_added: 'Passkey added',
+  passkey_removed: 'Passkey removed',
+  api_token_created: 'API token created',
+  api_token_revoked: 'API token revoked',
+  admin_user_deactivated: 'Account deactivated by an administrator',
+  admin_user_activated: 'Account reactivated by an administrator',
+  admin_role_changed: 'Role changed by an administrator',
+  admin_sessions_revoked: 'Signed out of all devices by an administrator',
+  admin_password_reset_sent: 'Password reset link sent by an administrator',
+  admin_login_unlocked: 'Login lockout cleared by an administrator',
+  admin_account_purged: 'Account deleted after its grace period',
+};
+
+const FAILURE_REASONS: Record<string, string> = {
+  invalid_password: 'wrong password',
+  invalid_mfa_code: 'wrong verification code',
+  invalid_passkey_assertion: 'passkey rejected',
+  locked: 'too many attempts',
+  inactive: 'account inactive',
+};
+
+/**
+ * Describe an event for display
+ * @param event - Auth event
+ * @returns Human-readable description
+ */
+function describeEvent(event: SecurityEvent): string {
+  const label = EVENT_LABELS[event.type] || event.type;
+  const method = event.metadata?.method;
+  const reason = event.metadata?.reason;
+
+  if (event.type === 'login_success' && typeof method === 'string') {
+    return `${label} (${method.replace('oidc:', '')})`;
+  }
+
+  if (event.type === 'login_failure' && typeof reason === 'string' && FAILURE_REASONS[reason]) {
+    return `${label} (${FAILURE_REASONS[reason]})`;
+  }
+
+  if (event.type === 'admin_role_changed' && typeof event.metadata?.to === 'string') {
+    return `${label} (now ${event.metadata.to})`;
+  }
+
+  return label;
+}
+
+/**
+ * Table of security events, shared by the user's own activity tab and the admin console
+ */
+export function SecurityEventsTable({ events }: { events: SecurityEvent[] }) {
+  return (
+    <div className="overflow-x-auto">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Event</TableHead>
+            <TableHead>IP Address</TableHead>
+            <TableHead>Browser</TableHead>
+            <TableHead>Date</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {events.map((event) => (
+            <TableRow key={event.id}>
+              <TableCell className="font-medium">
+                <div className="flex items-center gap-2">
+                  <span className={event.type === 'login_failure' ? 'text-red-600' : undefined}>
+                    {describeEvent(event)}
+                  </span>
+                  {event.isCurrentSession && (
+                    <Badge variant="secondary" className="text-xs">
+                      This session
+                    </Badge>
+                  )}
+                </div>
+              </TableCell>
+              <TableCell className="text-gray-600">
+                {event.ipAddress || 'Unknown'}
+              </TableCell>
+              <TableCell className="text-gray-600 max-w-xs truncate" title={event.userAgent || undefined}>
+                {event.userAgent || 'Unknown'}
+              </TableCell>
+              <TableCell className="text-gray-600">
+                {new Date(event.createdAt).toLocaleString()}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
+
+export function SecurityActivity() {
+  const [events, setEvents] = useState<SecurityEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const fetchEvents = async () => {
+      try {
+        const response = await authFetch('/api/auth/events');
+
+        if (!response.ok) {
+          throw new Error('Failed to fetch security activity');
+        }
+
+        const data = await response.json() as { events: SecurityEvent[] };
+        setEvents(data.events);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load security activity');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchEvents();
+  }, []);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Security Activity</CardTitle>
+        <CardDescription>
+          Recent sign-ins and security changes on your account
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {error && (
+          <div className="p-4 mb-4 text-sm text-red-500 bg-red-50 border border-red-200 rounded-md">
+            {error}
+          </div>
+        )}
+
+        {loading ? (
+          <div className="text-center py-8 text-gray-500">Loading activity...</div>
+        ) : events.length === 0 ? (
+          <div className="text-center py-8 text-gray-500">
+            No security activity recorded yet
+          </div>
+        ) : (
+          <SecurityEventsTable events={events} />
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,193 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { useAuth } from '@/lib/auth/auth-context';
+import { authFetch } from '@/lib/auth/auth-fetch';
+
+interface DeletionStatus {
+  deleteAfter: string | null;
+  gracePeriodDays: number;
+}
+
+export function AccountDataSettings() {
+  const { logout } = useAuth();
+  const [status, setStatus] = useState<DeletionStatus | null>(null);
+  const [confirming, setConfirming] = useState(false);
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState('');
+  const [busy, setBusy] = useState<'export' | 'delete' | 'cancel' | null>(null);
+
+  const fetchStatus = async () => {
+    try {
+      const response = await authFetch('/api/auth/account/deletion');
+
+      if (!response.ok) {
+        throw new Error('Failed to load account status');
+      }
+
+      const data = await response.json() as DeletionStatus;
+      setStatus(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load account status');
+    }
+  };
+
+  useEffect(() => {
+    fetchStatus();
+  }, []);
+
+  const handleExport = async () => {
+    setError('');
+    setBusy('export');
+
+    try {
+      const response = await authFetch('/api/auth/account/export');
+
+      if (!response.ok) {
+        throw new Error('Failed to export your data');
+      }
+
+      // Save the archive under the name the server suggests
+      const disposition = response.headers.get('content-disposition') || '';
+      const filename = /filename="([^"]+)"/.exec(disposition)?.[1] || 'quizmaker-export.json';
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to export your data');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleDelete = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setBusy('delete');
+
+    try {
+      const response = await authFetch('/api/auth/account/deletion', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ password }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json() as { error: string };
+        throw new Error(data.error || 'Failed to delete account');
+      }
+
+      // Every session was revoked, including this one
+      await logout();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete account');
+      setBusy(null);
+    }
+  };
+
+  const handleCancel = async () => {
+    setError('');
+    setBusy('cancel');
+
+    try {
+      const response = await authFetch('/api/auth/account/deletion', {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to cancel deletion');
+      }
+
+      await fetchStatus();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to cancel deletion');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Your Data</CardTitle>
+        <CardDescription>Download a copy of your data or delete your account</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {error && (
+          <div className="p-3 text-sm text-red-500 bg-red-50 border border-red-200 rounded-md">
+            {error}
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <p className="text-sm text-gray-600">
+            Your profile, sign-in history, security activity and connected sign-in methods as a JSON file.
+          </p>
+          <Button variant="outline" onClick={handleExport} disabled={busy !== null}>
+            {busy === 'export' ? 'Preparing...' : 'Export My Data'}
+          </Button>
+        </div>
+
+        {status?.deleteAfter ? (
+          <div className="p-4 space-y-3 border border-red-200 bg-red-50 rounded-md">
+            <p className="text-sm text-red-700">
+              Your account is scheduled for deletion on{' '}
+              <span className="font-medium">{new Date(status.deleteAfter).toLocaleString()}</span>.
+              All of your data will be permanently removed.
+            </p>
+            <Button variant="outline" onClick={handleCancel} disabled={busy !== null}>
+              {busy === 'cancel' ? 'Cancelling...' : 'Cancel Deletion'}
+            </Button>
+          </div>
+        ) : confirming ? (
+          <form onSubmit={handleDelete} className="p-4 space-y-3 border border-red-200 rounded-md">
+            <p className="text-sm text-gray-700">
+              You will be signed out everywhere. Your account is deleted after{' '}
+              {status?.gracePeriodDays ?? 14} days unless you sign in and cancel.
+            </p>
+            <div className="space-y-2 max-w-xs">
+              <Label htmlFor="deletePassword">Confirm with your password</Label>
+              <Input
+                id="deletePassword"
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                disabled={busy !== null}
+              />
+              <p className="text-xs text-gray-500">
+                Signed up with a sign-in provider? Sign out and back in, then leave this blank.
+              </p>
+            </div>
+            <div className="flex gap-2">
+              <Button type="submit" variant="destructive" disabled={busy !== null}>
+                {busy === 'delete' ? 'Deleting...' : 'Delete My Account'}
+              </Button>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => {
+                  setConfirming(false);
+                  setPassword('');
+                }}
+                disabled={busy !== null}
+              >
+                Keep Account
+              </Button>
+            </div>
+          </form>
+        ) : (
+          <Button variant="destructive" onClick={() => setConfirming(true)}>
+            Delete Account
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
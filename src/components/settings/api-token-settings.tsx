@@ -0,0 +1,280 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { authFetch } from '@/lib/auth/auth-fetch';
+import type { ApiScope } from '@/lib/auth/api-tokens';
+
+interface ApiTokenSummary {
+  id: string;
+  name: string;
+  tokenPrefix: string;
+  scopes: ApiScope[];
+  createdAt: string;
+  expiresAt: string | null;
+  lastUsedAt: string | null;
+}
+
+const SCOPE_LABELS: Record<ApiScope, string> = {
+  'profile:read': 'Read your profile',
+  'mcqs:read': 'Read quizzes',
+  'mcqs:manage': 'Create and edit quizzes',
+  'users:read': 'Read users (admin)',
+  'users:manage': 'Manage users (admin)',
+};
+
+export function ApiTokenSettings() {
+  const [tokens, setTokens] = useState<ApiTokenSummary[]>([]);
+  const [availableScopes, setAvailableScopes] = useState<ApiScope[]>([]);
+  const [expiryOptions, setExpiryOptions] = useState<(number | null)[]>([]);
+  const [name, setName] = useState('');
+  const [scopes, setScopes] = useState<ApiScope[]>([]);
+  const [expiresInDays, setExpiresInDays] = useState<number | null>(30);
+  const [newToken, setNewToken] = useState<string | null>(null);
+  const [error, setError] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [revoking, setRevoking] = useState<string | null>(null);
+
+  const fetchTokens = async () => {
+    try {
+      const response = await authFetch('/api/auth/tokens');
+
+      if (!response.ok) {
+        throw new Error('Failed to load API tokens');
+      }
+
+      const data = await response.json() as {
+        tokens: ApiTokenSummary[];
+        availableScopes: ApiScope[];
+        expiryOptions: (number | null)[];
+      };
+      setTokens(data.tokens);
+      setAvailableScopes(data.availableScopes);
+      setExpiryOptions(data.expiryOptions);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load API tokens');
+    }
+  };
+
+  useEffect(() => {
+    fetchTokens();
+  }, []);
+
+  const toggleScope = (scope: ApiScope) => {
+    setScopes((current) =>
+      current.includes(scope) ? current.filter((s) => s !== scope) : [...current, scope]
+    );
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setNewToken(null);
+    setBusy(true);
+
+    try {
+      const response = await authFetch('/api/auth/tokens', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name, scopes, expiresInDays }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json() as { error: string };
+        throw new Error(data.error || 'Failed to create token');
+      }
+
+      const data = await response.json() as { token: string };
+      setNewToken(data.token);
+      setName('');
+      setScopes([]);
+      await fetchTokens();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create token');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRevoke = async (tokenId: string) => {
+    if (!confirm('Revoke this token? Scripts using it will stop working immediately.')) {
+      return;
+    }
+
+    try {
+      setRevoking(tokenId);
+      const response = await authFetch('/api/auth/tokens', {
+        method: 'DELETE',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ tokenId }),
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to revoke token');
+      }
+
+      await fetchTokens();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to revoke token');
+    } finally {
+      setRevoking(null);
+    }
+  };
+
+  const isExpired = (token: ApiTokenSummary) =>
+    token.expiresAt !== null && new Date(token.expiresAt) < new Date();
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Personal Access Tokens</CardTitle>
+        <CardDescription>
+          Let scripts and integrations call the API as you, with only the scopes you choose.
+          Send a token as <code>Authorization: Bearer &lt;token&gt;</code>.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <div className="p-3 text-sm text-red-500 bg-red-50 border border-red-200 rounded-md">
+            {error}
+          </div>
+        )}
+
+        {newToken && (
+          <div className="p-3 space-y-2 text-sm bg-green-50 border border-green-200 rounded-md">
+            <p className="font-medium text-green-800">
+              Copy your new token now. It will not be shown again.
+            </p>
+            <div className="flex items-center gap-2">
+              <code className="flex-1 p-2 bg-white border rounded break-all">{newToken}</code>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => navigator.clipboard.writeText(newToken)}
+              >
+                Copy
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {tokens.length > 0 && (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Scopes</TableHead>
+                  <TableHead>Expires</TableHead>
+                  <TableHead>Last Used</TableHead>
+                  <TableHead className="text-right">Action</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {tokens.map((token) => (
+                  <TableRow key={token.id}>
+                    <TableCell className="font-medium">
+                      <div>{token.name}</div>
+                      <div className="text-xs text-gray-500 font-mono">{token.tokenPrefix}…</div>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {token.scopes.map((scope) => (
+                          <Badge key={scope} variant="secondary" className="text-xs">
+                            {scope}
+                          </Badge>
+                        ))}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-gray-600">
+                      {isExpired(token) ? (
+                        <Badge variant="destructive">Expired</Badge>
+                      ) : token.expiresAt ? (
+                        new Date(token.expiresAt).toLocaleDateString()
+                      ) : (
+                        'Never'
+                      )}
+                    </TableCell>
+                    <TableCell className="text-gray-600">
+                      {token.lastUsedAt ? new Date(token.lastUsedAt).toLocaleString() : 'Never'}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        variant="destructive"
+                        size="sm"
+                        onClick={() => handleRevoke(token.id)}
+                        disabled={revoking === token.id}
+                      >
+                        {revoking === token.id ? 'Revoking...' : 'Revoke'}
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        <form onSubmit={handleCreate} className="space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 max-w-xl">
+            <div className="space-y-2">
+              <Label htmlFor="tokenName">Token name</Label>
+              <Input
+                id="tokenName"
+                type="text"
+                placeholder="e.g. Quiz import script"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                disabled={busy}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="tokenExpiry">Expires</Label>
+              <select
+                id="tokenExpiry"
+                className="block w-full h-9 rounded-md border border-input bg-transparent px-3 py-1"
+                value={expiresInDays === null ? 'never' : String(expiresInDays)}
+                onChange={(e) =>
+                  setExpiresInDays(e.target.value === 'never' ? null : Number(e.target.value))
+                }
+                disabled={busy}
+              >
+                {expiryOptions.map((days) => (
+                  <option key={days ?? 'never'} value={days ?? 'never'}>
+                    {days === null ? 'No expiry' : `${days} days`}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <fieldset className="space-y-2">
+            <legend className="text-sm font-medium">Scopes</legend>
+            {availableScopes.map((scope) => (
+              <label key={scope} className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={scopes.includes(scope)}
+                  onChange={() => toggleScope(scope)}
+                  disabled={busy}
+                />
+                <span className="font-mono">{scope}</span>
+                <span className="text-gray-600">{SCOPE_LABELS[scope]}</span>
+              </label>
+            ))}
+          </fieldset>
+
+          <Button type="submit" disabled={busy || !name.trim() || scopes.length === 0}>
+            {busy ? 'Creating...' : 'Create Token'}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
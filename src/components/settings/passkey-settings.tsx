@@ -0,0 +1,190 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { startRegistration, type PublicKeyCredentialCreationOptionsJSON } from '@simplewebauthn/browser';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { authFetch } from '@/lib/auth/auth-fetch';
+
+interface PasskeySummary {
+  id: string;
+  name: string;
+  backedUp: boolean;
+  createdAt: string;
+  lastUsedAt: string | null;
+}
+
+export function PasskeySettings() {
+  const [passkeys, setPasskeys] = useState<PasskeySummary[]>([]);
+  const [name, setName] = useState('');
+  const [error, setError] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [removing, setRemoving] = useState<string | null>(null);
+
+  const fetchPasskeys = async () => {
+    try {
+      const response = await authFetch('/api/auth/passkeys');
+
+      if (!response.ok) {
+        throw new Error('Failed to load passkeys');
+      }
+
+      const data = await response.json() as { passkeys: PasskeySummary[] };
+      setPasskeys(data.passkeys);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load passkeys');
+    }
+  };
+
+  useEffect(() => {
+    fetchPasskeys();
+  }, []);
+
+  const handleRegister = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setBusy(true);
+
+    try {
+      const optionsResponse = await authFetch('/api/auth/passkeys/register/options', {
+        method: 'POST',
+      });
+
+      if (!optionsResponse.ok) {
+        throw new Error('Failed to start passkey registration');
+      }
+
+      const { options } = await optionsResponse.json() as { options: PublicKeyCredentialCreationOptionsJSON };
+      const attestation = await startRegistration({ optionsJSON: options });
+
+      const response = await authFetch('/api/auth/passkeys/register/verify', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ response: attestation, name }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json() as { error: string };
+        throw new Error(data.error || 'Passkey registration failed');
+      }
+
+      setName('');
+      await fetchPasskeys();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Passkey registration failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRemove = async (credentialId: string) => {
+    if (!confirm('Are you sure you want to remove this passkey?')) {
+      return;
+    }
+
+    try {
+      setRemoving(credentialId);
+      const response = await authFetch('/api/auth/passkeys', {
+        method: 'DELETE',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ credentialId }),
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to remove passkey');
+      }
+
+      await fetchPasskeys();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to remove passkey');
+    } finally {
+      setRemoving(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Passkeys</CardTitle>
+        <CardDescription>
+          Sign in with your fingerprint, face or device PIN instead of a password
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <div className="p-3 text-sm text-red-500 bg-red-50 border border-red-200 rounded-md">
+            {error}
+          </div>
+        )}
+
+        {passkeys.length > 0 && (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Added</TableHead>
+                  <TableHead>Last Used</TableHead>
+                  <TableHead className="text-right">Action</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {passkeys.map((passkey) => (
+                  <TableRow key={passkey.id}>
+                    <TableCell className="font-medium">
+                      <div className="flex items-center gap-2">
+                        {passkey.name}
+                        {passkey.backedUp && (
+                          <Badge variant="secondary" className="text-xs">
+                            Synced
+                          </Badge>
+                        )}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-gray-600">
+                      {new Date(passkey.createdAt).toLocaleDateString()}
+                    </TableCell>
+                    <TableCell className="text-gray-600">
+                      {passkey.lastUsedAt ? new Date(passkey.lastUsedAt).toLocaleDateString() : 'Never'}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        variant="destructive"
+                        size="sm"
+                        onClick={() => handleRemove(passkey.id)}
+                        disabled={removing === passkey.id}
+                      >
+                        {removing === passkey.id ? 'Removing...' : 'Remove'}
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        <form onSubmit={handleRegister} className="flex items-end gap-2">
+          <div className="space-y-2 max-w-xs w-full">
+            <Label htmlFor="passkeyName">Passkey name</Label>
+            <Input
+              id="passkeyName"
+              type="text"
+              placeholder="e.g. School laptop"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              disabled={busy}
+            />
+          </div>
+          <Button type="submit" disabled={busy}>
+            {busy ? 'Waiting for device...' : 'Add Passkey'}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
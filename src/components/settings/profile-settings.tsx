@@ -0,0 +1,165 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { useAuth } from '@/lib/auth/auth-context';
+import { authFetch } from '@/lib/auth/auth-fetch';
+
+export function ProfileSettings() {
+  const { user, checkAuth } = useAuth();
+  const [fullName, setFullName] = useState(user?.fullName || '');
+  const [newEmail, setNewEmail] = useState('');
+  const [emailPassword, setEmailPassword] = useState('');
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+  const [busy, setBusy] = useState<'profile' | 'email' | null>(null);
+
+  useEffect(() => {
+    setFullName(user?.fullName || '');
+  }, [user?.fullName]);
+
+  const handleProfileSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setMessage('');
+    setBusy('profile');
+
+    try {
+      const response = await authFetch('/api/auth/profile', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ fullName }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json() as { error: string };
+        throw new Error(data.error || 'Failed to update profile');
+      }
+
+      await checkAuth();
+      setMessage('Profile updated.');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update profile');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleEmailChange = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setMessage('');
+    setBusy('email');
+
+    try {
+      const response = await authFetch('/api/auth/email', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ newEmail, currentPassword: emailPassword }),
+      });
+
+      const data = await response.json() as { error?: string; message?: string };
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to change email');
+      }
+
+      setNewEmail('');
+      setEmailPassword('');
+      setMessage(data.message || 'Check your new inbox for a confirmation link.');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to change email');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Profile</CardTitle>
+        <CardDescription>Your name and the email address you sign in with</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {error && (
+          <div className="p-3 text-sm text-red-500 bg-red-50 border border-red-200 rounded-md">
+            {error}
+          </div>
+        )}
+
+        {message && (
+          <div className="p-3 text-sm text-green-700 bg-green-50 border border-green-200 rounded-md">
+            {message}
+          </div>
+        )}
+
+        <form onSubmit={handleProfileSave} className="flex items-end gap-2">
+          <div className="space-y-2 max-w-xs w-full">
+            <Label htmlFor="fullName">Full name</Label>
+            <Input
+              id="fullName"
+              type="text"
+              value={fullName}
+              onChange={(e) => setFullName(e.target.value)}
+              disabled={busy !== null}
+              required
+            />
+          </div>
+          <Button
+            type="submit"
+            disabled={busy !== null || !fullName.trim() || fullName.trim() === user?.fullName}
+          >
+            {busy === 'profile' ? 'Saving...' : 'Save'}
+          </Button>
+        </form>
+
+        <div className="space-y-2">
+          <div className="flex items-center gap-2 text-sm">
+            <span className="text-gray-600">Current email:</span>
+            <span className="font-medium">{user?.email}</span>
+            {user?.emailVerified ? (
+              <Badge variant="secondary">Verified</Badge>
+            ) : (
+              <Badge variant="outline">Unverified</Badge>
+            )}
+          </div>
+
+          <form onSubmit={handleEmailChange} className="flex flex-wrap items-end gap-2">
+            <div className="space-y-2 max-w-xs w-full">
+              <Label htmlFor="newEmail">New email</Label>
+              <Input
+                id="newEmail"
+                type="email"
+                placeholder="you@school.edu"
+                value={newEmail}
+                onChange={(e) => setNewEmail(e.target.value)}
+                disabled={busy !== null}
+                required
+              />
+            </div>
+            <div className="space-y-2 max-w-xs w-full">
+              <Label htmlFor="emailPassword">Current password</Label>
+              <Input
+                id="emailPassword"
+                type="password"
+                value={emailPassword}
+                onChange={(e) => setEmailPassword(e.target.value)}
+                disabled={busy !== null}
+              />
+              <p className="text-xs text-gray-500">
+                Signed up with a sign-in provider? Sign out and back in, then leave this blank.
+              </p>
+            </div>
+            <Button type="submit" variant="outline" disabled={busy !== null}>
+              {busy === 'email' ? 'Sending...' : 'Change Email'}
+            </Button>
+          </form>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
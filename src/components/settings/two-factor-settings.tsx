@@ -0,0 +1,250 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import QRCode from 'qrcode';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { authFetch } from '@/lib/auth/auth-fetch';
+
+interface MfaStatus {
+  enabled: boolean;
+  recoveryCodesRemaining: number;
+}
+
+interface Enrollment {
+  secret: string;
+  qrCodeDataUrl: string;
+}
+
+type PasswordAction = 'disable' | 'regenerate';
+
+export function TwoFactorSettings() {
+  const [status, setStatus] = useState<MfaStatus | null>(null);
+  const [enrollment, setEnrollment] = useState<Enrollment | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [passwordAction, setPasswordAction] = useState<PasswordAction | null>(null);
+  const [code, setCode] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const fetchStatus = async () => {
+    try {
+      const response = await authFetch('/api/auth/mfa');
+
+      if (!response.ok) {
+        throw new Error('Failed to load two-factor status');
+      }
+
+      const data = await response.json() as MfaStatus;
+      setStatus({ enabled: data.enabled, recoveryCodesRemaining: data.recoveryCodesRemaining });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load two-factor status');
+    }
+  };
+
+  useEffect(() => {
+    fetchStatus();
+  }, []);
+
+  const postJson = async <T,>(url: string, body?: unknown): Promise<T> => {
+    const response = await authFetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body ?? {}),
+    });
+
+    const data = await response.json() as T & { error?: string };
+    if (!response.ok) {
+      throw new Error(data.error || 'Request failed');
+    }
+
+    return data;
+  };
+
+  const run = async (action: () => Promise<void>) => {
+    setError('');
+    setBusy(true);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Request failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleStartEnrollment = () => run(async () => {
+    const data = await postJson<{ secret: string; otpauthUri: string }>('/api/auth/mfa/setup');
+    const qrCodeDataUrl = await QRCode.toDataURL(data.otpauthUri);
+    setRecoveryCodes(null);
+    setEnrollment({ secret: data.secret, qrCodeDataUrl });
+  });
+
+  const handleConfirmEnrollment = (e: React.FormEvent) => {
+    e.preventDefault();
+    return run(async () => {
+      const data = await postJson<{ recoveryCodes: string[] }>('/api/auth/mfa/confirm', { code });
+      setEnrollment(null);
+      setCode('');
+      setRecoveryCodes(data.recoveryCodes);
+      await fetchStatus();
+    });
+  };
+
+  const handlePasswordAction = (e: React.FormEvent) => {
+    e.preventDefault();
+    return run(async () => {
+      if (passwordAction === 'disable') {
+        await postJson('/api/auth/mfa/disable', { password });
+        setRecoveryCodes(null);
+      } else {
+        const data = await postJson<{ recoveryCodes: string[] }>('/api/auth/mfa/recovery-codes', { password });
+        setRecoveryCodes(data.recoveryCodes);
+      }
+      setPasswordAction(null);
+      setPassword('');
+      await fetchStatus();
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle>Two-Factor Authentication</CardTitle>
+            <CardDescription>
+              Require a code from an authenticator app in addition to your password
+            </CardDescription>
+          </div>
+          {status && (
+            <Badge variant={status.enabled ? 'default' : 'secondary'}>
+              {status.enabled ? 'Enabled' : 'Disabled'}
+            </Badge>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <div className="p-3 text-sm text-red-500 bg-red-50 border border-red-200 rounded-md">
+            {error}
+          </div>
+        )}
+
+        {recoveryCodes && (
+          <div className="p-4 text-sm bg-yellow-50 border border-yellow-200 rounded-md space-y-2">
+            <p className="font-medium text-yellow-800">
+              Save these recovery codes somewhere safe. Each code can be used once, and they won&apos;t be shown again.
+            </p>
+            <ul className="grid grid-cols-2 gap-1 font-mono">
+              {recoveryCodes.map((recoveryCode) => (
+                <li key={recoveryCode}>{recoveryCode}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {status && !status.enabled && !enrollment && (
+          <Button onClick={handleStartEnrollment} disabled={busy}>
+            {busy ? 'Starting...' : 'Enable Two-Factor Authentication'}
+          </Button>
+        )}
+
+        {enrollment && (
+          <form onSubmit={handleConfirmEnrollment} className="space-y-4">
+            <p className="text-sm text-gray-600">
+              Scan this QR code with your authenticator app, then enter the 6-digit code it shows.
+            </p>
+            {/* eslint-disable-next-line @next/next/no-img-element */}
+            <img src={enrollment.qrCodeDataUrl} alt="Authenticator QR code" className="h-48 w-48" />
+            <p className="text-xs text-gray-500">
+              Can&apos;t scan? Enter this key manually: <span className="font-mono">{enrollment.secret}</span>
+            </p>
+            <div className="space-y-2 max-w-xs">
+              <Label htmlFor="totpCode">Verification Code</Label>
+              <Input
+                id="totpCode"
+                type="text"
+                inputMode="numeric"
+                placeholder="123456"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                required
+                disabled={busy}
+                autoComplete="one-time-code"
+              />
+            </div>
+            <div className="flex gap-2">
+              <Button type="submit" disabled={busy}>
+                {busy ? 'Verifying...' : 'Confirm'}
+              </Button>
+              <Button type="button" variant="outline" onClick={() => setEnrollment(null)} disabled={busy}>
+                Cancel
+              </Button>
+            </div>
+          </form>
+        )}
+
+        {status?.enabled && !passwordAction && (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600">
+              {status.recoveryCodesRemaining} recovery code{status.recoveryCodesRemaining === 1 ? '' : 's'} remaining
+            </p>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={() => setPasswordAction('regenerate')}>
+                Regenerate Recovery Codes
+              </Button>
+              <Button variant="destructive" onClick={() => setPasswordAction('disable')}>
+                Disable
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {passwordAction && (
+          <form onSubmit={handlePasswordAction} className="space-y-4">
+            <div className="space-y-2 max-w-xs">
+              <Label htmlFor="mfaPassword">Confirm your password</Label>
+              <Input
+                id="mfaPassword"
+                type="password"
+                placeholder="••••••••"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                disabled={busy}
+                autoComplete="current-password"
+              />
+              <p className="text-xs text-gray-500">
+                Signed up with a sign-in provider? Sign out and back in, then leave this blank.
+              </p>
+            </div>
+            <div className="flex gap-2">
+              <Button
+                type="submit"
+                variant={passwordAction === 'disable' ? 'destructive' : 'default'}
+                disabled={busy}
+              >
+                {passwordAction === 'disable' ? 'Disable Two-Factor' : 'Regenerate Codes'}
+              </Button>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => {
+                  setPasswordAction(null);
+                  setPassword('');
+                }}
+                disabled={busy}
+              >
+                Cancel
+              </Button>
+            </div>
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,9 @@
+import { assertJwtConfiguration } from '@/lib/auth/jwt';
+
+/**
+ * Runs once when the server starts
+ * Refuses to boot with missing or insecure JWT signing keys.
+ */
+export async function register() {
+  await assertJwtConfiguration();
+}
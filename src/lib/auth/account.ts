@@ -0,0 +1,162 @@
+import { executeQuery, executeQueryFirst, executeMutation } from '@/lib/d1-client';
+import { sendEmail } from '@/lib/email';
+import { UserRepository } from '@/lib/repositories/user-repository';
+
+// How long a deletion request can be cancelled before the data is removed
+export const ACCOUNT_DELETION_GRACE_DAYS = 14;
+
+/**
+ * Everything stored about a user, as returned by the data export
+ * Secrets (password hash, token hashes, TOTP secret, passkey public keys) are left out.
+ * Rows are exported as stored, with their database column names.
+ */
+export interface UserDataExport {
+  exportedAt: string;
+  user: Record<string, unknown> | null;
+  sessions: Record<string, unknown>[];
+  knownDevices: Record<string, unknown>[];
+  securityEvents: Record<string, unknown>[];
+  linkedAccounts: Record<string, unknown>[];
+  passkeys: Record<string, unknown>[];
+  twoFactor: Record<string, unknown> | null;
+  apiTokens: Record<string, unknown>[];
+}
+
+/**
+ * Collect a user's personal data for export
+ * Tables holding content the user owns must be added here as they are introduced.
+ * @param db - D1 database instance
+ * @param userId - User to export
+ * @returns Export archive
+ */
+export async function exportUserData(
+  db: D1Database,
+  userId: string
+): Promise<UserDataExport> {
+  const user = await UserRepository.findExportRow(db, userId);
+
+  const sessions = await executeQuery<Record<string, unknown>>(
+    db,
+    `SELECT id, nickname, ip_address, user_agent, country, region, city, created_at, expires_at,
+            last_active_at, is_active
+     FROM sessions WHERE user_id = ? ORDER BY created_at DESC`,
+    [userId]
+  );
+
+  const knownDevices = await executeQuery<Record<string, unknown>>(
+    db,
+    `SELECT ip_address, user_agent, first_seen_at, last_seen_at
+     FROM known_devices WHERE user_id = ? ORDER BY first_seen_at`,
+    [userId]
+  );
+
+  const securityEvents = await executeQuery<Record<string, unknown>>(
+    db,
+    `SELECT id, event_type, email, session_id, metadata, ip_address, user_agent, created_at
+     FROM auth_events WHERE user_id = ? ORDER BY created_at DESC`,
+    [userId]
+  );
+
+  const linkedAccounts = await executeQuery<Record<string, unknown>>(
+    db,
+    `SELECT provider, email, created_at, last_login_at
+     FROM user_identities WHERE user_id = ? ORDER BY created_at`,
+    [userId]
+  );
+
+  const passkeys = await executeQuery<Record<string, unknown>>(
+    db,
+    `SELECT name, device_type, backed_up, created_at, last_used_at
+     FROM webauthn_credentials WHERE user_id = ? ORDER BY created_at`,
+    [userId]
+  );
+
+  const twoFactor = await executeQueryFirst<Record<string, unknown>>(
+    db,
+    'SELECT created_at, enabled_at FROM user_mfa WHERE user_id = ?',
+    [userId]
+  );
+
+  const apiTokens = await executeQuery<Record<string, unknown>>(
+    db,
+    `SELECT name, token_prefix, scopes, created_at, expires_at, last_used_at
+     FROM api_tokens WHERE user_id = ? ORDER BY created_at`,
+    [userId]
+  );
+
+  return {
+    exportedAt: new Date().toISOString(),
+    user,
+    sessions,
+    knownDevices,
+    securityEvents,
+    linkedAccounts,
+    passkeys,
+    twoFactor,
+    apiTokens,
+  };
+}
+
+/**
+ * Schedule a user's account for deletion after the grace period
+ * @param db - D1 database instance
+ * @param user - User requesting deletion
+ * @returns When the account will be deleted (ISO date)
+ */
+export async function scheduleAccountDeletion(
+  db: D1Database,
+  user: { id: string; email: string }
+): Promise<string> {
+  const deleteAfter = new Date(
+    Date.now() + ACCOUNT_DELETION_GRACE_DAYS * 24 * 60 * 60 * 1000
+  ).toISOString();
+
+  await UserRepository.setDeleteAfter(db, user.id, deleteAfter);
+
+  await sendEmail({
+    to: user.email,
+    subject: 'Your QuizMaker account is scheduled for deletion',
+    text: [
+      `Your QuizMaker account and all of its data will be deleted on ${new Date(deleteAfter).toUTCString()}.`,
+      '',
+      'Changed your mind? Sign in and open Account Settings to cancel the deletion.',
+    ].join('\n'),
+  });
+
+  return deleteAfter;
+}
+
+/**
+ * Cancel a pending account deletion
+ * @param db - D1 database instance
+ * @param userId - User whose deletion to cancel
+ */
+export async function cancelAccountDeletion(
+  db: D1Database,
+  userId: string
+): Promise<void> {
+  await UserRepository.setDeleteAfter(db, userId, null);
+}
+
+/**
+ * Hard-delete every account whose grace period is over
+ * Deleting the users row cascades to sessions, tokens and credentials. Auth
+ * events are kept as the security log (see migration 0019). Login lockouts are
+ * keyed by email rather than user, so they are removed here.
+ * @param db - D1 database instance
+ * @returns IDs of the accounts deleted
+ */
+export async function purgeDeletedAccounts(db: D1Database): Promise<string[]> {
+  const due = await UserRepository.listDueForDeletion(db, new Date().toISOString());
+
+  for (const user of due) {
+    await UserRepository.deleteById(db, user.id);
+    await executeMutation(
+      db,
+      'DELETE FROM login_attempts WHERE throttle_key = ?',
+      [`email:${user.email}`]
+    );
+  }
+
+  return due.map((user) => user.id);
+}
@@ -0,0 +1,140 @@
+import { executeQuery, executeQueryFirst } from '@/lib/d1-client';
+import type { Role } from '@/lib/auth/rbac';
+
+// Page size for the admin user list
+export const ADMIN_USERS_PAGE_SIZE = 25;
+
+// Highest page number accepted, keeping OFFSET well within SQLite's integer range
+const ADMIN_USERS_MAX_PAGE = 10_000;
+
+export interface AdminUser {
+  id: string;
+  email: string;
+  fullName: string;
+  role: Role;
+  isActive: boolean;
+  emailVerified: boolean;
+  createdAt: string;
+  lastLoginAt: string | null;
+  lockedUntil: string | null;
+  deleteAfter: string | null;
+}
+
+interface AdminUserRow {
+  id: string;
+  email: string;
+  full_name: string;
+  role: Role;
+  is_active: number;
+  email_verified_at: string | null;
+  created_at: string;
+  last_login_at: string | null;
+  locked_until: string | null;
+  delete_after: string | null;
+}
+
+// Users joined with their per-account login lockout (see login-throttle.ts)
+const ADMIN_USER_SELECT = `
+  SELECT u.id, u.email, u.full_name, u.role, u.is_active, u.email_verified_at,
+         u.created_at, u.last_login_at, u.delete_after,
+         CASE WHEN la.locked_until > ? THEN la.locked_until END AS locked_until
+  FROM users u
+  LEFT JOIN login_attempts la ON la.throttle_key = 'email:' || u.email`;
+
+/**
+ * Map a database row to the admin API shape
+ * @param row - Joined user row
+ * @returns Admin user
+ */
+function toAdminUser(row: AdminUserRow): AdminUser {
+  return {
+    id: row.id,
+    email: row.email,
+    fullName: row.full_name,
+    role: row.role,
+    isActive: row.is_active !== 0,
+    emailVerified: !!row.email_verified_at,
+    createdAt: row.created_at,
+    lastLoginAt: row.last_login_at,
+    lockedUntil: row.locked_until,
+    deleteAfter: row.delete_after,
+  };
+}
+
+/**
+ * Parse a page number from a query string
+ * @param value - Raw value, e.g. from ?page=
+ * @returns Page number from 1 to ADMIN_USERS_MAX_PAGE; 1 if missing or not a positive integer
+ */
+export function parsePageNumber(value: string | null): number {
+  if (!value || !/^\d+$/.test(value)) {
+    return 1;
+  }
+
+  return Math.min(Math.max(1, Number(value)), ADMIN_USERS_MAX_PAGE);
+}
+
+/**
+ * Escape LIKE wildcards so search text matches literally
+ * @param text - Search text
+ * @returns Text with %, _ and the escape character escaped for ESCAPE '\'
+ */
+function escapeLike(text: string): string {
+  return text.replace(/[\\%_]/g, (char) => `\\${char}`);
+}
+
+/**
+ * List users for the admin console, optionally filtered by email or name
+ * @param db - D1 database instance
+ * @param options - Search text and page number (1-based)
+ * @returns One page of users (newest first) and the total match count
+ */
+export async function listUsers(
+  db: D1Database,
+  options: {
+    query?: string;
+    page?: number;
+  } = {}
+): Promise<{ users: AdminUser[]; total: number }> {
+  const page = Math.min(Math.max(1, Math.floor(options.page || 1)), ADMIN_USERS_MAX_PAGE);
+  const pattern = `%${escapeLike((options.query || '').trim().toLowerCase())}%`;
+  const now = new Date().toISOString();
+
+  const rows = await executeQuery<AdminUserRow>(
+    db,
+    `${ADMIN_USER_SELECT}
+     WHERE lower(u.email) LIKE ? ESCAPE '\\' OR lower(u.full_name) LIKE ? ESCAPE '\\'
+     ORDER BY u.created_at DESC
+     LIMIT ? OFFSET ?`,
+    [now, pattern, pattern, ADMIN_USERS_PAGE_SIZE, (page - 1) * ADMIN_USERS_PAGE_SIZE]
+  );
+
+  const count = await executeQueryFirst<{ total: number }>(
+    db,
+    `SELECT COUNT(*) AS total FROM users u
+     WHERE lower(u.email) LIKE ? ESCAPE '\\' OR lower(u.full_name) LIKE ? ESCAPE '\\'`,
+    [pattern, pattern]
+  );
+
+  return { users: rows.map(toAdminUser), total: count?.total || 0 };
+}
+
+/**
+ * Get a single user for the admin console
+ * @param db - D1 database instance
+ * @param userId - User ID
+ * @returns User or null if not found
+ */
+export async function getAdminUser(
+  db: D1Database,
+  userId: string
+): Promise<AdminUser | null> {
+  const row = await executeQueryFirst<AdminUserRow>(
+    db,
+    `${ADMIN_USER_SELECT}
+     WHERE u.id = ?`,
+    [new Date().toISOString(), userId]
+  );
+
+  return row ? toAdminUser(row) : null;
+}
@@ -0,0 +1,218 @@
+import { hashToken, generateSecureToken } from '@/lib/auth/tokens';
+import { hasPermission, type Role } from '@/lib/auth/rbac';
+import { executeQuery, executeQueryFirst, executeMutation } from '@/lib/d1-client';
+
+// Marks a Bearer credential as a personal access token rather than an access JWT
+export const API_TOKEN_PREFIX = 'qm_pat_';
+
+// How many characters of the token are kept for display ("qm_pat_1a2b…")
+const DISPLAY_PREFIX_LENGTH = API_TOKEN_PREFIX.length + 6;
+
+export type ApiScope =
+  | 'profile:read' // read the token owner's profile (/api/auth/me)
+  | 'mcqs:read'
+  | 'mcqs:manage'
+  | 'users:read'
+  | 'users:manage';
+
+export const API_SCOPES: ApiScope[] = [
+  'profile:read',
+  'mcqs:read',
+  'mcqs:manage',
+  'users:read',
+  'users:manage',
+];
+
+// Expiry choices offered when creating a token (null = never expires)
+export const API_TOKEN_EXPIRY_DAYS = [7, 30, 90, 365, null] as const;
+
+interface ApiTokenRow {
+  id: string;
+  user_id: string;
+  name: string;
+  token_prefix: string;
+  scopes: string;
+  created_at: string;
+  expires_at: string | null;
+  last_used_at: string | null;
+}
+
+export interface ApiToken {
+  id: string;
+  userId: string;
+  name: string;
+  tokenPrefix: string;
+  scopes: ApiScope[];
+  createdAt: string;
+  expiresAt: string | null;
+  lastUsedAt: string | null;
+}
+
+/**
+ * Map an api_tokens row to an ApiToken
+ * @param row - Database row
+ * @returns API token (never includes the secret)
+ */
+function toApiToken(row: ApiTokenRow): ApiToken {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    name: row.name,
+    tokenPrefix: row.token_prefix,
+    scopes: JSON.parse(row.scopes) as ApiScope[],
+    createdAt: row.created_at,
+    expiresAt: row.expires_at,
+    lastUsedAt: row.last_used_at,
+  };
+}
+
+/**
+ * Check that a value is a known scope
+ * @param value - Value to check (e.g. a request body field)
+ * @returns True if value is an ApiScope
+ */
+export function isApiScope(value: unknown): value is ApiScope {
+  return typeof value === 'string' && (API_SCOPES as string[]).includes(value);
+}
+
+/**
+ * Check whether a role may grant a scope to its tokens
+ * Tokens can never do more than their owner; `profile:read` is open to everyone.
+ * @param role - Token owner's role
+ * @param scope - Scope to check
+ * @returns True if the role may use the scope
+ */
+export function canGrantScope(role: Role, scope: ApiScope): boolean {
+  return scope === 'profile:read' || hasPermission(role, scope);
+}
+
+/**
+ * Check whether a Bearer credential is a personal access token
+ * @param token - Raw credential
+ * @returns True if it has the personal access token prefix
+ */
+export function isApiToken(token: string): boolean {
+  return token.startsWith(API_TOKEN_PREFIX);
+}
+
+/**
+ * Create a personal access token
+ * @param db - D1 database instance
+ * @param userId - Owning user
+ * @param details - Label, granted scopes and optional expiry
+ * @returns The token (shown to the user once) and its stored record
+ */
+export async function createApiToken(
+  db: D1Database,
+  userId: string,
+  details: {
+    name: string;
+    scopes: ApiScope[];
+    expiresAt: string | null;
+  }
+): Promise<{ token: string; apiToken: ApiToken }> {
+  const token = `${API_TOKEN_PREFIX}${generateSecureToken()}`;
+  const id = crypto.randomUUID();
+  const now = new Date().toISOString();
+
+  const row: ApiTokenRow = {
+    id,
+    user_id: userId,
+    name: details.name,
+    token_prefix: token.slice(0, DISPLAY_PREFIX_LENGTH),
+    scopes: JSON.stringify(details.scopes),
+    created_at: now,
+    expires_at: details.expiresAt,
+    last_used_at: null,
+  };
+
+  await executeMutation(
+    db,
+    `INSERT INTO api_tokens (id, user_id, name, token_hash, token_prefix, scopes, created_at, expires_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+    [id, userId, row.name, await hashToken(token), row.token_prefix, row.scopes, now, row.expires_at]
+  );
+
+  return { token, apiToken: toApiToken(row) };
+}
+
+/**
+ * Get all personal access tokens of a user
+ * @param db - D1 database instance
+ * @param userId - User ID
+ * @returns Array of tokens, newest first
+ */
+export async function getUserApiTokens(
+  db: D1Database,
+  userId: string
+): Promise<ApiToken[]> {
+  const rows = await executeQuery<ApiTokenRow>(
+    db,
+    `SELECT id, user_id, name, token_prefix, scopes, created_at, expires_at, last_used_at
+     FROM api_tokens WHERE user_id = ? ORDER BY created_at DESC`,
+    [userId]
+  );
+
+  return rows.map(toApiToken);
+}
+
+/**
+ * Look up a presented personal access token and record its use
+ * @param db - D1 database instance
+ * @param token - Token from the Authorization header
+ * @returns Token record, or null if unknown or expired
+ */
+export async function findApiToken(
+  db: D1Database,
+  token: string
+): Promise<ApiToken | null> {
+  const row = await executeQueryFirst<ApiTokenRow>(
+    db,
+    `SELECT id, user_id, name, token_prefix, scopes, created_at, expires_at, last_used_at
+     FROM api_tokens WHERE token_hash = ?`,
+    [await hashToken(token)]
+  );
+
+  if (!row || (row.expires_at && new Date() > new Date(row.expires_at))) {
+    return null;
+  }
+
+  await executeMutation(
+    db,
+    'UPDATE api_tokens SET last_used_at = ? WHERE id = ?',
+    [new Date().toISOString(), row.id]
+  );
+
+  return toApiToken(row);
+}
+
+/**
+ * Revoke (delete) one of a user's personal access tokens
+ * @param db - D1 database instance
+ * @param userId - Owning user (security check)
+ * @param tokenId - Token to revoke
+ * @returns True if a token was revoked
+ */
+export async function revokeApiToken(
+  db: D1Database,
+  userId: string,
+  tokenId: string
+): Promise<boolean> {
+  const existing = await executeQueryFirst<{ id: string }>(
+    db,
+    'SELECT id FROM api_tokens WHERE id = ? AND user_id = ?',
+    [tokenId, userId]
+  );
+
+  if (!existing) {
+    return false;
+  }
+
+  await executeMutation(
+    db,
+    'DELETE FROM api_tokens WHERE id = ? AND user_id = ?',
+    [tokenId, userId]
+  );
+
+  return true;
+}
@@ -0,0 +1,137 @@
+import { NextRequest } from 'next/server';
+import { executeQuery, executeMutation } from '@/lib/d1-client';
+import { getClientIp, getUserAgent } from '@/lib/auth/request';
+
+export type AuthEventType =
+  | 'signup'
+  | 'login_success'
+  | 'login_failure'
+  | 'logout'
+  | 'logout_all'
+  | 'session_revoked'
+  | 'new_device_alert_sent'
+  | 'new_device_session_revoked'
+  | 'refresh_token_reused'
+  | 'password_reset_requested'
+  | 'password_reset'
+  | 'password_changed'
+  | 'profile_updated'
+  | 'email_change_requested'
+  | 'email_changed'
+  | 'data_exported'
+  | 'account_deletion_scheduled'
+  | 'account_deletion_cancelled'
+  | 'email_verification_sent'
+  | 'email_verified'
+  | 'mfa_enabled'
+  | 'mfa_disabled'
+  | 'mfa_recovery_codes_regenerated'
+  | 'passkey_added'
+  | 'passkey_removed'
+  | 'api_token_created'
+  | 'api_token_revoked'
+  | 'admin_user_deactivated'
+  | 'admin_user_activated'
+  | 'admin_role_changed'
+  | 'admin_sessions_revoked'
+  | 'admin_password_reset_sent'
+  | 'admin_login_unlocked'
+  | 'admin_account_purged';
+
+export interface AuthEvent {
+  id: string;
+  type: AuthEventType;
+  actorId: string | null;
+  sessionId: string | null;
+  ipAddress: string | null;
+  userAgent: string | null;
+  metadata: Record<string, unknown> | null;
+  createdAt: string;
+}
+
+interface AuthEventRow {
+  id: string;
+  event_type: AuthEventType;
+  actor_id: string | null;
+  session_id: string | null;
+  ip_address: string | null;
+  user_agent: string | null;
+  metadata: string | null;
+  created_at: string;
+}
+
+/**
+ * Record an authentication event
+ * Failures are logged and swallowed so auditing never breaks sign-in.
+ * @param db - D1 database instance
+ * @param request - Incoming request (for IP and user agent)
+ * @param event - Event type, subject user, acting admin (if any) and details
+ */
+export async function recordAuthEvent(
+  db: D1Database,
+  request: NextRequest,
+  event: {
+    type: AuthEventType;
+    userId?: string | null;
+    actorId?: string;
+    email?: string;
+    sessionId?: string | null;
+    metadata?: Record<string, unknown>;
+  }
+): Promise<void> {
+  try {
+    await executeMutation(
+      db,
+      `INSERT INTO auth_events (id, user_id, actor_id, event_type, email, session_id, metadata, ip_address, user_agent, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        crypto.randomUUID(),
+        event.userId || null,
+        event.actorId || null,
+        event.type,
+        event.email ? event.email.toLowerCase() : null,
+        event.sessionId || null,
+        event.metadata ? JSON.stringify(event.metadata) : null,
+        getClientIp(request),
+        getUserAgent(request) || null,
+        new Date().toISOString(),
+      ]
+    );
+  } catch (error) {
+    console.error('Error recording auth event:', error);
+  }
+}
+
+/**
+ * Get a user's recent authentication events
+ * @param db - D1 database instance
+ * @param userId - User ID
+ * @param limit - Maximum number of events (default 100)
+ * @returns Events, newest first
+ */
+export async function getUserAuthEvents(
+  db: D1Database,
+  userId: string,
+  limit: number = 100
+): Promise<AuthEvent[]> {
+  const rows = await executeQuery<AuthEventRow>(
+    db,
+    `SELECT id, event_type, actor_id, session_id, ip_address, user_agent, metadata, created_at
+     FROM auth_events
+     WHERE user_id = ?
+     ORDER BY created_at DESC
+     LIMIT ?`,
+    [userId, limit]
+  );
+
+  return rows.map((row) => ({
+    id: row.id,
+    type: row.event_type,
+    actorId: row.actor_id,
+    sessionId: row.session_id,
+    ipAddress: row.ip_address,
+    userAgent: row.user_agent,
+    metadata: row.metadata ? JSON.parse(row.metadata) as Record<string, unknown> : null,
+    createdAt: row.created_at,
+  }));
+}
@@ -2,21 +2,36 @@
 
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
 import { useRouter } from 'next/navigation';
+import { startAuthentication, type PublicKeyCredentialRequestOptionsJSON } from '@simplewebauthn/browser';
+import { authFetch, csrfFetch, refreshSession } from '@/lib/auth/auth-fetch';
+import type { Role } from '@/lib/auth/rbac';
+
+// Refresh a little before the 15-minute access token runs out
+const REFRESH_INTERVAL_MS = 10 * 60 * 1000;
 
 interface User {
   id: string;
   email: string;
   fullName: string;
+  emailVerified: boolean;
+  role: Role;
   createdAt: string;
 }
 
+export type LoginResult =
+  | { mfaRequired: false }
+  | { mfaRequired: true; challengeToken: string };
+
 interface AuthContextType {
   user: User | null;
   loading: boolean;
-  login: (email: string, password: string) => Promise<void>;
+  login: (email: string, password: string) => Promise<LoginResult>;
+  verifyMfa: (challengeToken: string | null, code: string) => Promise<void>;
+  loginWithPasskey: () => Promise<void>;
   signup: (email: string, password: string, fullName: string) => Promise<void>;
   logout: () => Promise<void>;
   checkAuth: () => Promise<void>;
+  resendVerificationEmail: () => Promise<void>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -32,9 +47,7 @@ export function AuthProvider({ children }: AuthProviderProps) {
 
   const checkAuth = async () => {
     try {
-      const response = await fetch('/api/auth/me', {
-        credentials: 'include',
-      });
+      const response = await authFetch('/api/auth/me');
 
       if (response.ok) {
         const data = await response.json() as { user: User };
@@ -50,12 +63,11 @@ export function AuthProvider({ children }: AuthProviderProps) {
     }
   };
 
-  const login = async (email: string, password: string) => {
-    const response = await fetch('/api/auth/login', {
+  const login = async (email: string, password: string): Promise<LoginResult> => {
+    const response = await csrfFetch('/api/auth/login', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({ email, password }),
-      credentials: 'include',
     });
 
     if (!response.ok) {
@@ -63,16 +75,70 @@ export function AuthProvider({ children }: AuthProviderProps) {
       throw new Error(error.error || 'Login failed');
     }
 
+    const data = await response.json() as
+      | { status: 'mfa_required'; challengeToken: string }
+      | { status?: undefined; user: User };
+
+    // Password accepted but a second factor is needed before a session exists
+    if (data.status === 'mfa_required') {
+      return { mfaRequired: true, challengeToken: data.challengeToken };
+    }
+
+    setUser(data.user);
+    return { mfaRequired: false };
+  };
+
+  const verifyMfa = async (challengeToken: string | null, code: string) => {
+    // Without a token, the route uses the challenge cookie set by an external sign-in
+    const response = await csrfFetch('/api/auth/login/mfa', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ challengeToken: challengeToken ?? undefined, code }),
+    });
+
+    if (!response.ok) {
+      const error = await response.json() as { error: string };
+      throw new Error(error.error || 'Verification failed');
+    }
+
+    const data = await response.json() as { user: User };
+    setUser(data.user);
+  };
+
+  const loginWithPasskey = async () => {
+    const optionsResponse = await csrfFetch('/api/auth/passkeys/login/options', {
+      method: 'POST',
+    });
+
+    if (!optionsResponse.ok) {
+      throw new Error('Passkey login is unavailable');
+    }
+
+    const { options } = await optionsResponse.json() as { options: PublicKeyCredentialRequestOptionsJSON };
+
+    // Prompts the platform authenticator (Touch ID, Windows Hello, phone, ...)
+    const assertion = await startAuthentication({ optionsJSON: options });
+
+    const response = await csrfFetch('/api/auth/passkeys/login/verify', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ response: assertion }),
+    });
+
+    if (!response.ok) {
+      const error = await response.json() as { error: string };
+      throw new Error(error.error || 'Passkey login failed');
+    }
+
     const data = await response.json() as { user: User };
     setUser(data.user);
   };
 
   const signup = async (email: string, password: string, fullName: string) => {
-    const response = await fetch('/api/auth/signup', {
+    const response = await csrfFetch('/api/auth/signup', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({ email, password, fullName }),
-      credentials: 'include',
     });
 
     if (!response.ok) {
@@ -86,9 +152,8 @@ export function AuthProvider({ children }: AuthProviderProps) {
 
   const logout = async () => {
     try {
-      await fetch('/api/auth/logout', {
+      await csrfFetch('/api/auth/logout', {
         method: 'POST',
-        credentials: 'include',
       });
     } catch (error) {
       console.error('Logout failed:', error);
@@ -98,12 +163,38 @@ export function AuthProvider({ children }: AuthProviderProps) {
     }
   };
 
+  const resendVerificationEmail = async () => {
+    const response = await authFetch('/api/auth/verify-email/resend', {
+      method: 'POST',
+    });
+
+    if (!response.ok) {
+      const error = await response.json() as { error: string };
+      throw new Error(error.error || 'Failed to resend verification email');
+    }
+  };
+
   useEffect(() => {
     checkAuth();
   }, []);
 
+  // Keep the access token fresh while signed in
+  useEffect(() => {
+    if (!user) {
+      return;
+    }
+
+    const interval = setInterval(async () => {
+      if (!await refreshSession()) {
+        setUser(null);
+      }
+    }, REFRESH_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [user]);
+
   return (
-    <AuthContext.Provider value={{ user, loading, login, signup, logout, checkAuth }}>
+    <AuthContext.Provider value={{ user, loading, login, verifyMfa, loginWithPasskey, signup, logout, checkAuth, resendVerificationEmail }}>
       {children}
     </AuthContext.Provider>
   );
@@ -0,0 +1,90 @@
+'use client';
+
+import { CSRF_COOKIE, CSRF_HEADER } from '@/lib/auth/csrf';
+
+let refreshPromise: Promise<boolean> | null = null;
+
+/**
+ * Read the CSRF token the server left in its (non HTTP-only) cookie
+ * @returns Token, or null if the cookie has not been issued yet
+ */
+function readCsrfToken(): string | null {
+  const match = document.cookie
+    .split('; ')
+    .find((cookie) => cookie.startsWith(`${CSRF_COOKIE}=`));
+
+  return match ? decodeURIComponent(match.slice(CSRF_COOKIE.length + 1)) : null;
+}
+
+/**
+ * Send a request once with the current CSRF token attached
+ * @param input - Request URL
+ * @param init - Request options
+ * @returns Response
+ */
+function sendWithCsrfToken(input: string, init: RequestInit): Promise<Response> {
+  const headers = new Headers(init.headers);
+  const token = readCsrfToken();
+  if (token) {
+    headers.set(CSRF_HEADER, token);
+  }
+
+  return fetch(input, { ...init, headers, credentials: 'include' });
+}
+
+/**
+ * fetch() for any same-origin API route, with the CSRF token attached
+ * If the token cookie was missing, the 403 response issues one and the request is retried.
+ * @param input - Request URL
+ * @param init - Request options (credentials are always included)
+ * @returns Response from the final attempt
+ */
+export async function csrfFetch(input: string, init: RequestInit = {}): Promise<Response> {
+  const hadToken = readCsrfToken() !== null;
+  const response = await sendWithCsrfToken(input, init);
+
+  if (response.status === 403 && !hadToken && readCsrfToken() !== null) {
+    return sendWithCsrfToken(input, init);
+  }
+
+  return response;
+}
+
+/**
+ * Rotate the refresh token and obtain a new access token
+ * Concurrent callers share one request so a token is never presented twice.
+ * @returns True if the session was refreshed
+ */
+export function refreshSession(): Promise<boolean> {
+  if (!refreshPromise) {
+    refreshPromise = csrfFetch('/api/auth/refresh', {
+      method: 'POST',
+    })
+      // 409: another tab refreshed at the same moment and its cookies are current
+      .then((response) => response.ok || response.status === 409)
+      .catch(() => false)
+      .finally(() => {
+        refreshPromise = null;
+      });
+  }
+
+  return refreshPromise;
+}
+
+/**
+ * fetch() for authenticated API routes
+ * Attaches the CSRF token; on a 401 the session is refreshed once and the request retried.
+ * @param input - Request URL
+ * @param init - Request options (credentials are always included)
+ * @returns Response from the final attempt
+ */
+export async function authFetch(input: string, init: RequestInit = {}): Promise<Response> {
+  const response = await csrfFetch(input, init);
+
+  if (response.status !== 401) {
+    return response;
+  }
+
+  const refreshed = await refreshSession();
+  return refreshed ? csrfFetch(input, init) : response;
+}
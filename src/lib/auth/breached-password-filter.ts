@@ -0,0 +1,24 @@
+// Generated by scripts/build-breached-filter.mjs from scripts/breached-passwords.txt.
+// Do not edit by hand; run `npm run passwords:filter` instead.
+
+// Bloom filter of 301 lower-cased breached passwords
+export const BREACHED_PASSWORD_FILTER = {
+  size: 8656, // Bits
+  hashes: 20,
+  bits:
+    'vqzc9rbPPEGLrM2bATnsFPJXdM0WD1MOoW8PQghqx93N+7DwOhRP4VZdHyeDA2LsJGxINRH6+AIB5oeid9NF3HlhYinQeZCrF9Gs' +
+    'XbryYlyLGdd6olba5ejGcd0IE1bnsc2bQQPuxiLKdRSCplJPUKE6ScVMv45qM8VzRjlOMR/ggCci57+q4fIHE+0FignEWB6QbImH' +
+    'HnY0rcUnmfXkTCqH1zL8McqBrM+rvIxlBgiP/lhrr43nbtwyR3CYkghqYKp7Fvl4XKFj/vNp99xZnc1LXhBYX+zbeVAFSbd0cONF' +
+    'V6NDqIpjx0wcBrnIwl/c6/6SHer8O/xL5Yv2OYzJl70ufHb5jQZLzxiITN7GkQ9c7iqGSzRybzkplkSetr+A2EZo6x29fHd4YNdC' +
+    'ytZ6iAqORKtFy3UN/M53s5km9L5Q4cQ99pfMti00xTWxI2jEnA+68VKoYegSmftnECErzEYiUeUuGcF7/O1aILbCZpFt/nYFxA4n' +
+    'mU8nrW8PPlqSO++KRC2H2bxdOCQsPjtP6eXipMY565tTiR7ZAm8VyxR6aKU8+gQ0eIRE5dvnxAsT0Ss5HPyiOD4qXykVuzocm6ze' +
+    'gCwvWeb5VntkL2NFIJMTX4VcW0iIdjHx22Djb7tW+tKhIDS9aM+zCJT0+9sTmKWPBfi3/Ao1IqIWhgLgW4AQ/XW6TsC/4gk+9TUH' +
+    '0tJN07q9kzC7CHhubJdg1qF65ccQmbmnq4u1wWhWVodE0Stq8TDGkyXqUa642Wdmg4jBBwBYbh95pppEBvKf/CELoc5NZ5RKm0oF' +
+    '0WHZ75vqETacM+OmQFaJV9BedBExOEKUSi4yRcVWBv2d43LheAO7ebVr6pqXyV/GQntp1Ym5fTr9+tyvTqTlAM2tvRm0iCApFoMu' +
+    'Ezl+OzkI7wlc1QEfve56Zj91Iug2ALvHHlyguOiTUPU4IOeE7dFoLoUlFyd02r8Rj4EKCSp8AZ0/Rbnfi5/oADua95RFjboEfMLT' +
+    '0Lhnt0xuJtEhqskY3Y84mgWPsMX5sG20sws3ZZ32jaoioP8EJqoithPv3HnfUkXELSEtiOC86wtO+HrXVk9pv8c2vl//HoQkrMMf' +
+    'XiscxukrXz1kP/G+sKXBtc25iJlPwnVQVUNwNhrY6s1vUIKfZNcqvMi2stq9zwQrcvkCavZ7tW64OFC8Z99ifNdTkwkiSCa4ReDD' +
+    '8GGAAZ2LdJbgPBQ1TCaVVpTKDtcH4OlzLRg46201knGYsj/d4i8Fq2oq+zoq4J4Ce7R3GOHwk4xkymFjTAxr0Et9foKdi3OueOuV' +
+    'MN0OBVRnN8aXpD0SrIoBcUGmE5MAS1r8H/GNeho4OK9cJbchSSOcAEp78E7qaWUcjq0pkDoXrhUHulHEq5JBXb355XiiFWU8qi7P' +
+    '7Jkwddb/EFVA4EhDiXAa+g/18vH/+ITrsd3VWDVjgP4=',
+};
@@ -0,0 +1,45 @@
+import { NextResponse } from 'next/server';
+import { ACCESS_TOKEN_TTL_SECONDS } from '@/lib/auth/jwt';
+
+export const ACCESS_TOKEN_COOKIE = 'auth-token';
+export const REFRESH_TOKEN_COOKIE = 'refresh-token';
+
+// Matches the session lifetime; the refresh token is rotated on every use
+export const REFRESH_TOKEN_MAX_AGE_SECONDS = 60 * 60 * 24 * 7; // 7 days
+
+export interface SessionTokens {
+  accessToken: string;
+  refreshToken: string;
+}
+
+/**
+ * Set the HTTP-only access and refresh token cookies on a response
+ * @param response - Response to attach the cookies to
+ * @param tokens - Signed access JWT and opaque refresh token
+ */
+export function setAuthCookies(response: NextResponse, tokens: SessionTokens): void {
+  response.cookies.set(ACCESS_TOKEN_COOKIE, tokens.accessToken, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    maxAge: ACCESS_TOKEN_TTL_SECONDS,
+    path: '/',
+  });
+
+  response.cookies.set(REFRESH_TOKEN_COOKIE, tokens.refreshToken, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    maxAge: REFRESH_TOKEN_MAX_AGE_SECONDS,
+    path: '/',
+  });
+}
+
+/**
+ * Clear both auth cookies on a response
+ * @param response - Response to clear the cookies on
+ */
+export function clearAuthCookies(response: NextResponse): void {
+  response.cookies.delete(ACCESS_TOKEN_COOKIE);
+  response.cookies.delete(REFRESH_TOKEN_COOKIE);
+}
@@ -0,0 +1,165 @@
+import {
+  executeQueryFirst,
+  executeMutation,
+  executeBatch,
+  isUniqueConstraintError,
+  type BatchResult,
+} from '@/lib/d1-client';
+import { generateSecureToken, hashToken } from '@/lib/auth/tokens';
+import { sendEmail } from '@/lib/email';
+import { UserRepository } from '@/lib/repositories/user-repository';
+
+// Confirmation links are valid for 24 hours
+const EMAIL_CHANGE_TOKEN_TTL_MS = 24 * 60 * 60 * 1000;
+
+interface EmailChangeTokenRow {
+  id: string;
+  user_id: string;
+  old_email: string;
+  new_email: string;
+  expires_at: string;
+  used_at: string | null;
+}
+
+export type EmailChangeResult =
+  | { status: 'changed'; userId: string; oldEmail: string; newEmail: string }
+  | { status: 'email_taken' } // someone registered the address after the request
+  | { status: 'invalid' }; // unknown, used, expired or superseded link
+
+/**
+ * Issue an email change token and send the confirmation link to the new address
+ * Any previously requested, unconfirmed change is cancelled. The current address
+ * is told about the request so an unexpected change can be noticed.
+ * @param db - D1 database instance
+ * @param user - User requesting the change, with their current address
+ * @param newEmail - Requested new address (lowercased)
+ * @param origin - Application origin used to build the link
+ */
+export async function requestEmailChange(
+  db: D1Database,
+  user: { id: string; email: string },
+  newEmail: string,
+  origin: string
+): Promise<void> {
+  const token = generateSecureToken();
+  const now = new Date().toISOString();
+  const expiresAt = new Date(Date.now() + EMAIL_CHANGE_TOKEN_TTL_MS).toISOString();
+
+  await executeMutation(
+    db,
+    'UPDATE email_change_tokens SET used_at = ? WHERE user_id = ? AND used_at IS NULL',
+    [now, user.id]
+  );
+
+  await executeMutation(
+    db,
+    `INSERT INTO email_change_tokens (id, user_id, old_email, new_email, token_hash, created_at, expires_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?)`,
+    [crypto.randomUUID(), user.id, user.email, newEmail, await hashToken(token), now, expiresAt]
+  );
+
+  const confirmUrl = new URL('/confirm-email', origin);
+  confirmUrl.searchParams.set('token', token);
+
+  await sendEmail({
+    to: newEmail,
+    subject: 'Confirm your new QuizMaker email address',
+    text: [
+      'You asked to use this address for your QuizMaker account.',
+      '',
+      `Confirm the change: ${confirmUrl.toString()}`,
+      '',
+      'This link expires in 24 hours. If you did not ask for this, ignore this email.',
+    ].join('\n'),
+  });
+
+  await sendEmail({
+    to: user.email,
+    subject: 'Your QuizMaker email address is being changed',
+    text: [
+      `A request was made to change your QuizMaker email address to ${newEmail}.`,
+      '',
+      'The change only happens once the new address is confirmed.',
+      'If this was not you, change your password and sign out of all devices.',
+    ].join('\n'),
+  });
+}
+
+/**
+ * Redeem an email change token and switch the user to the new address
+ * The new address counts as verified, since the link proves control of it.
+ * @param db - D1 database instance
+ * @param token - Plain token from the emailed link
+ * @returns Outcome of the change
+ */
+export async function consumeEmailChangeToken(
+  db: D1Database,
+  token: string
+): Promise<EmailChangeResult> {
+  const tokenHash = await hashToken(token);
+
+  const row = await executeQueryFirst<EmailChangeTokenRow>(
+    db,
+    `SELECT id, user_id, old_email, new_email, expires_at, used_at
+     FROM email_change_tokens
+     WHERE token_hash = ?`,
+    [tokenHash]
+  );
+
+  if (!row || row.used_at || new Date() > new Date(row.expires_at)) {
+    return { status: 'invalid' };
+  }
+
+  const user = await UserRepository.findById(db, row.user_id);
+
+  // The address changed some other way since the link was sent
+  if (!user || row.old_email !== user.email) {
+    return { status: 'invalid' };
+  }
+
+  const existing = await UserRepository.findByEmail(db, row.new_email);
+
+  if (existing) {
+    return { status: 'email_taken' };
+  }
+
+  const now = new Date().toISOString();
+
+  // Spend the token and change the address together, so a failed change leaves
+  // the link usable. A concurrent request that claimed the token first has also
+  // changed the address, so the second statement then matches nothing.
+  let results: BatchResult[];
+  try {
+    results = await executeBatch(db, [
+      {
+        sql: 'UPDATE email_change_tokens SET used_at = ? WHERE id = ? AND used_at IS NULL',
+        params: [now, row.id],
+      },
+      UserRepository.setEmailStatement(row.user_id, row.new_email, now, row.old_email),
+    ]);
+  } catch (error) {
+    // Another account took the address after the check above
+    if (isUniqueConstraintError(error)) {
+      return { status: 'email_taken' };
+    }
+    throw error;
+  }
+
+  if (results[0].changes === 0 || results[1].changes === 0) {
+    return { status: 'invalid' };
+  }
+
+  // Verification links sent to the old address no longer apply
+  await executeMutation(
+    db,
+    'UPDATE email_verification_tokens SET used_at = ? WHERE user_id = ? AND used_at IS NULL',
+    [now, row.user_id]
+  );
+
+  return {
+    status: 'changed',
+    userId: row.user_id,
+    oldEmail: row.old_email,
+    newEmail: row.new_email,
+  };
+}
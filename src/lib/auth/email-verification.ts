@@ -0,0 +1,152 @@
+import { executeQueryFirst, executeMutation } from '@/lib/d1-client';
+import { generateSecureToken, hashToken } from '@/lib/auth/tokens';
+import { sendEmail } from '@/lib/email';
+import { UserRepository } from '@/lib/repositories/user-repository';
+
+// Verification links are valid for 24 hours
+const VERIFICATION_TOKEN_TTL_MS = 24 * 60 * 60 * 1000;
+
+// Minimum delay between two verification emails for the same user
+const RESEND_COOLDOWN_MS = 60 * 1000;
+
+/**
+ * Issue a new email verification token for a user
+ * Any previously issued, unused tokens for the user are invalidated.
+ * @param db - D1 database instance
+ * @param userId - User whose address is being verified
+ * @param email - Address the token is bound to
+ * @returns Plain verification token (only the hash is stored)
+ */
+export async function createEmailVerificationToken(
+  db: D1Database,
+  userId: string,
+  email: string
+): Promise<string> {
+  const token = generateSecureToken();
+  const tokenHash = await hashToken(token);
+  const now = new Date().toISOString();
+  const expiresAt = new Date(Date.now() + VERIFICATION_TOKEN_TTL_MS).toISOString();
+
+  await executeMutation(
+    db,
+    'UPDATE email_verification_tokens SET used_at = ? WHERE user_id = ? AND used_at IS NULL',
+    [now, userId]
+  );
+
+  await executeMutation(
+    db,
+    `INSERT INTO email_verification_tokens (id, user_id, email, token_hash, created_at, expires_at)
+     VALUES (?, ?, ?, ?, ?, ?)`,
+    [crypto.randomUUID(), userId, email, tokenHash, now, expiresAt]
+  );
+
+  return token;
+}
+
+/**
+ * Issue a verification token and email the verification link
+ * @param db - D1 database instance
+ * @param userId - User whose address is being verified
+ * @param email - Address to verify and send the link to
+ * @param origin - Application origin used to build the link
+ */
+export async function sendVerificationEmail(
+  db: D1Database,
+  userId: string,
+  email: string,
+  origin: string
+): Promise<void> {
+  const token = await createEmailVerificationToken(db, userId, email);
+
+  const verifyUrl = new URL('/verify-email', origin);
+  verifyUrl.searchParams.set('token', token);
+
+  await sendEmail({
+    to: email,
+    subject: 'Verify your QuizMaker email address',
+    text: [
+      'Welcome to QuizMaker! Please confirm your email address.',
+      '',
+      `Verify your email: ${verifyUrl.toString()}`,
+      '',
+      'This link expires in 24 hours.',
+    ].join('\n'),
+  });
+}
+
+/**
+ * Check whether a verification email was sent too recently to send another
+ * @param db - D1 database instance
+ * @param userId - User requesting a resend
+ * @returns True if the user must wait before requesting another email
+ */
+export async function isVerificationResendThrottled(
+  db: D1Database,
+  userId: string
+): Promise<boolean> {
+  const latest = await executeQueryFirst<{ created_at: string }>(
+    db,
+    `SELECT created_at FROM email_verification_tokens
+     WHERE user_id = ?
+     ORDER BY created_at DESC
+     LIMIT 1`,
+    [userId]
+  );
+
+  if (!latest) {
+    return false;
+  }
+
+  return Date.now() - new Date(latest.created_at).getTime() < RESEND_COOLDOWN_MS;
+}
+
+/**
+ * Redeem an email verification token and mark the user's address as verified
+ * The token is claimed with a single conditional UPDATE, so concurrent
+ * requests cannot both redeem it.
+ * @param db - D1 database instance
+ * @param token - Plain verification token from the emailed link
+ * @returns User ID that was verified, or null if invalid, used or expired
+ */
+export async function consumeEmailVerificationToken(
+  db: D1Database,
+  token: string
+): Promise<string | null> {
+  const tokenHash = await hashToken(token);
+  const now = new Date().toISOString();
+
+  // The link only verifies the address it was sent to
+  const claimed = await executeQueryFirst<{ user_id: string }>(
+    db,
+    `UPDATE email_verification_tokens SET used_at = ?
+     WHERE token_hash = ? AND used_at IS NULL AND expires_at > ?
+       AND email = (SELECT email FROM users WHERE id = email_verification_tokens.user_id)
+     RETURNING user_id`,
+    [now, tokenHash, now]
+  );
+
+  if (!claimed) {
+    return null;
+  }
+
+  await UserRepository.markEmailVerified(db, claimed.user_id, now);
+
+  return claimed.user_id;
+}
+
+/**
+ * Check whether a user has verified their email address
+ * Publishing and sharing routes should call this and respond with
+ * 403 `{ error, code: 'email_unverified' }` when it returns false.
+ * @param db - D1 database instance
+ * @param userId - User ID to check
+ * @returns True if the user's current email address is verified
+ */
+export async function isEmailVerified(
+  db: D1Database,
+  userId: string
+): Promise<boolean> {
+  const user = await UserRepository.findById(db, userId);
+
+  return !!user?.emailVerifiedAt;
+}
@@ -0,0 +1,29 @@
+import { NextRequest } from 'next/server';
+import { authenticateRequest, type AuthResult } from '@/lib/auth/with-auth';
+import type { Permission, Role } from '@/lib/auth/rbac';
+
+/**
+ * Require one of the given roles inside a handler
+ * Prefer `withAuth(handler, { role })`; use this when only part of a handler is restricted.
+ * Usage: `const guard = await requireRole(request, 'admin'); if (guard.response) return guard.response;`
+ * @param request - Incoming request
+ * @param role - Required role or roles
+ * @returns The authenticated context, or a 401/403 response to return as-is
+ */
+export function requireRole(request: NextRequest, role: Role | Role[]): Promise<AuthResult> {
+  return authenticateRequest(request, { role });
+}
+
+/**
+ * Require a permission inside a handler
+ * Prefer `withAuth(handler, { permission })`; use this when only part of a handler is restricted.
+ * @param request - Incoming request
+ * @param permission - Required permission or permissions
+ * @returns The authenticated context, or a 401/403 response to return as-is
+ */
+export function requirePermission(
+  request: NextRequest,
+  permission: Permission | Permission[]
+): Promise<AuthResult> {
+  return authenticateRequest(request, { permission });
+}
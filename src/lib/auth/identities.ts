@@ -0,0 +1,146 @@
+import { executeQueryFirst, executeMutation, executeBatch, type BatchStatement } from '@/lib/d1-client';
+import { hashPassword } from '@/lib/auth/password';
+import { generateSecureToken } from '@/lib/auth/tokens';
+import type { OidcClaims } from '@/lib/auth/oidc';
+import { DEFAULT_ROLE } from '@/lib/auth/rbac';
+import { UserRepository } from '@/lib/repositories/user-repository';
+
+/**
+ * Build the insert linking an external identity to a user
+ * @param userId - User to link
+ * @param provider - Provider ID
+ * @param claims - Verified identity claims
+ * @returns Statement to run alone or in a batch
+ */
+function linkIdentityStatement(
+  userId: string,
+  provider: string,
+  claims: OidcClaims
+): BatchStatement {
+  const now = new Date().toISOString();
+
+  return {
+    sql: `INSERT INTO user_identities (id, user_id, provider, subject, email, created_at, last_login_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?)`,
+    params: [crypto.randomUUID(), userId, provider, claims.subject, claims.email, now, now],
+  };
+}
+
+/**
+ * Link an external identity to a user
+ * @param db - D1 database instance
+ * @param userId - User to link
+ * @param provider - Provider ID
+ * @param claims - Verified identity claims
+ */
+async function linkIdentity(
+  db: D1Database,
+  userId: string,
+  provider: string,
+  claims: OidcClaims
+): Promise<void> {
+  const { sql, params } = linkIdentityStatement(userId, provider, claims);
+  await executeMutation(db, sql, params);
+}
+
+/**
+ * Take over an unverified account for the provider-verified owner of its email
+ * Nobody had proven control of the address, so whoever signed up may not be the
+ * owner (account pre-hijacking). Every credential they could have set up is
+ * removed and their sessions revoked before the identity is linked.
+ * @param db - D1 database instance
+ * @param userId - Unverified user with the provider's email
+ * @param provider - Provider ID
+ * @param claims - Verified identity claims
+ */
+async function claimUnverifiedAccount(
+  db: D1Database,
+  userId: string,
+  provider: string,
+  claims: OidcClaims
+): Promise<void> {
+  const passwordHash = await hashPassword(generateSecureToken());
+
+  await executeBatch(db, [
+    UserRepository.claimUnverifiedStatement(userId, passwordHash),
+    { sql: 'DELETE FROM webauthn_credentials WHERE user_id = ?', params: [userId] },
+    { sql: 'DELETE FROM mfa_recovery_codes WHERE user_id = ?', params: [userId] },
+    { sql: 'DELETE FROM user_mfa WHERE user_id = ?', params: [userId] },
+    { sql: 'DELETE FROM mfa_challenges WHERE user_id = ?', params: [userId] },
+    { sql: 'DELETE FROM api_tokens WHERE user_id = ?', params: [userId] },
+    { sql: 'DELETE FROM email_change_tokens WHERE user_id = ?', params: [userId] },
+    { sql: 'DELETE FROM password_reset_tokens WHERE user_id = ?', params: [userId] },
+    { sql: 'UPDATE sessions SET is_active = 0 WHERE user_id = ?', params: [userId] },
+    linkIdentityStatement(userId, provider, claims),
+  ]);
+}
+
+/**
+ * Find the user for an external identity, linking or creating one if needed
+ *
+ * 1. A previously linked (provider, subject) signs in to its user.
+ * 2. Otherwise a verified email links to the existing user with that email.
+ *    If that user never verified the address, the account is reset first
+ *    (see claimUnverifiedAccount).
+ * 3. Otherwise a verified email creates a new user without a usable password.
+ * Unverified emails are never used for linking.
+ * @param db - D1 database instance
+ * @param provider - Provider ID
+ * @param claims - Verified identity claims
+ * @returns User ID, or null if the identity cannot be linked safely
+ */
+export async function resolveOidcUser(
+  db: D1Database,
+  provider: string,
+  claims: OidcClaims
+): Promise<string | null> {
+  const identity = await executeQueryFirst<{ id: string; user_id: string }>(
+    db,
+    'SELECT id, user_id FROM user_identities WHERE provider = ? AND subject = ?',
+    [provider, claims.subject]
+  );
+
+  if (identity) {
+    await executeMutation(
+      db,
+      'UPDATE user_identities SET last_login_at = ? WHERE id = ?',
+      [new Date().toISOString(), identity.id]
+    );
+    return identity.user_id;
+  }
+
+  if (!claims.email || !claims.emailVerified) {
+    return null;
+  }
+
+  const existingUser = await UserRepository.findByEmail(db, claims.email);
+
+  if (existingUser) {
+    if (!existingUser.emailVerifiedAt) {
+      await claimUnverifiedAccount(db, existingUser.id, provider, claims);
+    } else {
+      await linkIdentity(db, existingUser.id, provider, claims);
+    }
+
+    return existingUser.id;
+  }
+
+  // New account: random password hash so only external sign-in (or a reset) works
+  const userId = crypto.randomUUID();
+  const passwordHash = await hashPassword(generateSecureToken());
+
+  await executeBatch(db, [
+    UserRepository.createStatement({
+      id: userId,
+      email: claims.email,
+      passwordHash,
+      fullName: claims.name || claims.email,
+      role: DEFAULT_ROLE,
+      emailVerifiedAt: new Date().toISOString(),
+      hasPassword: false,
+    }),
+    linkIdentityStatement(userId, provider, claims),
+  ]);
+
+  return userId;
+}
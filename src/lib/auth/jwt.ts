@@ -1,40 +1,268 @@
-import { SignJWT, jwtVerify, JWTPayload as JoseJWTPayload } from 'jose';
+import {
+  SignJWT,
+  jwtVerify,
+  decodeProtectedHeader,
+  importPKCS8,
+  importSPKI,
+  JWTPayload as JoseJWTPayload,
+} from 'jose';
+import type { Role } from '@/lib/auth/rbac';
 
-const JWT_SECRET = new TextEncoder().encode(
-  process.env.JWT_SECRET || 'your-secret-key-change-in-production'
-);
+const DEFAULT_SECRET = 'your-secret-key-change-in-production';
+
+// kid used for tokens signed with the legacy single JWT_SECRET (and for tokens without a kid)
+const LEGACY_KID = 'default';
+
+// Access tokens are short-lived; the refresh token keeps the session going
+export const ACCESS_TOKEN_TTL_SECONDS = 15 * 60; // 15 minutes
+
+// "This wasn't me" links in new-device alerts outlive the session they revoke
+export const DEVICE_ALERT_TOKEN_TTL_SECONDS = 7 * 24 * 60 * 60; // 7 days
+
+// JWT `typ` header of device alert tokens; access tokens carry none, so one
+// can never be accepted as the other
+const DEVICE_ALERT_TYP = 'device-alert+jwt';
 
 export interface JWTPayload extends JoseJWTPayload {
   sessionId: string;
   userId: string;
   email: string;
+  role: Role;
+}
+
+export interface DeviceAlertPayload extends JoseJWTPayload {
+  sub: string; // User ID
+  sid: string; // Session opened from the new device
+  did: string; // Known device record
+}
+
+/**
+ * One entry of the JWT_KEYS environment variable (a JSON array)
+ * HS256 keys carry a shared `secret`; EdDSA keys carry PEM `privateKey` (PKCS#8)
+ * and `publicKey` (SPKI). A retired key only needs what is required to verify.
+ */
+interface KeyConfig {
+  kid: string;
+  alg: 'HS256' | 'EdDSA';
+  secret?: string;
+  privateKey?: string;
+  publicKey?: string;
+  retiredAt?: string; // ISO date; tokens are accepted until they would have expired
+}
+
+interface SigningKey {
+  kid: string;
+  alg: 'HS256' | 'EdDSA';
+  signKey: CryptoKey | Uint8Array | null;
+  verifyKey: CryptoKey | Uint8Array;
+  retiredAt: number | null;
+}
+
+interface Keyring {
+  active: SigningKey;
+  keys: Map<string, SigningKey>;
+}
+
+let keyringPromise: Promise<Keyring> | null = null;
+
+/**
+ * Import one configured key
+ * @param config - Key entry from JWT_KEYS
+ * @returns Key usable for signing (if private material is present) and verifying
+ */
+async function importKey(config: KeyConfig): Promise<SigningKey> {
+  const retiredAt = config.retiredAt ? Date.parse(config.retiredAt) : null;
+
+  if (config.alg === 'HS256') {
+    if (!config.secret) {
+      throw new Error(`JWT key "${config.kid}" is missing its secret`);
+    }
+    const secret = new TextEncoder().encode(config.secret);
+    return { kid: config.kid, alg: 'HS256', signKey: secret, verifyKey: secret, retiredAt };
+  }
+
+  if (config.alg === 'EdDSA') {
+    if (!config.publicKey) {
+      throw new Error(`JWT key "${config.kid}" is missing its public key`);
+    }
+    return {
+      kid: config.kid,
+      alg: 'EdDSA',
+      signKey: config.privateKey ? await importPKCS8(config.privateKey, 'EdDSA') : null,
+      verifyKey: await importSPKI(config.publicKey, 'EdDSA'),
+      retiredAt,
+    };
+  }
+
+  throw new Error(`JWT key "${(config as KeyConfig).kid}" has unsupported alg`);
+}
+
+/**
+ * Build the keyring from the environment
+ * JWT_KEYS lists every key (newest first); JWT_ACTIVE_KID picks the signing key,
+ * defaulting to the first key that is not retired. JWT_SECRET is kept as the
+ * legacy "default" key so tokens issued before rotation still verify.
+ * @returns Keyring with the active signing key and all verification keys
+ * @throws Error if no usable key is configured, or the default secret is used in production
+ */
+async function loadKeyring(): Promise<Keyring> {
+  const configs: KeyConfig[] = process.env.JWT_KEYS
+    ? JSON.parse(process.env.JWT_KEYS) as KeyConfig[]
+    : [];
+
+  if (process.env.JWT_SECRET && !configs.some((config) => config.kid === LEGACY_KID)) {
+    configs.push({ kid: LEGACY_KID, alg: 'HS256', secret: process.env.JWT_SECRET });
+  }
+
+  if (configs.length === 0) {
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error('JWT signing keys are not configured. Set JWT_KEYS or JWT_SECRET.');
+    }
+    console.warn('JWT_SECRET is not set; using the insecure development secret');
+    configs.push({ kid: LEGACY_KID, alg: 'HS256', secret: DEFAULT_SECRET });
+  }
+
+  if (
+    process.env.NODE_ENV === 'production' &&
+    configs.some((config) => config.secret === DEFAULT_SECRET)
+  ) {
+    throw new Error('Refusing to start with the default JWT secret in production');
+  }
+
+  const keys = new Map<string, SigningKey>();
+  for (const config of configs) {
+    keys.set(config.kid, await importKey(config));
+  }
+
+  const activeKid = process.env.JWT_ACTIVE_KID
+    || configs.find((config) => !config.retiredAt)?.kid;
+  const active = activeKid ? keys.get(activeKid) : undefined;
+
+  if (!active || !active.signKey || active.retiredAt !== null) {
+    throw new Error(`JWT active key "${activeKid}" is missing, retired, or has no private key`);
+  }
+
+  return { active, keys };
 }
 
 /**
- * Create a JWT token with session ID
- * @param payload - Token payload containing sessionId, userId, and email
+ * Get the (cached) keyring
+ * @returns Keyring loaded from the environment
+ */
+function getKeyring(): Promise<Keyring> {
+  if (!keyringPromise) {
+    keyringPromise = loadKeyring().catch((error) => {
+      keyringPromise = null;
+      throw error;
+    });
+  }
+  return keyringPromise;
+}
+
+/**
+ * Fail fast on a missing or insecure JWT configuration
+ * Called at server startup (see src/instrumentation.ts).
+ * @throws Error if the keyring cannot be loaded
+ */
+export async function assertJwtConfiguration(): Promise<void> {
+  await getKeyring();
+}
+
+/**
+ * Create a short-lived access JWT with session ID
+ * Signed with the active key and tagged with its `kid`.
+ * @param payload - Token payload containing sessionId, userId, email, and role
  * @returns Signed JWT token
  */
 export async function createToken(payload: JWTPayload): Promise<string> {
+  const { active } = await getKeyring();
+
   return await new SignJWT(payload)
-    .setProtectedHeader({ alg: 'HS256' })
+    .setProtectedHeader({ alg: active.alg, kid: active.kid })
     .setIssuedAt()
-    .setExpirationTime('7d') // 7 days
-    .sign(JWT_SECRET);
+    .setExpirationTime(`${ACCESS_TOKEN_TTL_SECONDS}s`)
+    .sign(active.signKey!);
+}
+
+/**
+ * Verify a token against the keyring
+ * @param token - JWT to verify
+ * @param typ - Expected `typ` header (undefined for access tokens)
+ * @param ttlSeconds - Lifetime of this kind of token, for the retired-key grace period
+ * @returns Decoded payload
+ * @throws Error if the token is invalid, expired, or of another kind
+ */
+async function verifyWithKeyring(
+  token: string,
+  typ: string | undefined,
+  ttlSeconds: number
+): Promise<JoseJWTPayload> {
+  const { keys } = await getKeyring();
+
+  try {
+    const header = decodeProtectedHeader(token);
+    const key = keys.get(header.kid || LEGACY_KID);
+
+    if (header.typ !== typ) {
+      throw new Error('Unexpected token type');
+    }
+
+    if (!key) {
+      throw new Error('Unknown signing key');
+    }
+
+    if (key.retiredAt !== null && Date.now() > key.retiredAt + ttlSeconds * 1000) {
+      throw new Error('Signing key retired');
+    }
+
+    const { payload } = await jwtVerify(token, key.verifyKey, { algorithms: [key.alg] });
+    return payload;
+  } catch {
+    throw new Error('Invalid or expired token');
+  }
 }
 
 /**
  * Verify and decode a JWT token
+ * Any key in the keyring is accepted, including retired keys until the tokens
+ * they signed have had time to expire.
  * @param token - JWT token to verify
  * @returns Decoded token payload
  * @throws Error if token is invalid or expired
  */
 export async function verifyToken(token: string): Promise<JWTPayload> {
-  try {
-    const { payload } = await jwtVerify(token, JWT_SECRET);
-    return payload as JWTPayload;
-  } catch {
+  return await verifyWithKeyring(token, undefined, ACCESS_TOKEN_TTL_SECONDS) as JWTPayload;
+}
+
+/**
+ * Sign the token for a new-device alert link
+ * @param payload - User, session and known device the alert is about
+ * @returns Signed JWT, valid for DEVICE_ALERT_TOKEN_TTL_SECONDS
+ */
+export async function createDeviceAlertToken(
+  payload: Pick<DeviceAlertPayload, 'sub' | 'sid' | 'did'>
+): Promise<string> {
+  const { active } = await getKeyring();
+
+  return await new SignJWT(payload)
+    .setProtectedHeader({ alg: active.alg, kid: active.kid, typ: DEVICE_ALERT_TYP })
+    .setIssuedAt()
+    .setExpirationTime(`${DEVICE_ALERT_TOKEN_TTL_SECONDS}s`)
+    .sign(active.signKey!);
+}
+
+/**
+ * Verify the token from a new-device alert link
+ * @param token - Token from the link
+ * @returns Decoded payload
+ * @throws Error if the token is invalid, expired, or not a device alert token
+ */
+export async function verifyDeviceAlertToken(token: string): Promise<DeviceAlertPayload> {
+  const payload = await verifyWithKeyring(token, DEVICE_ALERT_TYP, DEVICE_ALERT_TOKEN_TTL_SECONDS);
+
+  if (!payload.sub || typeof payload.sid !== 'string' || typeof payload.did !== 'string') {
     throw new Error('Invalid or expired token');
   }
-}
 
+  return payload as DeviceAlertPayload;
+}
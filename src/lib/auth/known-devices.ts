@@ -0,0 +1,212 @@
+import { NextRequest } from 'next/server';
+import { executeQueryFirst, executeMutation } from '@/lib/d1-client';
+import { hashToken } from '@/lib/auth/tokens';
+import { createDeviceAlertToken, verifyDeviceAlertToken, type DeviceAlertPayload } from '@/lib/auth/jwt';
+import { parseUserAgent } from '@/lib/auth/user-agent';
+import { getClientIp, getUserAgent, getRequestLocation } from '@/lib/auth/request';
+import { recordAuthEvent } from '@/lib/auth/audit';
+import { sendPasswordResetEmail } from '@/lib/auth/password-reset';
+import { SessionRepository } from '@/lib/repositories/session-repository';
+import { UserRepository } from '@/lib/repositories/user-repository';
+import { sendEmail, getAppOrigin } from '@/lib/email';
+
+/**
+ * Whether a sign-in came from a device the user has used before
+ * 'first' is the user's first recorded device (signup, or the first sign-in
+ * since devices were tracked) and never triggers an alert.
+ */
+export interface DeviceRecognition {
+  status: 'known' | 'new' | 'first';
+  deviceId: string;
+}
+
+export interface SecuredAccount {
+  userId: string;
+  revokedSessionId: string;
+}
+
+/**
+ * Fingerprint a device from its user agent and IP
+ * Browser and OS versions are left out so that updates don't look like a new device.
+ * @param ipAddress - Client IP
+ * @param userAgent - User agent string
+ * @returns Hex-encoded SHA-256 hash
+ */
+async function getDeviceHash(ipAddress: string, userAgent?: string): Promise<string> {
+  const device = parseUserAgent(userAgent);
+  return hashToken([device.browser, device.os, device.deviceType, ipAddress].join('|'));
+}
+
+/**
+ * Record the device a request comes from as known for a user
+ * @param db - D1 database instance
+ * @param userId - User signing in
+ * @param request - Incoming request (for IP and user agent)
+ * @returns Whether the device was already known
+ */
+export async function rememberDevice(
+  db: D1Database,
+  userId: string,
+  request: NextRequest
+): Promise<DeviceRecognition> {
+  const ipAddress = getClientIp(request);
+  const userAgent = getUserAgent(request);
+  const deviceHash = await getDeviceHash(ipAddress, userAgent);
+
+  const known = await executeQueryFirst<{ id: string }>(
+    db,
+    'SELECT id FROM known_devices WHERE user_id = ? AND device_hash = ?',
+    [userId, deviceHash]
+  );
+
+  if (known) {
+    await executeMutation(
+      db,
+      'UPDATE known_devices SET last_seen_at = CURRENT_TIMESTAMP WHERE id = ?',
+      [known.id]
+    );
+    return { status: 'known', deviceId: known.id };
+  }
+
+  const other = await executeQueryFirst<{ id: string }>(
+    db,
+    'SELECT id FROM known_devices WHERE user_id = ? LIMIT 1',
+    [userId]
+  );
+
+  const deviceId = crypto.randomUUID();
+  await executeMutation(
+    db,
+    `INSERT INTO known_devices (id, user_id, device_hash, ip_address, user_agent)
+     VALUES (?, ?, ?, ?, ?)`,
+    [deviceId, userId, deviceHash, ipAddress, userAgent || null]
+  );
+
+  return { status: other ? 'new' : 'first', deviceId };
+}
+
+/**
+ * Email the user about a sign-in from a new device
+ * The "this wasn't me" link carries a signed token naming the new session.
+ * @param request - Incoming request (for device details)
+ * @param user - User who signed in
+ * @param sessionId - Session opened from the new device
+ * @param deviceId - Known device record created for it
+ */
+async function sendNewDeviceAlert(
+  request: NextRequest,
+  user: { id: string; email: string },
+  sessionId: string,
+  deviceId: string
+): Promise<void> {
+  const token = await createDeviceAlertToken({ sub: user.id, sid: sessionId, did: deviceId });
+
+  const secureUrl = new URL('/secure-account', getAppOrigin(request));
+  secureUrl.searchParams.set('token', token);
+
+  const device = parseUserAgent(getUserAgent(request));
+  const location = getRequestLocation(request);
+  const describedDevice = [
+    device.browser || 'Unknown browser',
+    device.os ? `on ${device.os}` : null,
+  ].filter(Boolean).join(' ');
+  const describedLocation = [location.city, location.region, location.country]
+    .filter(Boolean)
+    .join(', ');
+
+  await sendEmail({
+    to: user.email,
+    subject: 'New sign-in to your QuizMaker account',
+    text: [
+      'Your QuizMaker account was just signed in to from a new device.',
+      '',
+      `Device: ${describedDevice}`,
+      `IP address: ${getClientIp(request)}`,
+      describedLocation ? `Approximate location: ${describedLocation}` : null,
+      `Time: ${new Date().toUTCString()}`,
+      '',
+      'If this was you, there is nothing to do.',
+      `If it wasn't, sign that device out and reset your password: ${secureUrl.toString()}`,
+      '',
+      'This link expires in 7 days.',
+    ].filter((line) => line !== null).join('\n'),
+  });
+}
+
+/**
+ * Remember the device a sign-in came from, and alert the user if it is new
+ * Failures are logged and swallowed so alerting never breaks sign-in.
+ * @param db - D1 database instance
+ * @param request - Incoming request (for IP and user agent)
+ * @param user - User who signed in
+ * @param sessionId - Session the sign-in opened
+ */
+export async function checkNewDevice(
+  db: D1Database,
+  request: NextRequest,
+  user: { id: string; email: string },
+  sessionId: string
+): Promise<void> {
+  try {
+    const recognition = await rememberDevice(db, user.id, request);
+
+    if (recognition.status !== 'new') {
+      return;
+    }
+
+    await sendNewDeviceAlert(request, user, sessionId, recognition.deviceId);
+
+    await recordAuthEvent(db, request, {
+      type: 'new_device_alert_sent',
+      userId: user.id,
+      sessionId,
+    });
+  } catch (error) {
+    console.error('Error checking for new device:', error);
+  }
+}
+
+/**
+ * Act on a "this wasn't me" link from a new-device alert
+ * Revokes the session the alert was about, forgets the device so it alerts
+ * again, and emails the user a password reset link. The link works once: it
+ * only acts while the session it names is still active.
+ * @param db - D1 database instance
+ * @param token - Signed token from the alert link
+ * @param origin - App origin used to build the reset link
+ * @param metadata - Optional request metadata (IP)
+ * @returns Revoked session, or null if the link is invalid, expired or already used
+ */
+export async function secureAccountFromAlert(
+  db: D1Database,
+  token: string,
+  origin: string,
+  metadata: {
+    ipAddress?: string;
+  } = {}
+): Promise<SecuredAccount | null> {
+  let payload: DeviceAlertPayload;
+  try {
+    payload = await verifyDeviceAlertToken(token);
+  } catch {
+    return null;
+  }
+
+  if (!(await SessionRepository.revokeIfActive(db, payload.sub, payload.sid))) {
+    return null;
+  }
+
+  await executeMutation(
+    db,
+    'DELETE FROM known_devices WHERE id = ? AND user_id = ?',
+    [payload.did, payload.sub]
+  );
+
+  const user = await UserRepository.findById(db, payload.sub);
+
+  if (user?.isActive) {
+    await sendPasswordResetEmail(db, user, origin, metadata);
+  }
+
+  return { userId: payload.sub, revokedSessionId: payload.sid };
+}
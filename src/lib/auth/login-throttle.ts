@@ -0,0 +1,229 @@
+import { executeQuery, executeQueryFirst, executeMutation } from '@/lib/d1-client';
+
+interface ThrottlePolicy {
+  // Failures allowed before the key is locked
+  threshold: number;
+  // Lock duration at the threshold, doubled for every further failure
+  baseLockSeconds: number;
+  // Upper bound for a single lock
+  maxLockSeconds: number;
+}
+
+// Per-account limits are tight; per-IP limits allow for shared school networks
+const EMAIL_POLICY: ThrottlePolicy = { threshold: 5, baseLockSeconds: 30, maxLockSeconds: 60 * 60 };
+const IP_POLICY: ThrottlePolicy = { threshold: 20, baseLockSeconds: 30, maxLockSeconds: 60 * 60 };
+
+// Counters with no failures for a day start over
+const FAILURE_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+interface RateLimit {
+  // Requests allowed per window
+  maxRequests: number;
+  windowSeconds: number;
+}
+
+// Password reset emails, so the endpoint can't be used to flood an inbox.
+// Counted for unknown emails too, so a 429 doesn't reveal which accounts exist.
+const RESET_EMAIL_LIMIT: RateLimit = { maxRequests: 3, windowSeconds: 60 * 60 };
+const RESET_IP_LIMIT: RateLimit = { maxRequests: 20, windowSeconds: 60 * 60 };
+
+interface LoginAttemptRow {
+  throttle_key: string;
+  failures: number;
+  last_failed_at: string;
+  locked_until: string | null;
+}
+
+export interface ThrottleStatus {
+  locked: boolean;
+  retryAfterSeconds: number;
+}
+
+/**
+ * Normalize an email address for throttling and lookups
+ * @param email - Email as entered
+ * @returns Trimmed, lower-cased email
+ */
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+/**
+ * Build the throttle keys for a login attempt
+ * @param email - Email as entered
+ * @param ip - Client IP
+ * @returns Email and IP keys
+ */
+function getThrottleKeys(email: string, ip: string): { emailKey: string; ipKey: string } {
+  return {
+    emailKey: `email:${normalizeEmail(email)}`,
+    ipKey: `ip:${ip}`,
+  };
+}
+
+/**
+ * Compute how long a key is locked after a given number of failures
+ * @param failures - Consecutive failures
+ * @param policy - Throttle policy
+ * @returns Lock duration in seconds (0 if below the threshold)
+ */
+function getLockSeconds(failures: number, policy: ThrottlePolicy): number {
+  if (failures < policy.threshold) {
+    return 0;
+  }
+
+  const exponent = failures - policy.threshold;
+  return Math.min(policy.baseLockSeconds * 2 ** exponent, policy.maxLockSeconds);
+}
+
+/**
+ * Check whether a login attempt is currently allowed
+ * @param db - D1 database instance
+ * @param email - Email as entered
+ * @param ip - Client IP
+ * @returns Lock state and seconds until the next attempt is allowed
+ */
+export async function checkLoginThrottle(
+  db: D1Database,
+  email: string,
+  ip: string
+): Promise<ThrottleStatus> {
+  const { emailKey, ipKey } = getThrottleKeys(email, ip);
+
+  const rows = await executeQuery<LoginAttemptRow>(
+    db,
+    'SELECT throttle_key, failures, last_failed_at, locked_until FROM login_attempts WHERE throttle_key IN (?, ?)',
+    [emailKey, ipKey]
+  );
+
+  const now = Date.now();
+  const retryAfterMs = Math.max(
+    0,
+    ...rows
+      .filter((row) => row.locked_until)
+      .map((row) => new Date(row.locked_until as string).getTime() - now)
+  );
+
+  return {
+    locked: retryAfterMs > 0,
+    retryAfterSeconds: Math.ceil(retryAfterMs / 1000),
+  };
+}
+
+/**
+ * Record a failed login against both the email and IP keys
+ * The counter is incremented in SQL, so parallel failures are each counted
+ * even when they all passed checkLoginThrottle before any was recorded.
+ * @param db - D1 database instance
+ * @param email - Email as entered
+ * @param ip - Client IP
+ */
+export async function recordLoginFailure(
+  db: D1Database,
+  email: string,
+  ip: string
+): Promise<void> {
+  const { emailKey, ipKey } = getThrottleKeys(email, ip);
+  const now = new Date();
+  const staleBefore = new Date(now.getTime() - FAILURE_WINDOW_MS).toISOString();
+
+  for (const [key, policy] of [[emailKey, EMAIL_POLICY], [ipKey, IP_POLICY]] as const) {
+    const counter = await executeQueryFirst<{ failures: number }>(
+      db,
+      `INSERT INTO login_attempts (throttle_key, failures, first_failed_at, last_failed_at, locked_until)
+       VALUES (?, 1, ?, ?, NULL)
+       ON CONFLICT(throttle_key) DO UPDATE SET
+         failures = CASE WHEN login_attempts.last_failed_at < ? THEN 1 ELSE login_attempts.failures + 1 END,
+         first_failed_at = CASE WHEN login_attempts.last_failed_at < ? THEN excluded.first_failed_at ELSE login_attempts.first_failed_at END,
+         locked_until = CASE WHEN login_attempts.last_failed_at < ? THEN NULL ELSE login_attempts.locked_until END,
+         last_failed_at = excluded.last_failed_at
+       RETURNING failures`,
+      [key, now.toISOString(), now.toISOString(), staleBefore, staleBefore, staleBefore]
+    );
+
+    const lockSeconds = counter ? getLockSeconds(counter.failures, policy) : 0;
+
+    if (counter && lockSeconds > 0) {
+      // Skipped if a parallel failure has already counted past this one and set a longer lock
+      await executeMutation(
+        db,
+        'UPDATE login_attempts SET locked_until = ? WHERE throttle_key = ? AND failures = ?',
+        [new Date(now.getTime() + lockSeconds * 1000).toISOString(), key, counter.failures]
+      );
+    }
+  }
+}
+
+/**
+ * Count a request against a fixed-window rate limit
+ * Shares the login_attempts table: failures holds the requests in the current
+ * window and first_failed_at when the window started.
+ * @param db - D1 database instance
+ * @param key - Throttle key, prefixed so it can't collide with login keys
+ * @param limit - Rate limit
+ * @returns Seconds until the key may be used again, or 0 if this request is allowed
+ */
+async function consumeRateLimit(db: D1Database, key: string, limit: RateLimit): Promise<number> {
+  const now = new Date();
+  const windowStartedBefore = new Date(now.getTime() - limit.windowSeconds * 1000).toISOString();
+
+  const counter = await executeQueryFirst<{ failures: number; first_failed_at: string }>(
+    db,
+    `INSERT INTO login_attempts (throttle_key, failures, first_failed_at, last_failed_at, locked_until)
+     VALUES (?, 1, ?, ?, NULL)
+     ON CONFLICT(throttle_key) DO UPDATE SET
+       failures = CASE WHEN login_attempts.first_failed_at < ? THEN 1 ELSE login_attempts.failures + 1 END,
+       first_failed_at = CASE WHEN login_attempts.first_failed_at < ? THEN excluded.first_failed_at ELSE login_attempts.first_failed_at END,
+       last_failed_at = excluded.last_failed_at
+     RETURNING failures, first_failed_at`,
+    [key, now.toISOString(), now.toISOString(), windowStartedBefore, windowStartedBefore]
+  );
+
+  if (!counter || counter.failures <= limit.maxRequests) {
+    return 0;
+  }
+
+  const windowEndsAt = new Date(counter.first_failed_at).getTime() + limit.windowSeconds * 1000;
+  return Math.max(1, Math.ceil((windowEndsAt - now.getTime()) / 1000));
+}
+
+/**
+ * Count a password reset request against the per-email and per-IP limits
+ * @param db - D1 database instance
+ * @param email - Email as entered
+ * @param ip - Client IP
+ * @returns Lock state and seconds until another reset may be requested
+ */
+export async function consumePasswordResetAllowance(
+  db: D1Database,
+  email: string,
+  ip: string
+): Promise<ThrottleStatus> {
+  const retryAfterSeconds = Math.max(
+    await consumeRateLimit(db, `reset-email:${normalizeEmail(email)}`, RESET_EMAIL_LIMIT),
+    await consumeRateLimit(db, `reset-ip:${ip}`, RESET_IP_LIMIT)
+  );
+
+  return {
+    locked: retryAfterSeconds > 0,
+    retryAfterSeconds,
+  };
+}
+
+/**
+ * Clear the failure counter and any lockout for an account
+ * Called after a successful password check and after a password reset.
+ * The IP counter is left alone so one valid account can't unlock an attacking IP.
+ * @param db - D1 database instance
+ * @param email - Account email
+ */
+export async function clearLoginFailures(
+  db: D1Database,
+  email: string
+): Promise<void> {
+  await executeMutation(
+    db,
+    'DELETE FROM login_attempts WHERE throttle_key = ?',
+    [`email:${normalizeEmail(email)}`]
+  );
+}
@@ -0,0 +1,130 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createToken } from '@/lib/auth/jwt';
+import { prepareSession } from '@/lib/auth/session';
+import { recordAuthEvent } from '@/lib/auth/audit';
+import { checkNewDevice } from '@/lib/auth/known-devices';
+import { generateSecureToken } from '@/lib/auth/tokens';
+import { getClientIp, getUserAgent, getRequestLocation } from '@/lib/auth/request';
+import { setAuthCookies, type SessionTokens } from '@/lib/auth/cookies';
+import { setCsrfCookie } from '@/lib/auth/csrf';
+import { UserRepository } from '@/lib/repositories/user-repository';
+import type { UserRecord } from '@/lib/db-schema';
+import { executeMutation, type BatchStatement } from '@/lib/d1-client';
+
+export type LoginUser = Pick<UserRecord, 'id' | 'email' | 'fullName' | 'emailVerifiedAt' | 'role'>;
+
+/**
+ * Issue the tokens for a new session and build the insert that creates it
+ * The caller runs the statement, alone or in a batch with related writes.
+ * @param request - Incoming request (for IP, user agent and location)
+ * @param user - User the session belongs to
+ * @returns New session ID, its tokens and the statement that creates it
+ */
+export async function prepareUserSession(
+  request: NextRequest,
+  user: Pick<LoginUser, 'id' | 'email' | 'role'>
+): Promise<{ sessionId: string; tokens: SessionTokens; statement: BatchStatement }> {
+  // Opaque refresh token; only its hash is stored in sessions.token_hash
+  const refreshToken = generateSecureToken();
+
+  const { sessionId, statement } = await prepareSession(user.id, refreshToken, {
+    ipAddress: getClientIp(request),
+    userAgent: getUserAgent(request),
+    location: getRequestLocation(request),
+  });
+
+  // Generate short-lived access JWT with session ID
+  const accessToken = await createToken({
+    sessionId,
+    userId: user.id,
+    email: user.email,
+    role: user.role,
+  });
+
+  return { sessionId, tokens: { accessToken, refreshToken }, statement };
+}
+
+/**
+ * Create a session and issue its access and refresh tokens
+ * @param db - D1 database instance
+ * @param request - Incoming request (for IP, user agent and location)
+ * @param user - User the session belongs to
+ * @returns New session ID and its tokens
+ */
+export async function openUserSession(
+  db: D1Database,
+  request: NextRequest,
+  user: Pick<LoginUser, 'id' | 'email' | 'role'>
+): Promise<{ sessionId: string; tokens: SessionTokens }> {
+  const { sessionId, tokens, statement } = await prepareUserSession(request, user);
+
+  await executeMutation(db, statement.sql, statement.params);
+
+  return { sessionId, tokens };
+}
+
+/**
+ * Record a successful login and open a new session
+ * Shared by every sign-in method once the user has been fully authenticated.
+ * @param db - D1 database instance
+ * @param request - Incoming request (for IP and user agent)
+ * @param user - Authenticated user
+ * @param method - How the user signed in (e.g. 'password', 'passkey', 'oidc:google')
+ * @returns Tokens for the auth cookies
+ */
+export async function startUserSession(
+  db: D1Database,
+  request: NextRequest,
+  user: Pick<LoginUser, 'id' | 'email' | 'role'>,
+  method: string
+): Promise<SessionTokens> {
+  // Update last login timestamp
+  await UserRepository.touchLastLogin(db, user.id);
+
+  const { sessionId, tokens } = await openUserSession(db, request, user);
+
+  await recordAuthEvent(db, request, {
+    type: 'login_success',
+    userId: user.id,
+    sessionId,
+    metadata: { method },
+  });
+
+  await checkNewDevice(db, request, user, sessionId);
+
+  return tokens;
+}
+
+/**
+ * Finish a successful login with a JSON response
+ * @param db - D1 database instance
+ * @param request - Incoming request (for IP and user agent)
+ * @param user - Authenticated user
+ * @param method - How the user signed in
+ * @returns JSON response carrying the user and the auth cookies
+ */
+export async function createLoginResponse(
+  db: D1Database,
+  request: NextRequest,
+  user: LoginUser,
+  method: string
+): Promise<NextResponse> {
+  const tokens = await startUserSession(db, request, user, method);
+
+  const response = NextResponse.json({
+    success: true,
+    user: {
+      id: user.id,
+      email: user.email,
+      fullName: user.fullName,
+      emailVerified: !!user.emailVerifiedAt,
+      role: user.role,
+    },
+  });
+
+  setAuthCookies(response, tokens);
+  // New session, new CSRF token (not rotated on refresh so in-flight requests stay valid)
+  setCsrfCookie(response);
+
+  return response;
+}
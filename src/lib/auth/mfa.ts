@@ -0,0 +1,375 @@
+import { executeQuery, executeQueryFirst, executeMutation } from '@/lib/d1-client';
+import { hashToken, generateSecureToken } from '@/lib/auth/tokens';
+import { generateTotpSecret, verifyTotp } from '@/lib/auth/totp';
+
+// Number of recovery codes issued at once
+const RECOVERY_CODE_COUNT = 10;
+
+// Login challenges must be answered within five minutes
+const MFA_CHALLENGE_TTL_MS = 5 * 60 * 1000;
+
+// Carries the challenge from an external sign-in to the MFA step, so the token
+// never appears in a URL (browser history, logs, Referer)
+export const MFA_CHALLENGE_COOKIE = 'mfa-challenge';
+export const MFA_CHALLENGE_COOKIE_PATH = '/api/auth/login/mfa';
+export const MFA_CHALLENGE_TTL_SECONDS = MFA_CHALLENGE_TTL_MS / 1000;
+
+// Wrong codes allowed against one challenge before it is burned
+const MFA_CHALLENGE_MAX_ATTEMPTS = 5;
+
+const RECOVERY_CODE_ALPHABET = 'abcdefghjkmnpqrstuvwxyz23456789';
+
+interface UserMfaRow {
+  user_id: string;
+  totp_secret: string;
+  last_used_step: number | null;
+  enabled_at: string | null;
+}
+
+interface MfaChallengeRow {
+  id: string;
+  user_id: string;
+  attempts: number;
+  expires_at: string;
+  used_at: string | null;
+}
+
+export interface MfaChallengeResult {
+  userId: string;
+  verified: boolean;
+}
+
+export interface MfaStatus {
+  enabled: boolean;
+  recoveryCodesRemaining: number;
+}
+
+/**
+ * Normalize a recovery code as typed by the user (case, dashes, spaces)
+ * @param code - Recovery code
+ * @returns Normalized code
+ */
+function normalizeRecoveryCode(code: string): string {
+  return code.toLowerCase().replace(/[\s-]/g, '');
+}
+
+/**
+ * Generate a single human-friendly recovery code (xxxxx-xxxxx)
+ * @returns Recovery code
+ */
+function generateRecoveryCode(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(10));
+  const chars = Array.from(bytes).map(b => RECOVERY_CODE_ALPHABET[b % RECOVERY_CODE_ALPHABET.length]);
+  return `${chars.slice(0, 5).join('')}-${chars.slice(5).join('')}`;
+}
+
+/**
+ * Get the MFA row for a user
+ * @param db - D1 database instance
+ * @param userId - User ID
+ * @returns MFA row or null if the user never started enrollment
+ */
+async function getUserMfa(
+  db: D1Database,
+  userId: string
+): Promise<UserMfaRow | null> {
+  return await executeQueryFirst<UserMfaRow>(
+    db,
+    'SELECT user_id, totp_secret, last_used_step, enabled_at FROM user_mfa WHERE user_id = ?',
+    [userId]
+  );
+}
+
+/**
+ * Check whether a user has MFA enabled
+ * @param db - D1 database instance
+ * @param userId - User ID
+ * @returns True if a confirmed TOTP factor exists
+ */
+export async function isMfaEnabled(
+  db: D1Database,
+  userId: string
+): Promise<boolean> {
+  const mfa = await getUserMfa(db, userId);
+  return !!mfa?.enabled_at;
+}
+
+/**
+ * Get MFA status for display in account settings
+ * @param db - D1 database instance
+ * @param userId - User ID
+ * @returns Whether MFA is enabled and how many recovery codes are left
+ */
+export async function getMfaStatus(
+  db: D1Database,
+  userId: string
+): Promise<MfaStatus> {
+  const enabled = await isMfaEnabled(db, userId);
+  const remaining = await executeQueryFirst<{ count: number }>(
+    db,
+    'SELECT COUNT(*) AS count FROM mfa_recovery_codes WHERE user_id = ? AND used_at IS NULL',
+    [userId]
+  );
+
+  return {
+    enabled,
+    recoveryCodesRemaining: enabled ? remaining?.count || 0 : 0,
+  };
+}
+
+/**
+ * Start TOTP enrollment by generating a pending secret
+ * Calling this again before confirmation replaces the pending secret.
+ * @param db - D1 database instance
+ * @param userId - User ID
+ * @returns Base32 TOTP secret
+ * @throws Error if MFA is already enabled
+ */
+export async function beginTotpEnrollment(
+  db: D1Database,
+  userId: string
+): Promise<string> {
+  if (await isMfaEnabled(db, userId)) {
+    throw new Error('MFA is already enabled');
+  }
+
+  const secret = generateTotpSecret();
+
+  await executeMutation(
+    db,
+    `INSERT INTO user_mfa (user_id, totp_secret, created_at)
+     VALUES (?, ?, ?)
+     ON CONFLICT(user_id) DO UPDATE SET totp_secret = excluded.totp_secret, created_at = excluded.created_at, last_used_step = NULL`,
+    [userId, secret, new Date().toISOString()]
+  );
+
+  return secret;
+}
+
+/**
+ * Confirm TOTP enrollment with a code from the authenticator app
+ * @param db - D1 database instance
+ * @param userId - User ID
+ * @param code - 6-digit TOTP code
+ * @returns Freshly issued recovery codes, or null if the code is wrong
+ */
+export async function confirmTotpEnrollment(
+  db: D1Database,
+  userId: string,
+  code: string
+): Promise<string[] | null> {
+  const mfa = await getUserMfa(db, userId);
+
+  if (!mfa || mfa.enabled_at) {
+    return null;
+  }
+
+  const step = await verifyTotp(mfa.totp_secret, code);
+  if (step === null) {
+    return null;
+  }
+
+  await executeMutation(
+    db,
+    'UPDATE user_mfa SET enabled_at = ?, last_used_step = ? WHERE user_id = ?',
+    [new Date().toISOString(), step, userId]
+  );
+
+  return await regenerateRecoveryCodes(db, userId);
+}
+
+/**
+ * Disable MFA and delete the TOTP secret and recovery codes
+ * @param db - D1 database instance
+ * @param userId - User ID
+ */
+export async function disableMfa(
+  db: D1Database,
+  userId: string
+): Promise<void> {
+  await executeMutation(db, 'DELETE FROM mfa_recovery_codes WHERE user_id = ?', [userId]);
+  await executeMutation(db, 'DELETE FROM user_mfa WHERE user_id = ?', [userId]);
+}
+
+/**
+ * Replace all of a user's recovery codes with a new set
+ * @param db - D1 database instance
+ * @param userId - User ID
+ * @returns Plain recovery codes (only hashes are stored)
+ */
+export async function regenerateRecoveryCodes(
+  db: D1Database,
+  userId: string
+): Promise<string[]> {
+  await executeMutation(db, 'DELETE FROM mfa_recovery_codes WHERE user_id = ?', [userId]);
+
+  const codes: string[] = [];
+  const now = new Date().toISOString();
+
+  for (let i = 0; i < RECOVERY_CODE_COUNT; i++) {
+    const code = generateRecoveryCode();
+    codes.push(code);
+    await executeMutation(
+      db,
+      'INSERT INTO mfa_recovery_codes (id, user_id, code_hash, created_at) VALUES (?, ?, ?, ?)',
+      [crypto.randomUUID(), userId, await hashToken(normalizeRecoveryCode(code)), now]
+    );
+  }
+
+  return codes;
+}
+
+/**
+ * Verify a second factor: a TOTP code or an unused recovery code
+ * Accepted TOTP steps and recovery codes cannot be reused.
+ * @param db - D1 database instance
+ * @param userId - User ID
+ * @param code - TOTP code or recovery code
+ * @returns True if the factor is valid
+ */
+export async function verifySecondFactor(
+  db: D1Database,
+  userId: string,
+  code: string
+): Promise<boolean> {
+  const mfa = await getUserMfa(db, userId);
+
+  if (!mfa || !mfa.enabled_at) {
+    return false;
+  }
+
+  const step = await verifyTotp(mfa.totp_secret, code);
+  if (step !== null) {
+    if (mfa.last_used_step !== null && step <= mfa.last_used_step) {
+      return false;
+    }
+
+    // Conditional, so two concurrent requests cannot both spend the same step
+    const accepted = await executeQueryFirst<{ user_id: string }>(
+      db,
+      `UPDATE user_mfa SET last_used_step = ?
+       WHERE user_id = ? AND (last_used_step IS NULL OR last_used_step < ?)
+       RETURNING user_id`,
+      [step, userId, step]
+    );
+    return !!accepted;
+  }
+
+  const codeHash = await hashToken(normalizeRecoveryCode(code));
+  const recoveryCodes = await executeQuery<{ id: string }>(
+    db,
+    'SELECT id FROM mfa_recovery_codes WHERE user_id = ? AND code_hash = ? AND used_at IS NULL',
+    [userId, codeHash]
+  );
+
+  if (recoveryCodes.length === 0) {
+    return false;
+  }
+
+  const spent = await executeQueryFirst<{ id: string }>(
+    db,
+    'UPDATE mfa_recovery_codes SET used_at = ? WHERE id = ? AND used_at IS NULL RETURNING id',
+    [new Date().toISOString(), recoveryCodes[0].id]
+  );
+  return !!spent;
+}
+
+/**
+ * Create a login challenge for a user who passed the password step
+ * @param db - D1 database instance
+ * @param userId - User ID
+ * @returns Plain challenge token (only the hash is stored)
+ */
+export async function createMfaChallenge(
+  db: D1Database,
+  userId: string
+): Promise<string> {
+  const token = generateSecureToken();
+  const expiresAt = new Date(Date.now() + MFA_CHALLENGE_TTL_MS).toISOString();
+
+  await executeMutation(
+    db,
+    `INSERT INTO mfa_challenges (id, user_id, token_hash, created_at, expires_at)
+     VALUES (?, ?, ?, ?, ?)`,
+    [crypto.randomUUID(), userId, await hashToken(token), new Date().toISOString(), expiresAt]
+  );
+
+  return token;
+}
+
+/**
+ * Look up who a login challenge belongs to without answering it
+ * Lets the MFA route apply the account's login throttle before checking a code.
+ * @param db - D1 database instance
+ * @param challengeToken - Plain challenge token returned by the login route
+ * @returns User ID, or null if the challenge is invalid, used, burned or expired
+ */
+export async function getMfaChallengeUser(
+  db: D1Database,
+  challengeToken: string
+): Promise<string | null> {
+  const challenge = await executeQueryFirst<MfaChallengeRow>(
+    db,
+    'SELECT id, user_id, attempts, expires_at, used_at FROM mfa_challenges WHERE token_hash = ?',
+    [await hashToken(challengeToken)]
+  );
+
+  if (
+    !challenge ||
+    challenge.used_at ||
+    challenge.attempts >= MFA_CHALLENGE_MAX_ATTEMPTS ||
+    new Date() > new Date(challenge.expires_at)
+  ) {
+    return null;
+  }
+
+  return challenge.user_id;
+}
+
+/**
+ * Answer a login challenge with a second factor
+ * A challenge is single-use and is burned after too many attempts. Each
+ * attempt is counted before the code is checked, so concurrent guesses
+ * cannot exceed the limit.
+ * @param db - D1 database instance
+ * @param challengeToken - Plain challenge token returned by the login route
+ * @param code - TOTP code or recovery code
+ * @returns Challenge user and whether the code was accepted, or null if the challenge is invalid
+ */
+export async function completeMfaChallenge(
+  db: D1Database,
+  challengeToken: string,
+  code: string
+): Promise<MfaChallengeResult | null> {
+  const now = new Date().toISOString();
+
+  const challenge = await executeQueryFirst<{ id: string; user_id: string }>(
+    db,
+    `UPDATE mfa_challenges SET attempts = attempts + 1
+     WHERE token_hash = ? AND used_at IS NULL AND attempts < ? AND expires_at > ?
+     RETURNING id, user_id`,
+    [await hashToken(challengeToken), MFA_CHALLENGE_MAX_ATTEMPTS, now]
+  );
+
+  if (!challenge) {
+    return null;
+  }
+
+  const isValid = await verifySecondFactor(db, challenge.user_id, code);
+
+  if (!isValid) {
+    return { userId: challenge.user_id, verified: false };
+  }
+
+  const used = await executeQueryFirst<{ id: string }>(
+    db,
+    'UPDATE mfa_challenges SET used_at = ? WHERE id = ? AND used_at IS NULL RETURNING id',
+    [new Date().toISOString(), challenge.id]
+  );
+
+  if (!used) {
+    return null;
+  }
+
+  return { userId: challenge.user_id, verified: true };
+}
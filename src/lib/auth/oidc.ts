@@ -0,0 +1,309 @@
+import { createRemoteJWKSet, jwtVerify, type JWTPayload } from 'jose';
+import { executeQueryFirst, executeMutation } from '@/lib/d1-client';
+import { generateSecureToken, hashToken } from '@/lib/auth/tokens';
+
+// Cookie that binds the browser to its pending authorization request
+export const OIDC_STATE_COOKIE = 'oidc-state';
+
+// Users have ten minutes to finish signing in at the provider
+export const OIDC_STATE_TTL_SECONDS = 10 * 60;
+
+// Discovery documents are re-fetched hourly
+const DISCOVERY_CACHE_TTL_MS = 60 * 60 * 1000;
+
+// Providers that only need a client ID/secret to be enabled
+const BUILT_IN_PROVIDERS: Record<string, { label: string; issuer: string }> = {
+  google: {
+    label: 'Google',
+    issuer: 'https://accounts.google.com',
+  },
+  microsoft: {
+    label: 'Microsoft',
+    issuer: 'https://login.microsoftonline.com/organizations/v2.0',
+  },
+};
+
+export interface OidcProvider {
+  id: string;
+  label: string;
+  issuer: string;
+  clientId: string;
+  clientSecret: string;
+  trustEmail: boolean;
+}
+
+export interface OidcClaims {
+  subject: string;
+  email: string | null;
+  emailVerified: boolean;
+  name: string | null;
+}
+
+interface OidcDiscoveryDocument {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+}
+
+interface OidcLoginStateRow {
+  provider: string;
+  nonce: string;
+  code_verifier: string;
+  redirect_to: string | null;
+  expires_at: string;
+}
+
+const discoveryCache = new Map<string, { document: OidcDiscoveryDocument; expiresAt: number }>();
+const jwksCache = new Map<string, ReturnType<typeof createRemoteJWKSet>>();
+
+/**
+ * Encode bytes as unpadded base64url
+ * @param bytes - Bytes to encode
+ * @returns Base64url string
+ */
+function base64UrlEncode(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach((b) => (binary += String.fromCharCode(b)));
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Look up a provider's configuration from environment variables
+ *
+ * OIDC_<ID>_CLIENT_ID and OIDC_<ID>_CLIENT_SECRET enable a provider.
+ * OIDC_<ID>_ISSUER overrides the issuer (required for custom providers such as
+ * a local mock issuer), OIDC_<ID>_LABEL sets the button text and
+ * OIDC_<ID>_TRUST_EMAIL=true accepts the email claim from providers that do
+ * not send email_verified.
+ * @param id - Provider ID from the route (e.g. 'google')
+ * @returns Provider configuration, or null if unknown or not configured
+ */
+export function getOidcProvider(id: string): OidcProvider | null {
+  if (!/^[a-z0-9-]+$/.test(id)) {
+    return null;
+  }
+
+  const prefix = `OIDC_${id.toUpperCase().replace(/-/g, '_')}_`;
+  const builtIn = BUILT_IN_PROVIDERS[id];
+  const clientId = process.env[`${prefix}CLIENT_ID`];
+  const clientSecret = process.env[`${prefix}CLIENT_SECRET`];
+  const issuer = process.env[`${prefix}ISSUER`] || builtIn?.issuer;
+
+  if (!clientId || !clientSecret || !issuer) {
+    return null;
+  }
+
+  return {
+    id,
+    label: process.env[`${prefix}LABEL`] || builtIn?.label || id,
+    issuer: issuer.replace(/\/$/, ''),
+    clientId,
+    clientSecret,
+    trustEmail: process.env[`${prefix}TRUST_EMAIL`] === 'true',
+  };
+}
+
+/**
+ * List providers that are configured and can be shown on the login page
+ * Built-in providers plus any custom IDs listed in OIDC_PROVIDERS (comma-separated).
+ * @returns Provider IDs and labels
+ */
+export function getConfiguredOidcProviders(): { id: string; label: string }[] {
+  const custom = (process.env.OIDC_PROVIDERS || '')
+    .split(',')
+    .map((id) => id.trim())
+    .filter(Boolean);
+
+  const ids = Array.from(new Set([...Object.keys(BUILT_IN_PROVIDERS), ...custom]));
+
+  return ids
+    .map((id) => getOidcProvider(id))
+    .filter((provider): provider is OidcProvider => provider !== null)
+    .map(({ id, label }) => ({ id, label }));
+}
+
+/**
+ * Fetch (and cache) a provider's OpenID discovery document
+ * @param provider - Provider configuration
+ * @returns Discovery document
+ * @throws Error if discovery fails or the issuer does not match
+ */
+async function discover(provider: OidcProvider): Promise<OidcDiscoveryDocument> {
+  const cached = discoveryCache.get(provider.issuer);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.document;
+  }
+
+  const response = await fetch(`${provider.issuer}/.well-known/openid-configuration`);
+  if (!response.ok) {
+    throw new Error(`OIDC discovery failed for ${provider.id} with status ${response.status}`);
+  }
+
+  const document = await response.json() as OidcDiscoveryDocument;
+
+  // Multi-tenant issuers (Microsoft) advertise a {tenantid} template
+  if (document.issuer.replace(/\/$/, '') !== provider.issuer && !document.issuer.includes('{tenantid}')) {
+    throw new Error(`OIDC discovery issuer mismatch for ${provider.id}`);
+  }
+
+  discoveryCache.set(provider.issuer, { document, expiresAt: Date.now() + DISCOVERY_CACHE_TTL_MS });
+  return document;
+}
+
+/**
+ * Build the provider authorization URL and store the pending request
+ * @param db - D1 database instance
+ * @param provider - Provider configuration
+ * @param redirectUri - Callback URL registered with the provider
+ * @param redirectTo - In-app path to return to after login
+ * @returns Authorization URL and the plain state value for the state cookie
+ */
+export async function createAuthorizationRequest(
+  db: D1Database,
+  provider: OidcProvider,
+  redirectUri: string,
+  redirectTo: string | null
+): Promise<{ url: string; state: string }> {
+  const discovery = await discover(provider);
+
+  const state = generateSecureToken();
+  const nonce = generateSecureToken();
+  const codeVerifier = base64UrlEncode(crypto.getRandomValues(new Uint8Array(32)));
+  const codeChallenge = base64UrlEncode(
+    new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(codeVerifier)))
+  );
+  const expiresAt = new Date(Date.now() + OIDC_STATE_TTL_SECONDS * 1000).toISOString();
+
+  await executeMutation(
+    db,
+    `INSERT INTO oidc_login_states (state_hash, provider, nonce, code_verifier, redirect_to, created_at, expires_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?)`,
+    [await hashToken(state), provider.id, nonce, codeVerifier, redirectTo, new Date().toISOString(), expiresAt]
+  );
+
+  const url = new URL(discovery.authorization_endpoint);
+  url.searchParams.set('response_type', 'code');
+  url.searchParams.set('client_id', provider.clientId);
+  url.searchParams.set('redirect_uri', redirectUri);
+  url.searchParams.set('scope', 'openid email profile');
+  url.searchParams.set('state', state);
+  url.searchParams.set('nonce', nonce);
+  url.searchParams.set('code_challenge', codeChallenge);
+  url.searchParams.set('code_challenge_method', 'S256');
+
+  return { url: url.toString(), state };
+}
+
+/**
+ * Take a pending authorization request (single-use)
+ * @param db - D1 database instance
+ * @param provider - Provider the callback arrived for
+ * @param state - State parameter from the callback
+ * @returns Nonce, PKCE verifier and return path, or null if invalid or expired
+ */
+export async function consumeAuthorizationRequest(
+  db: D1Database,
+  provider: OidcProvider,
+  state: string
+): Promise<{ nonce: string; codeVerifier: string; redirectTo: string | null } | null> {
+  const stateHash = await hashToken(state);
+
+  const row = await executeQueryFirst<OidcLoginStateRow>(
+    db,
+    // Deleting and reading in one statement means only one callback can take it
+    `DELETE FROM oidc_login_states WHERE state_hash = ?
+     RETURNING provider, nonce, code_verifier, redirect_to, expires_at`,
+    [stateHash]
+  );
+
+  if (!row || row.provider !== provider.id || new Date() > new Date(row.expires_at)) {
+    return null;
+  }
+
+  return { nonce: row.nonce, codeVerifier: row.code_verifier, redirectTo: row.redirect_to };
+}
+
+/**
+ * Exchange an authorization code and verify the returned ID token
+ * @param provider - Provider configuration
+ * @param code - Authorization code from the callback
+ * @param redirectUri - Same callback URL used in the authorization request
+ * @param pending - Nonce and PKCE verifier from the authorization request
+ * @returns Verified identity claims
+ * @throws Error if the exchange or any ID token check fails
+ */
+export async function exchangeCodeForClaims(
+  provider: OidcProvider,
+  code: string,
+  redirectUri: string,
+  pending: { nonce: string; codeVerifier: string }
+): Promise<OidcClaims> {
+  const discovery = await discover(provider);
+
+  const tokenResponse = await fetch(discovery.token_endpoint, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      Accept: 'application/json',
+    },
+    body: new URLSearchParams({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: redirectUri,
+      client_id: provider.clientId,
+      client_secret: provider.clientSecret,
+      code_verifier: pending.codeVerifier,
+    }),
+  });
+
+  if (!tokenResponse.ok) {
+    throw new Error(`OIDC token exchange failed with status ${tokenResponse.status}`);
+  }
+
+  const { id_token: idToken } = await tokenResponse.json() as { id_token?: string };
+  if (!idToken) {
+    throw new Error('OIDC token response did not include an ID token');
+  }
+
+  let jwks = jwksCache.get(discovery.jwks_uri);
+  if (!jwks) {
+    jwks = createRemoteJWKSet(new URL(discovery.jwks_uri));
+    jwksCache.set(discovery.jwks_uri, jwks);
+  }
+
+  const { payload } = await jwtVerify(idToken, jwks, {
+    audience: provider.clientId,
+  });
+
+  const claims = payload as JWTPayload & {
+    nonce?: string;
+    email?: string;
+    email_verified?: boolean | string;
+    name?: string;
+    tid?: string;
+  };
+
+  // Issuer check, resolving multi-tenant templates with the token's tenant ID
+  const expectedIssuer = discovery.issuer.replace('{tenantid}', claims.tid || '');
+  if (claims.iss !== expectedIssuer) {
+    throw new Error('OIDC ID token issuer mismatch');
+  }
+
+  if (claims.nonce !== pending.nonce) {
+    throw new Error('OIDC ID token nonce mismatch');
+  }
+
+  if (!claims.sub) {
+    throw new Error('OIDC ID token is missing a subject');
+  }
+
+  const emailVerified = claims.email_verified === true || claims.email_verified === 'true';
+
+  return {
+    subject: claims.sub,
+    email: claims.email ? claims.email.toLowerCase() : null,
+    emailVerified: emailVerified || (provider.trustEmail && !!claims.email),
+    name: claims.name || null,
+  };
+}
@@ -0,0 +1,246 @@
+import { NextRequest } from 'next/server';
+import type { AuthenticatorTransportFuture, WebAuthnCredential } from '@simplewebauthn/server';
+import { isoBase64URL } from '@simplewebauthn/server/helpers';
+import { executeQuery, executeQueryFirst, executeMutation } from '@/lib/d1-client';
+
+// Cookie that binds a browser to its pending ceremony challenge
+export const PASSKEY_CHALLENGE_COOKIE = 'passkey-challenge';
+
+// Ceremonies must be completed within five minutes
+export const PASSKEY_CHALLENGE_TTL_SECONDS = 5 * 60;
+
+export type PasskeyChallengePurpose = 'registration' | 'authentication';
+
+interface PasskeyRow {
+  id: string;
+  user_id: string;
+  public_key: string;
+  counter: number;
+  transports: string | null;
+  device_type: string | null;
+  backed_up: number;
+  name: string;
+  created_at: string;
+  last_used_at: string | null;
+}
+
+export interface Passkey {
+  id: string;
+  userId: string;
+  name: string;
+  deviceType: string | null;
+  backedUp: boolean;
+  createdAt: string;
+  lastUsedAt: string | null;
+  credential: WebAuthnCredential;
+}
+
+/**
+ * Map a webauthn_credentials row to a Passkey
+ * @param row - Database row
+ * @returns Passkey with a decoded WebAuthn credential
+ */
+function toPasskey(row: PasskeyRow): Passkey {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    name: row.name,
+    deviceType: row.device_type,
+    backedUp: row.backed_up === 1,
+    createdAt: row.created_at,
+    lastUsedAt: row.last_used_at,
+    credential: {
+      id: row.id,
+      publicKey: isoBase64URL.toBuffer(row.public_key),
+      counter: row.counter,
+      transports: row.transports
+        ? (JSON.parse(row.transports) as AuthenticatorTransportFuture[])
+        : undefined,
+    },
+  };
+}
+
+/**
+ * Resolve the WebAuthn relying party for a request
+ * WEBAUTHN_RP_ID / WEBAUTHN_ORIGIN override the request host (e.g. behind a proxy).
+ * @param request - Incoming request
+ * @returns Relying party ID, display name and expected origin
+ */
+export function getRelyingParty(request: NextRequest): {
+  rpID: string;
+  rpName: string;
+  origin: string;
+} {
+  return {
+    rpID: process.env.WEBAUTHN_RP_ID || request.nextUrl.hostname,
+    rpName: 'QuizMaker',
+    origin: process.env.WEBAUTHN_ORIGIN || request.nextUrl.origin,
+  };
+}
+
+/**
+ * Store a ceremony challenge
+ * @param db - D1 database instance
+ * @param challenge - Base64url challenge from the generated options
+ * @param purpose - Ceremony type
+ * @param userId - User registering a passkey (omit for passwordless login)
+ * @returns Challenge ID to hand to the browser in a cookie
+ */
+export async function saveChallenge(
+  db: D1Database,
+  challenge: string,
+  purpose: PasskeyChallengePurpose,
+  userId?: string
+): Promise<string> {
+  const id = crypto.randomUUID();
+  const expiresAt = new Date(Date.now() + PASSKEY_CHALLENGE_TTL_SECONDS * 1000).toISOString();
+
+  await executeMutation(
+    db,
+    `INSERT INTO webauthn_challenges (id, user_id, challenge, purpose, created_at, expires_at)
+     VALUES (?, ?, ?, ?, ?, ?)`,
+    [id, userId || null, challenge, purpose, new Date().toISOString(), expiresAt]
+  );
+
+  return id;
+}
+
+/**
+ * Take a pending ceremony challenge (single-use)
+ * @param db - D1 database instance
+ * @param challengeId - Challenge ID from the cookie
+ * @param purpose - Expected ceremony type
+ * @returns Challenge and owning user, or null if missing, expired or of the wrong type
+ */
+export async function consumeChallenge(
+  db: D1Database,
+  challengeId: string,
+  purpose: PasskeyChallengePurpose
+): Promise<{ challenge: string; userId: string | null } | null> {
+  const row = await executeQueryFirst<{
+    challenge: string;
+    user_id: string | null;
+    purpose: string;
+    expires_at: string;
+  }>(
+    db,
+    // Deleting and reading in one statement means only one request can take it
+    'DELETE FROM webauthn_challenges WHERE id = ? RETURNING challenge, user_id, purpose, expires_at',
+    [challengeId]
+  );
+
+  if (!row || row.purpose !== purpose || new Date() > new Date(row.expires_at)) {
+    return null;
+  }
+
+  return { challenge: row.challenge, userId: row.user_id };
+}
+
+/**
+ * Get all passkeys registered by a user
+ * @param db - D1 database instance
+ * @param userId - User ID
+ * @returns Array of passkeys, newest first
+ */
+export async function getUserPasskeys(
+  db: D1Database,
+  userId: string
+): Promise<Passkey[]> {
+  const rows = await executeQuery<PasskeyRow>(
+    db,
+    'SELECT * FROM webauthn_credentials WHERE user_id = ? ORDER BY created_at DESC',
+    [userId]
+  );
+
+  return rows.map(toPasskey);
+}
+
+/**
+ * Get a passkey by credential ID
+ * @param db - D1 database instance
+ * @param credentialId - Base64url credential ID
+ * @returns Passkey or null if not registered
+ */
+export async function getPasskey(
+  db: D1Database,
+  credentialId: string
+): Promise<Passkey | null> {
+  const row = await executeQueryFirst<PasskeyRow>(
+    db,
+    'SELECT * FROM webauthn_credentials WHERE id = ?',
+    [credentialId]
+  );
+
+  return row ? toPasskey(row) : null;
+}
+
+/**
+ * Store a newly registered passkey
+ * @param db - D1 database instance
+ * @param userId - Owning user
+ * @param credential - Verified credential from the registration ceremony
+ * @param details - Label and backup state
+ */
+export async function savePasskey(
+  db: D1Database,
+  userId: string,
+  credential: WebAuthnCredential,
+  details: {
+    name: string;
+    deviceType: string;
+    backedUp: boolean;
+  }
+): Promise<void> {
+  await executeMutation(
+    db,
+    `INSERT INTO webauthn_credentials (id, user_id, public_key, counter, transports, device_type, backed_up, name, created_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      credential.id,
+      userId,
+      isoBase64URL.fromBuffer(credential.publicKey),
+      credential.counter,
+      credential.transports ? JSON.stringify(credential.transports) : null,
+      details.deviceType,
+      details.backedUp ? 1 : 0,
+      details.name,
+      new Date().toISOString(),
+    ]
+  );
+}
+
+/**
+ * Record a successful assertion
+ * @param db - D1 database instance
+ * @param credentialId - Credential used
+ * @param counter - New signature counter reported by the authenticator
+ */
+export async function updatePasskeyUsage(
+  db: D1Database,
+  credentialId: string,
+  counter: number
+): Promise<void> {
+  await executeMutation(
+    db,
+    'UPDATE webauthn_credentials SET counter = ?, last_used_at = ? WHERE id = ?',
+    [counter, new Date().toISOString(), credentialId]
+  );
+}
+
+/**
+ * Delete one of a user's passkeys
+ * @param db - D1 database instance
+ * @param userId - Owning user (security check)
+ * @param credentialId - Credential to delete
+ */
+export async function deletePasskey(
+  db: D1Database,
+  userId: string,
+  credentialId: string
+): Promise<void> {
+  await executeMutation(
+    db,
+    'DELETE FROM webauthn_credentials WHERE id = ? AND user_id = ?',
+    [credentialId, userId]
+  );
+}
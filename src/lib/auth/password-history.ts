@@ -0,0 +1,87 @@
+import { executeQuery, executeMutation, type BatchStatement } from '@/lib/d1-client';
+import { verifyPassword } from '@/lib/auth/password';
+import { DEFAULT_PASSWORD_POLICY, type PasswordPolicy } from '@/lib/auth/password-policy';
+import { UserRepository } from '@/lib/repositories/user-repository';
+
+/**
+ * Check whether a password matches the user's current or a recent password
+ * @param db - D1 database instance
+ * @param userId - User setting a new password
+ * @param password - Candidate password
+ * @param policy - Policy giving the history size (defaults to DEFAULT_PASSWORD_POLICY)
+ * @returns True if the password may not be reused
+ */
+export async function isPasswordReused(
+  db: D1Database,
+  userId: string,
+  password: string,
+  policy: PasswordPolicy = DEFAULT_PASSWORD_POLICY
+): Promise<boolean> {
+  if (policy.historySize === 0) {
+    return false;
+  }
+
+  // The current hash is checked too, for passwords set before history was kept
+  const current = await UserRepository.findById(db, userId);
+
+  const history = await executeQuery<{ password_hash: string }>(
+    db,
+    `SELECT password_hash FROM password_history
+     WHERE user_id = ?
+     ORDER BY created_at DESC
+     LIMIT ?`,
+    [userId, policy.historySize]
+  );
+
+  const hashes = new Set(history.map((row) => row.password_hash));
+  if (current) {
+    hashes.add(current.passwordHash);
+  }
+
+  for (const hash of hashes) {
+    if (await verifyPassword(password, hash)) {
+      return true;
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Build the insert that adds a password to a user's history
+ * @param userId - User who set the password
+ * @param passwordHash - bcrypt hash of the new password
+ * @returns Statement to run alone or in a batch
+ */
+export function passwordHistoryStatement(userId: string, passwordHash: string): BatchStatement {
+  return {
+    sql: 'INSERT INTO password_history (id, user_id, password_hash, created_at) VALUES (?, ?, ?, ?)',
+    params: [crypto.randomUUID(), userId, passwordHash, new Date().toISOString()],
+  };
+}
+
+/**
+ * Remember a newly set password and forget those beyond the history size
+ * @param db - D1 database instance
+ * @param userId - User who set the password
+ * @param passwordHash - bcrypt hash of the new password
+ * @param policy - Policy giving the history size (defaults to DEFAULT_PASSWORD_POLICY)
+ */
+export async function recordPasswordHistory(
+  db: D1Database,
+  userId: string,
+  passwordHash: string,
+  policy: PasswordPolicy = DEFAULT_PASSWORD_POLICY
+): Promise<void> {
+  const insert = passwordHistoryStatement(userId, passwordHash);
+  await executeMutation(db, insert.sql, insert.params);
+
+  await executeMutation(
+    db,
+    `DELETE FROM password_history
+     WHERE user_id = ? AND id NOT IN (
+       SELECT id FROM password_history WHERE user_id = ? ORDER BY created_at DESC LIMIT ?
+     )`,
+    [userId, userId, policy.historySize]
+  );
+}
@@ -0,0 +1,239 @@
+import { BREACHED_PASSWORD_FILTER } from '@/lib/auth/breached-password-filter';
+
+// No server-only imports here: the signup and reset pages evaluate passwords
+// live with the same rules the API enforces. Password history needs the
+// database and is checked separately (see password-history.ts).
+
+export interface PasswordPolicy {
+  minLength: number;
+  minEntropyBits: number; // See estimateEntropyBits
+  rejectBreached: boolean; // Check the bundled breached-password filter
+  historySize: number; // Number of previous passwords that may not be reused; 0 disables
+}
+
+export const DEFAULT_PASSWORD_POLICY: PasswordPolicy = {
+  minLength: 8,
+  minEntropyBits: 45,
+  rejectBreached: true,
+  historySize: 5,
+};
+
+export type PasswordCheckId = 'length' | 'strength' | 'breached';
+
+export interface PasswordCheck {
+  id: PasswordCheckId;
+  passed: boolean;
+  message: string;
+}
+
+// 0 = very weak ... 4 = strong
+export type PasswordScore = 0 | 1 | 2 | 3 | 4;
+
+export interface PasswordFeedback {
+  valid: boolean;
+  score: PasswordScore;
+  entropyBits: number;
+  checks: PasswordCheck[];
+  errors: string[]; // Messages of the failed checks
+}
+
+export const PASSWORD_SCORE_LABELS: Record<PasswordScore, string> = {
+  0: 'Very weak',
+  1: 'Weak',
+  2: 'Fair',
+  3: 'Good',
+  4: 'Strong',
+};
+
+// Entropy needed for each score above 0
+const SCORE_THRESHOLDS = [25, 35, 45, 60];
+
+// Characters of a repeated or sequential run that add a bit each; the rest add nothing
+const MAX_RUN_BITS = 3;
+
+const KEYBOARD_ROWS = ['1234567890', 'qwertyuiop', 'asdfghjkl', 'zxcvbnm'];
+
+/**
+ * Whether two characters are neighbours in the alphabet, the digits or a keyboard row
+ * @param a - Previous character
+ * @param b - Current character
+ * @returns True if b follows or precedes a
+ */
+function isSequential(a: string, b: string): boolean {
+  const x = a.toLowerCase();
+  const y = b.toLowerCase();
+
+  if (/[a-z0-9]/.test(x) && /[a-z0-9]/.test(y) && Math.abs(x.charCodeAt(0) - y.charCodeAt(0)) === 1) {
+    return true;
+  }
+
+  return KEYBOARD_ROWS.some((row) => {
+    const i = row.indexOf(x);
+    return i !== -1 && (row[i + 1] === y || row[i - 1] === y);
+  });
+}
+
+/**
+ * Estimate how many bits of guessing a password resists
+ * Starts from the size of the character pool and discounts what attackers try
+ * first: repeated and sequential characters, a capital only at the start, and
+ * digits or symbols only at the end ("Summer2024!").
+ * @param password - Password to estimate
+ * @returns Estimated entropy in bits
+ */
+export function estimateEntropyBits(password: string): number {
+  if (!password) return 0;
+
+  const capitalized = /^[A-Z]/.test(password);
+  const suffixStart = password.search(/[^A-Za-z]*$/);
+  const core = password.slice(capitalized ? 1 : 0, suffixStart);
+
+  let pool = 0;
+  if (/[a-z]/.test(core)) pool += 26;
+  if (/[A-Z]/.test(core)) pool += 26;
+  if (/[0-9]/.test(core)) pool += 10;
+  if (/[^A-Za-z0-9]/.test(core)) pool += 33;
+
+  // A password that is all capital and suffix still gets a minimal pool
+  const bitsPerChar = Math.log2(Math.max(pool, 10));
+  let bits = 0;
+  // Characters so far in the current run of repeats or sequences ("aaaa", "1234")
+  let runLength = 0;
+
+  for (let i = 0; i < password.length; i++) {
+    const char = password[i];
+
+    if (i > 0 && (char === password[i - 1] || isSequential(password[i - 1], char))) {
+      // Guessing where a run stops is worth a bit or so; a long run adds nothing more
+      runLength++;
+      if (runLength <= MAX_RUN_BITS) {
+        bits += 1;
+      }
+      continue;
+    }
+
+    runLength = 0;
+
+    if (i === 0 && capitalized && !/[A-Z]/.test(core)) {
+      // Any letter, plus one bit for the capital
+      bits += Math.log2(26) + 1;
+    } else if (i >= suffixStart) {
+      bits += Math.log2(/[0-9]/.test(char) ? 10 : 33);
+    } else {
+      bits += bitsPerChar;
+    }
+  }
+
+  return Math.round(bits);
+}
+
+/**
+ * FNV-1a hash of a string
+ * @param value - String to hash
+ * @param seed - Offset basis
+ * @returns Unsigned 32-bit hash
+ */
+function fnv1a(value: string, seed: number): number {
+  let hash = seed >>> 0;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash;
+}
+
+let filterBits: Uint8Array | null = null;
+
+/**
+ * Whether a (lower-cased) password is in the breached-password Bloom filter
+ * Bloom filters have no false negatives; the filter is sized for a false
+ * positive rate of about one in a million.
+ * @param candidate - Lower-cased password
+ * @returns True if the password is (almost certainly) in the list
+ */
+function inBreachedFilter(candidate: string): boolean {
+  const { size, hashes, bits } = BREACHED_PASSWORD_FILTER;
+
+  if (!filterBits) {
+    filterBits = Uint8Array.from(atob(bits), (c) => c.charCodeAt(0));
+  }
+
+  // Double hashing: the i-th index is h1 + i * h2
+  const h1 = fnv1a(candidate, 0x811c9dc5);
+  const h2 = fnv1a(candidate, 0x01000193) | 1;
+
+  for (let i = 0; i < hashes; i++) {
+    const index = (h1 + Math.imul(i, h2)) >>> 0;
+    const bit = index % size;
+    if ((filterBits[bit >> 3] & (1 << (bit & 7))) === 0) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Check a password against the bundled list of breached passwords
+ * Also catches a listed password with digits or symbols added at the end.
+ * @param password - Password to check
+ * @returns True if the password or its base is a known breached password
+ */
+export function isBreachedPassword(password: string): boolean {
+  const lower = password.toLowerCase();
+  const base = lower.replace(/[^a-z]+$/, '');
+
+  return inBreachedFilter(lower) || (base.length >= 4 && inBreachedFilter(base));
+}
+
+/**
+ * Score an entropy estimate
+ * @param entropyBits - Estimated entropy
+ * @returns Score from 0 (very weak) to 4 (strong)
+ */
+function toScore(entropyBits: number): PasswordScore {
+  return SCORE_THRESHOLDS.filter((threshold) => entropyBits >= threshold).length as PasswordScore;
+}
+
+/**
+ * Evaluate a password against a policy
+ * @param password - Password to evaluate
+ * @param policy - Policy to apply (defaults to DEFAULT_PASSWORD_POLICY)
+ * @returns Score and the outcome of every check, for display or enforcement
+ */
+export function evaluatePassword(
+  password: string,
+  policy: PasswordPolicy = DEFAULT_PASSWORD_POLICY
+): PasswordFeedback {
+  const entropyBits = estimateEntropyBits(password);
+  const checks: PasswordCheck[] = [
+    {
+      id: 'length',
+      passed: password.length >= policy.minLength,
+      message: `Use at least ${policy.minLength} characters`,
+    },
+    {
+      id: 'strength',
+      passed: entropyBits >= policy.minEntropyBits,
+      message: 'Make it harder to guess: add words or mix in characters that are not at the start or end',
+    },
+  ];
+
+  if (policy.rejectBreached) {
+    checks.push({
+      id: 'breached',
+      passed: !isBreachedPassword(password),
+      message: 'Avoid common passwords that have appeared in data breaches',
+    });
+  }
+
+  const errors = checks.filter((check) => !check.passed).map((check) => check.message);
+
+  return {
+    valid: errors.length === 0,
+    score: toScore(entropyBits),
+    entropyBits,
+    checks,
+    errors,
+  };
+}
@@ -0,0 +1,134 @@
+import { executeQueryFirst, executeMutation } from '@/lib/d1-client';
+import { generateSecureToken, hashToken } from '@/lib/auth/tokens';
+import { sendEmail } from '@/lib/email';
+
+// Reset links are valid for one hour
+const RESET_TOKEN_TTL_MS = 60 * 60 * 1000;
+
+interface PasswordResetTokenRow {
+  id: string;
+  user_id: string;
+  expires_at: string;
+  used_at: string | null;
+}
+
+/**
+ * Issue a new password reset token for a user
+ * Any previously issued, unused tokens for the user are invalidated.
+ * @param db - D1 database instance
+ * @param userId - User requesting the reset
+ * @param metadata - Optional request metadata (IP)
+ * @returns Plain reset token (only the hash is stored)
+ */
+export async function createPasswordResetToken(
+  db: D1Database,
+  userId: string,
+  metadata: {
+    ipAddress?: string;
+  } = {}
+): Promise<string> {
+  const token = generateSecureToken();
+  const tokenHash = await hashToken(token);
+  const now = new Date().toISOString();
+  const expiresAt = new Date(Date.now() + RESET_TOKEN_TTL_MS).toISOString();
+
+  await executeMutation(
+    db,
+    'UPDATE password_reset_tokens SET used_at = ? WHERE user_id = ? AND used_at IS NULL',
+    [now, userId]
+  );
+
+  await executeMutation(
+    db,
+    `INSERT INTO password_reset_tokens (id, user_id, token_hash, ip_address, created_at, expires_at)
+     VALUES (?, ?, ?, ?, ?, ?)`,
+    [crypto.randomUUID(), userId, tokenHash, metadata.ipAddress || null, now, expiresAt]
+  );
+
+  return token;
+}
+
+/**
+ * Issue a reset token and email the reset link to the user
+ * @param db - D1 database instance
+ * @param user - User to send the link to
+ * @param origin - App origin used to build the link (e.g. https://quizmaker.app)
+ * @param metadata - Optional request metadata (IP)
+ */
+export async function sendPasswordResetEmail(
+  db: D1Database,
+  user: { id: string; email: string },
+  origin: string,
+  metadata: {
+    ipAddress?: string;
+  } = {}
+): Promise<void> {
+  const token = await createPasswordResetToken(db, user.id, metadata);
+
+  const resetUrl = new URL('/reset-password', origin);
+  resetUrl.searchParams.set('token', token);
+
+  await sendEmail({
+    to: user.email,
+    subject: 'Reset your QuizMaker password',
+    text: [
+      'We received a request to reset your QuizMaker password.',
+      '',
+      `Reset your password: ${resetUrl.toString()}`,
+      '',
+      'This link expires in 1 hour and can only be used once.',
+      "If you didn't request this, you can safely ignore this email.",
+    ].join('\n'),
+  });
+}
+
+/**
+ * Look up who a password reset token belongs to without redeeming it
+ * @param db - D1 database instance
+ * @param token - Plain reset token from the emailed link
+ * @returns User ID the token was issued for, or null if invalid, used or expired
+ */
+export async function findPasswordResetTokenUser(
+  db: D1Database,
+  token: string
+): Promise<string | null> {
+  const tokenHash = await hashToken(token);
+
+  const row = await executeQueryFirst<PasswordResetTokenRow>(
+    db,
+    'SELECT id, user_id, expires_at, used_at FROM password_reset_tokens WHERE token_hash = ?',
+    [tokenHash]
+  );
+
+  if (!row || row.used_at || new Date() > new Date(row.expires_at)) {
+    return null;
+  }
+
+  return row.user_id;
+}
+
+/**
+ * Redeem a password reset token
+ * Claimed with a single conditional UPDATE, so concurrent requests cannot
+ * both redeem the same token.
+ * @param db - D1 database instance
+ * @param token - Plain reset token from the emailed link
+ * @returns User ID the token was issued for, or null if invalid, used or expired
+ */
+export async function consumePasswordResetToken(
+  db: D1Database,
+  token: string
+): Promise<string | null> {
+  const tokenHash = await hashToken(token);
+  const now = new Date().toISOString();
+
+  const claimed = await executeQueryFirst<{ user_id: string }>(
+    db,
+    `UPDATE password_reset_tokens SET used_at = ?
+     WHERE token_hash = ? AND used_at IS NULL AND expires_at > ?
+     RETURNING user_id`,
+    [now, tokenHash, now]
+  );
+
+  return claimed?.user_id || null;
+}
@@ -1,4 +1,10 @@
 import bcrypt from 'bcryptjs';
+import {
+  evaluatePassword,
+  DEFAULT_PASSWORD_POLICY,
+  type PasswordPolicy,
+  type PasswordFeedback,
+} from '@/lib/auth/password-policy';
 
 const SALT_ROUNDS = 10;
 
@@ -25,35 +31,16 @@ export async function verifyPassword(
 }
 
 /**
- * Validate password strength according to security requirements
+ * Validate a new password against the password policy
+ * Covers length, estimated strength and the breached-password list; reuse of
+ * recent passwords needs the database and is checked with isPasswordReused.
  * @param password - Password to validate
- * @returns Validation result with errors if any
+ * @param policy - Policy to apply (defaults to DEFAULT_PASSWORD_POLICY)
+ * @returns Validation result with errors and per-check feedback
  */
-export function validatePasswordStrength(password: string): {
-  valid: boolean;
-  errors: string[];
-} {
-  const errors: string[] = [];
-
-  if (password.length < 8) {
-    errors.push('Password must be at least 8 characters long');
-  }
-
-  if (!/[A-Z]/.test(password)) {
-    errors.push('Password must contain at least one uppercase letter');
-  }
-
-  if (!/[a-z]/.test(password)) {
-    errors.push('Password must contain at least one lowercase letter');
-  }
-
-  if (!/[0-9]/.test(password)) {
-    errors.push('Password must contain at least one number');
-  }
-
-  return {
-    valid: errors.length === 0,
-    errors,
-  };
+export function validatePasswordStrength(
+  password: string,
+  policy: PasswordPolicy = DEFAULT_PASSWORD_POLICY
+): PasswordFeedback {
+  return evaluatePassword(password, policy);
 }
-
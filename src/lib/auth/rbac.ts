@@ -0,0 +1,73 @@
+export type Role = 'student' | 'teacher' | 'admin';
+
+export type Permission =
+  | 'mcqs:read' // view and attempt quizzes
+  | 'mcqs:manage' // create, edit and delete own quizzes
+  | 'users:read' // list users and their security activity
+  | 'users:manage' // change roles, deactivate accounts, revoke sessions
+  | 'admin:access'; // open the admin console
+
+export const ROLES: Role[] = ['student', 'teacher', 'admin'];
+
+// Role given to new accounts (signup, first-time OIDC sign-in)
+export const DEFAULT_ROLE: Role = 'teacher';
+
+const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  student: ['mcqs:read'],
+  teacher: ['mcqs:read', 'mcqs:manage'],
+  admin: ['mcqs:read', 'mcqs:manage', 'users:read', 'users:manage', 'admin:access'],
+};
+
+/**
+ * What a route or page requires; every field given must be satisfied
+ */
+export interface AccessRequirement {
+  role?: Role | Role[];
+  permission?: Permission | Permission[];
+}
+
+/**
+ * Check that a value is a known role
+ * @param value - Value to check (e.g. a JWT claim or request body field)
+ * @returns True if value is a Role
+ */
+export function isRole(value: unknown): value is Role {
+  return typeof value === 'string' && (ROLES as string[]).includes(value);
+}
+
+/**
+ * Check whether a role grants a permission
+ * @param role - User's role
+ * @param permission - Permission to check
+ * @returns True if the role has the permission
+ */
+export function hasPermission(role: Role, permission: Permission): boolean {
+  return ROLE_PERMISSIONS[role].includes(permission);
+}
+
+/**
+ * Check a role against an access requirement
+ * Pure and dependency-free so both middleware and route handlers can use it.
+ * @param role - User's role
+ * @param requirement - Required role(s) and/or permission(s)
+ * @returns True if access is allowed
+ */
+export function meetsRequirement(role: Role, requirement: AccessRequirement): boolean {
+  if (requirement.role) {
+    const roles = Array.isArray(requirement.role) ? requirement.role : [requirement.role];
+    if (!roles.includes(role)) {
+      return false;
+    }
+  }
+
+  if (requirement.permission) {
+    const permissions = Array.isArray(requirement.permission)
+      ? requirement.permission
+      : [requirement.permission];
+    if (!permissions.every((permission) => hasPermission(role, permission))) {
+      return false;
+    }
+  }
+
+  return true;
+}
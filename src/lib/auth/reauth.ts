@@ -0,0 +1,72 @@
+import { executeQueryFirst } from '@/lib/d1-client';
+import { verifyPassword } from '@/lib/auth/password';
+import { UserRepository } from '@/lib/repositories/user-repository';
+
+// A sign-in this recent on the same session stands in for re-entering the password
+export const REAUTH_WINDOW_MINUTES = 10;
+
+export type ReauthResult = 'confirmed' | 'password_required' | 'incorrect_password';
+
+/**
+ * Whether the session was opened by a sign-in within the re-authentication window
+ * Only accounts without a usable password (created through a sign-in
+ * provider) may confirm sensitive changes this way; see confirmReauthentication.
+ * @param db - D1 database instance
+ * @param userId - User ID
+ * @param sessionId - Session making the request
+ * @returns True if login_success was recorded for this session recently
+ */
+export async function hasRecentLogin(
+  db: D1Database,
+  userId: string,
+  sessionId: string
+): Promise<boolean> {
+  const since = new Date(Date.now() - REAUTH_WINDOW_MINUTES * 60 * 1000).toISOString();
+
+  const event = await executeQueryFirst<{ id: string }>(
+    db,
+    `SELECT id FROM auth_events
+     WHERE user_id = ? AND session_id = ? AND event_type = 'login_success' AND created_at > ?
+     LIMIT 1`,
+    [userId, sessionId, since]
+  );
+
+  return !!event;
+}
+
+/**
+ * Confirm the user before a sensitive change (account deletion, email change, MFA)
+ * Accounts with a password must re-enter it. Accounts without a usable one
+ * (created through a sign-in provider) confirm with a fresh sign-in on this
+ * session instead.
+ * @param db - D1 database instance
+ * @param userId - User ID
+ * @param sessionId - Session making the request
+ * @param password - Password entered by the user, if any
+ * @returns 'confirmed', or why the change must be refused
+ */
+export async function confirmReauthentication(
+  db: D1Database,
+  userId: string,
+  sessionId: string,
+  password?: string
+): Promise<ReauthResult> {
+  const user = await UserRepository.findById(db, userId);
+
+  if (!user) {
+    return 'incorrect_password';
+  }
+
+  if (!password) {
+    if (user.hasPassword) {
+      return 'password_required';
+    }
+    return (await hasRecentLogin(db, userId, sessionId)) ? 'confirmed' : 'password_required';
+  }
+
+  if (!(await verifyPassword(password, user.passwordHash))) {
+    return 'incorrect_password';
+  }
+
+  return 'confirmed';
+}
@@ -0,0 +1,30 @@
+// Placeholder origin for resolving a path; only whether it stays put matters
+const RESOLVE_ORIGIN = 'http://localhost';
+
+/**
+ * Whether a post-login return path stays inside the app (no open redirects)
+ * Browsers treat "\" like "/" and strip tabs and newlines from URLs, so
+ * "/\evil.com" or "/\t/evil.com" would leave the site; those are rejected along
+ * with anything that does not resolve to the same origin.
+ * Safe to call from both routes and client components.
+ * @param path - Return path from a query parameter or stored login state
+ * @returns True if the path is a same-origin, absolute in-app path
+ */
+export function isSafeRedirect(path: string | null | undefined): path is string {
+  if (!path || !path.startsWith('/') || path.startsWith('//')) {
+    return false;
+  }
+
+  for (const char of path) {
+    const code = char.charCodeAt(0);
+    if (char === '\\' || code < 0x20 || code === 0x7f) {
+      return false;
+    }
+  }
+
+  try {
+    return new URL(path, RESOLVE_ORIGIN).origin === RESOLVE_ORIGIN;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,59 @@
+import { NextRequest } from 'next/server';
+import { getCloudflareContext } from '@opennextjs/cloudflare';
+
+export interface RequestLocation {
+  country?: string;
+  region?: string;
+  city?: string;
+}
+
+/**
+ * Get the client IP for a request
+ * Prefers Cloudflare's CF-Connecting-IP, then the first X-Forwarded-For hop.
+ * @param request - Incoming request
+ * @returns Client IP, or 'unknown'
+ */
+export function getClientIp(request: NextRequest): string {
+  return (
+    request.headers.get('cf-connecting-ip') ||
+    request.headers.get('x-forwarded-for')?.split(',')[0].trim() ||
+    request.headers.get('x-real-ip') ||
+    'unknown'
+  );
+}
+
+/**
+ * Get the user agent for a request
+ * @param request - Incoming request
+ * @returns User agent string, or undefined if not sent
+ */
+export function getUserAgent(request: NextRequest): string | undefined {
+  return request.headers.get('user-agent') || undefined;
+}
+
+/**
+ * Get the approximate location of a request from Cloudflare's IP geolocation
+ * Reads the request's cf properties, falling back to the CF-IPCountry and
+ * CF-IPCity headers (the latter needs the "Add visitor location headers"
+ * managed transform). Empty outside Cloudflare, e.g. in local development.
+ * @param request - Incoming request
+ * @returns Country code, region and city where known
+ */
+export function getRequestLocation(request: NextRequest): RequestLocation {
+  let cf: IncomingRequestCfProperties | undefined;
+
+  try {
+    cf = getCloudflareContext().cf;
+  } catch {
+    cf = undefined;
+  }
+
+  const country = cf?.country || request.headers.get('cf-ipcountry') || undefined;
+
+  return {
+    // XX = unknown, T1 = Tor exit node
+    country: country && country !== 'XX' && country !== 'T1' ? country : undefined,
+    region: cf?.region || request.headers.get('cf-region') || undefined,
+    city: cf?.city || request.headers.get('cf-ipcity') || undefined,
+  };
+}
@@ -1,80 +1,96 @@
-import { executeQuery, executeQueryFirst, executeMutation } from '@/lib/d1-client';
+import { executeQueryFirst, executeMutation, executeBatch, type BatchStatement } from '@/lib/d1-client';
+import { hashToken, generateSecureToken } from '@/lib/auth/tokens';
+import { parseUserAgent, type DeviceInfo } from '@/lib/auth/user-agent';
+import type { RequestLocation } from '@/lib/auth/request';
+import { SessionRepository } from '@/lib/repositories/session-repository';
+import type { SessionRecord } from '@/lib/db-schema';
 
-export interface Session {
+// Sessions slide: each refresh pushes expiry out again
+const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+
+// A token rotated out this recently is not treated as reuse: another tab or
+// request presented it at the same time and won the race
+const REFRESH_REUSE_GRACE_SECONDS = 30;
+
+export const SESSION_NICKNAME_MAX_LENGTH = 50;
+
+export type Session = SessionRecord;
+
+/**
+ * A session as shown to its owner on the sessions page
+ * Returned by GET /api/auth/sessions.
+ */
+export interface SessionSummary {
   id: string;
-  userId: string;
-  tokenHash: string;
-  ipAddress?: string;
-  userAgent?: string;
+  nickname: string | null;
+  device: DeviceInfo;
+  ipAddress: string | null;
+  location: RequestLocation;
   createdAt: string;
-  expiresAt: string;
   lastActiveAt: string;
-  isActive: number;
+  isCurrent: boolean;
 }
 
-/**
- * Hash a session token for storage using Web Crypto API (Edge Runtime compatible)
- * @param token - Session token to hash
- * @returns Hashed token
- */
-async function hashToken(token: string): Promise<string> {
-  const encoder = new TextEncoder();
-  const data = encoder.encode(token);
-  const hashBuffer = await crypto.subtle.digest('SHA-256', data);
-  const hashArray = Array.from(new Uint8Array(hashBuffer));
-  const hashHex = hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
-  return hashHex;
+export interface SessionMetadata {
+  ipAddress?: string;
+  userAgent?: string;
+  location?: RequestLocation;
 }
 
 /**
- * Create a new session
- * @param db - D1 database instance
+ * Build the insert for a new session without running it
+ * Lets the session be created in the same batch as other writes (see signup).
  * @param userId - User ID for the session
- * @param token - Session token to hash and store
- * @param metadata - Optional session metadata (IP, user agent)
- * @returns Session ID
+ * @param token - Refresh token to hash and store
+ * @param metadata - Optional session metadata (IP, user agent, location)
+ * @returns Session ID and the statement that creates it
  */
-export async function createSession(
-  db: D1Database,
+export async function prepareSession(
   userId: string,
   token: string,
-  metadata: {
-    ipAddress?: string;
-    userAgent?: string;
-  }
-): Promise<string> {
+  metadata: SessionMetadata
+): Promise<{ sessionId: string; statement: BatchStatement }> {
   const sessionId = crypto.randomUUID();
   const tokenHash = await hashToken(token);
   const now = new Date().toISOString();
-  const expiresAt = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString(); // 7 days
+  const expiresAt = new Date(Date.now() + SESSION_TTL_MS).toISOString();
 
-  await executeMutation(
-    db,
-    `INSERT INTO sessions (id, user_id, token_hash, ip_address, user_agent, created_at, expires_at, last_active_at)
-     VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
-    [sessionId, userId, tokenHash, metadata.ipAddress || null, metadata.userAgent || null, now, expiresAt, now]
-  );
-
-  return sessionId;
+  return {
+    sessionId,
+    statement: SessionRepository.createStatement({
+      id: sessionId,
+      userId,
+      tokenHash,
+      ipAddress: metadata.ipAddress || null,
+      userAgent: metadata.userAgent || null,
+      country: metadata.location?.country || null,
+      region: metadata.location?.region || null,
+      city: metadata.location?.city || null,
+      createdAt: now,
+      expiresAt,
+    }),
+  };
 }
 
 /**
- * Get a session by ID
+ * Create a new session
  * @param db - D1 database instance
- * @param sessionId - Session ID to retrieve
- * @returns Session object or null if not found
+ * @param userId - User ID for the session
+ * @param token - Refresh token to hash and store
+ * @param metadata - Optional session metadata (IP, user agent, location)
+ * @returns Session ID
  */
-export async function getSession(
+export async function createSession(
   db: D1Database,
-  sessionId: string
-): Promise<Session | null> {
-  const session = await executeQueryFirst<Session>(
-    db,
-    'SELECT * FROM sessions WHERE id = ? AND is_active = 1',
-    [sessionId]
-  );
+  userId: string,
+  token: string,
+  metadata: SessionMetadata
+): Promise<string> {
+  const { sessionId, statement } = await prepareSession(userId, token, metadata);
+
+  await executeMutation(db, statement.sql, statement.params);
 
-  return session || null;
+  return sessionId;
 }
 
 /**
@@ -87,7 +103,7 @@ export async function validateSession(
   db: D1Database,
   sessionId: string
 ): Promise<boolean> {
-  const session = await getSession(db, sessionId);
+  const session = await SessionRepository.findActiveById(db, sessionId);
 
   if (!session) {
     return false;
@@ -104,13 +120,118 @@ export async function validateSession(
   }
 
   // Update last active time
-  await executeMutation(
+  await SessionRepository.touch(db, sessionId);
+
+  return true;
+}
+
+export type RefreshTokenRotation =
+  | { status: 'rotated'; sessionId: string; userId: string; refreshToken: string }
+  | { status: 'reused'; sessionId: string; userId: string }
+  | { status: 'superseded' }
+  | { status: 'invalid' };
+
+/**
+ * Look up the active session a refresh token belongs to
+ * @param db - D1 database instance
+ * @param token - Refresh token from the client
+ * @returns Session ID and owner, or null if the token is not current
+ */
+export async function findSessionByRefreshToken(
+  db: D1Database,
+  token: string
+): Promise<{ sessionId: string; userId: string } | null> {
+  const tokenHash = await hashToken(token);
+
+  const session = await SessionRepository.findByTokenHash(db, tokenHash);
+
+  return session?.isActive ? { sessionId: session.id, userId: session.userId } : null;
+}
+
+/**
+ * Exchange a refresh token for a new one
+ * The presented token is retired into refresh_token_history. If a retired token
+ * is ever presented again the session (the whole token family) is revoked,
+ * unless it was rotated out within the last few seconds by a concurrent
+ * refresh; that request is told the token was superseded instead.
+ * @param db - D1 database instance
+ * @param token - Refresh token from the client
+ * @returns Rotation result with the new refresh token, or why it was refused
+ */
+export async function rotateRefreshToken(
+  db: D1Database,
+  token: string
+): Promise<RefreshTokenRotation> {
+  const tokenHash = await hashToken(token);
+
+  const session = await SessionRepository.findByTokenHash(db, tokenHash);
+
+  if (!session) {
+    return await handleRetiredToken(db, tokenHash);
+  }
+
+  if (!session.isActive) {
+    return { status: 'invalid' };
+  }
+
+  if (new Date() > new Date(session.expiresAt)) {
+    await revokeSession(db, session.id);
+    return { status: 'invalid' };
+  }
+
+  const refreshToken = generateSecureToken();
+  const newTokenHash = await hashToken(refreshToken);
+  const expiresAt = new Date(Date.now() + SESSION_TTL_MS).toISOString();
+
+  // Swap only if the session still holds the presented token; the history row
+  // is written only when this request's swap took effect
+  const [swap] = await executeBatch(db, [
+    SessionRepository.replaceTokenStatement(session.id, tokenHash, newTokenHash, expiresAt),
+    {
+      sql: `INSERT INTO refresh_token_history (token_hash, session_id)
+            SELECT ?, id FROM sessions WHERE id = ? AND token_hash = ?`,
+      params: [tokenHash, session.id, newTokenHash],
+    },
+  ]);
+
+  if (swap.changes === 0) {
+    // A concurrent refresh rotated this token first
+    return await handleRetiredToken(db, tokenHash);
+  }
+
+  return { status: 'rotated', sessionId: session.id, userId: session.userId, refreshToken };
+}
+
+/**
+ * Decide what a presented token that is no longer current means
+ * @param db - D1 database instance
+ * @param tokenHash - Hash of the presented refresh token
+ * @returns Superseded within the grace period, reused (session revoked) after it, or invalid
+ */
+async function handleRetiredToken(
+  db: D1Database,
+  tokenHash: string
+): Promise<RefreshTokenRotation> {
+  const retired = await executeQueryFirst<{ session_id: string; user_id: string; is_recent: number }>(
     db,
-    'UPDATE sessions SET last_active_at = CURRENT_TIMESTAMP WHERE id = ?',
-    [sessionId]
+    `SELECT h.session_id, s.user_id, h.rotated_at > datetime('now', ?) AS is_recent
+     FROM refresh_token_history h
+     JOIN sessions s ON s.id = h.session_id
+     WHERE h.token_hash = ?`,
+    [`-${REFRESH_REUSE_GRACE_SECONDS} seconds`, tokenHash]
   );
 
-  return true;
+  if (!retired) {
+    return { status: 'invalid' };
+  }
+
+  if (retired.is_recent) {
+    return { status: 'superseded' };
+  }
+
+  // Reuse of a rotated token: either the client or an attacker holds a stale copy
+  await revokeSession(db, retired.session_id);
+  return { status: 'reused', sessionId: retired.session_id, userId: retired.user_id };
 }
 
 /**
@@ -122,11 +243,7 @@ export async function revokeSession(
   db: D1Database,
   sessionId: string
 ): Promise<void> {
-  await executeMutation(
-    db,
-    'UPDATE sessions SET is_active = 0 WHERE id = ?',
-    [sessionId]
-  );
+  await SessionRepository.revoke(db, sessionId);
 }
 
 /**
@@ -138,32 +255,51 @@ export async function revokeAllUserSessions(
   db: D1Database,
   userId: string
 ): Promise<void> {
-  await executeMutation(
-    db,
-    'UPDATE sessions SET is_active = 0 WHERE user_id = ?',
-    [userId]
-  );
+  await SessionRepository.revokeAllForUser(db, userId);
+}
+
+/**
+ * Revoke all of a user's sessions except the one making the request
+ * @param db - D1 database instance
+ * @param userId - User ID whose sessions to revoke
+ * @param keepSessionId - Session to keep signed in
+ */
+export async function revokeOtherUserSessions(
+  db: D1Database,
+  userId: string,
+  keepSessionId: string
+): Promise<void> {
+  await SessionRepository.revokeAllForUser(db, userId, keepSessionId);
 }
 
 /**
- * Get all active sessions for a user
+ * Get a user's active sessions as shown on the sessions page
  * @param db - D1 database instance
  * @param userId - User ID
- * @returns Array of active sessions
+ * @param currentSessionId - Session making the request, flagged as current
+ * @returns Session summaries, most recently active first
  */
-export async function getUserSessions(
+export async function getUserSessionSummaries(
   db: D1Database,
-  userId: string
-): Promise<Session[]> {
-  const sessions = await executeQuery<Session>(
-    db,
-    `SELECT * FROM sessions 
-     WHERE user_id = ? AND is_active = 1 
-     ORDER BY last_active_at DESC`,
-    [userId]
-  );
+  userId: string,
+  currentSessionId: string
+): Promise<SessionSummary[]> {
+  const sessions = await SessionRepository.listActiveSessions(db, userId);
 
-  return sessions;
+  return sessions.map((session) => ({
+    id: session.id,
+    nickname: session.nickname,
+    device: parseUserAgent(session.userAgent),
+    ipAddress: session.ipAddress,
+    location: {
+      country: session.country || undefined,
+      region: session.region || undefined,
+      city: session.city || undefined,
+    },
+    createdAt: session.createdAt,
+    lastActiveAt: session.lastActiveAt,
+    isCurrent: session.id === currentSessionId,
+  }));
 }
 
 /**
@@ -174,10 +310,7 @@ export async function getUserSessions(
 export async function cleanupExpiredSessions(
   db: D1Database
 ): Promise<number> {
-  await executeMutation(
-    db,
-    'UPDATE sessions SET is_active = 0 WHERE expires_at < CURRENT_TIMESTAMP AND is_active = 1'
-  );
+  await SessionRepository.revokeExpired(db);
 
   // Note: D1 doesn't return affected rows count easily
   // For monitoring, you could query before/after
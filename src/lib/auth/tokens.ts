@@ -0,0 +1,23 @@
+/**
+ * Hash a token for storage using Web Crypto API (Edge Runtime compatible)
+ * @param token - Token to hash
+ * @returns Hex-encoded SHA-256 hash
+ */
+export async function hashToken(token: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const data = encoder.encode(token);
+  const hashBuffer = await crypto.subtle.digest('SHA-256', data);
+  const hashArray = Array.from(new Uint8Array(hashBuffer));
+  const hashHex = hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
+  return hashHex;
+}
+
+/**
+ * Generate a cryptographically random, URL-safe token
+ * @param byteLength - Number of random bytes (default 32)
+ * @returns Hex-encoded random token
+ */
+export function generateSecureToken(byteLength: number = 32): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(byteLength));
+  return Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('');
+}
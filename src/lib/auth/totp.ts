@@ -0,0 +1,163 @@
+// RFC 6238 TOTP (SHA-1, 6 digits, 30 second steps) using Web Crypto API (Edge Runtime compatible)
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+const TOTP_DIGITS = 6;
+const TOTP_PERIOD_SECONDS = 30;
+
+/**
+ * Encode bytes as RFC 4648 base32 (no padding)
+ * @param bytes - Bytes to encode
+ * @returns Base32 string
+ */
+function base32Encode(bytes: Uint8Array): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of bytes) {
+    value = (value << 8) | byte;
+    bits += 8;
+
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+}
+
+/**
+ * Decode an RFC 4648 base32 string (padding and whitespace ignored)
+ * @param input - Base32 string
+ * @returns Decoded bytes
+ * @throws Error if the string contains invalid characters
+ */
+function base32Decode(input: string): Uint8Array<ArrayBuffer> {
+  const cleaned = input.toUpperCase().replace(/[\s=]/g, '');
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error('Invalid base32 character');
+    }
+
+    value = (value << 5) | index;
+    bits += 5;
+
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return new Uint8Array(bytes);
+}
+
+/**
+ * Generate a new random TOTP secret
+ * @returns Base32-encoded 160-bit secret
+ */
+export function generateTotpSecret(): string {
+  return base32Encode(crypto.getRandomValues(new Uint8Array(20)));
+}
+
+/**
+ * Get the TOTP time step for a point in time
+ * @param timestamp - Milliseconds since epoch (defaults to now)
+ * @returns Time step counter
+ */
+export function getTotpTimeStep(timestamp: number = Date.now()): number {
+  return Math.floor(timestamp / 1000 / TOTP_PERIOD_SECONDS);
+}
+
+/**
+ * Generate the TOTP code for a given time step
+ * @param secret - Base32-encoded secret
+ * @param timeStep - Time step counter
+ * @returns Zero-padded numeric code
+ */
+export async function generateTotp(secret: string, timeStep: number): Promise<string> {
+  const counter = new ArrayBuffer(8);
+  const view = new DataView(counter);
+  view.setUint32(0, Math.floor(timeStep / 2 ** 32));
+  view.setUint32(4, timeStep >>> 0);
+
+  const key = await crypto.subtle.importKey(
+    'raw',
+    base32Decode(secret),
+    { name: 'HMAC', hash: 'SHA-1' },
+    false,
+    ['sign']
+  );
+  const hmac = new Uint8Array(await crypto.subtle.sign('HMAC', key, counter));
+
+  // Dynamic truncation (RFC 4226 section 5.3)
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary =
+    ((hmac[offset] & 0x7f) << 24) |
+    (hmac[offset + 1] << 16) |
+    (hmac[offset + 2] << 8) |
+    hmac[offset + 3];
+
+  return (binary % 10 ** TOTP_DIGITS).toString().padStart(TOTP_DIGITS, '0');
+}
+
+/**
+ * Verify a TOTP code, allowing for small clock drift
+ * @param secret - Base32-encoded secret
+ * @param code - Code entered by the user
+ * @param window - Number of time steps accepted either side of now (default 1)
+ * @returns Matching time step, or null if the code is invalid
+ */
+export async function verifyTotp(
+  secret: string,
+  code: string,
+  window: number = 1
+): Promise<number | null> {
+  const normalized = code.replace(/\s/g, '');
+  if (!/^\d{6}$/.test(normalized)) {
+    return null;
+  }
+
+  const currentStep = getTotpTimeStep();
+
+  for (let drift = -window; drift <= window; drift++) {
+    const step = currentStep + drift;
+    if ((await generateTotp(secret, step)) === normalized) {
+      return step;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Build an otpauth:// URI for authenticator apps and QR codes
+ * @param secret - Base32-encoded secret
+ * @param accountName - Account label shown in the authenticator (email)
+ * @param issuer - Issuer label (default QuizMaker)
+ * @returns otpauth URI
+ */
+export function buildOtpauthUri(
+  secret: string,
+  accountName: string,
+  issuer: string = 'QuizMaker'
+): string {
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_PERIOD_SECONDS),
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
@@ -0,0 +1,119 @@
+export type DeviceType = 'desktop' | 'mobile' | 'tablet' | 'unknown';
+
+export interface DeviceInfo {
+  browser: string | null;
+  browserVersion: string | null;
+  os: string | null;
+  osVersion: string | null;
+  deviceType: DeviceType;
+}
+
+// Checked in order: Chromium-based browsers also send "Chrome/" and "Safari/",
+// so the more specific tokens must come first
+const BROWSERS: { name: string; pattern: RegExp }[] = [
+  { name: 'Edge', pattern: /(?:Edg|EdgA|EdgiOS)\/([\d.]+)/ },
+  { name: 'Opera', pattern: /(?:OPR|OPiOS)\/([\d.]+)/ },
+  { name: 'Samsung Internet', pattern: /SamsungBrowser\/([\d.]+)/ },
+  { name: 'Firefox', pattern: /(?:Firefox|FxiOS)\/([\d.]+)/ },
+  { name: 'Chrome', pattern: /(?:Chrome|CriOS)\/([\d.]+)/ },
+  { name: 'Safari', pattern: /Version\/([\d.]+).*Safari\// },
+];
+
+// Windows 11 still reports NT 10.0
+const WINDOWS_VERSIONS: Record<string, string> = {
+  '10.0': '10/11',
+  '6.3': '8.1',
+  '6.2': '8',
+  '6.1': '7',
+};
+
+/**
+ * Keep the leading parts of a version string
+ * @param version - Dotted or underscored version (e.g. "17_4_1", "124.0.6367.91")
+ * @param parts - Number of leading parts to keep
+ * @returns Shortened version (e.g. "17.4", "124")
+ */
+function shortVersion(version: string, parts: number): string {
+  return version.replace(/_/g, '.').split('.').slice(0, parts).join('.');
+}
+
+/**
+ * Detect the browser and its major version
+ * @param userAgent - User agent string
+ * @returns Browser name and version, or nulls
+ */
+function parseBrowser(userAgent: string): Pick<DeviceInfo, 'browser' | 'browserVersion'> {
+  for (const { name, pattern } of BROWSERS) {
+    const match = pattern.exec(userAgent);
+    if (match) {
+      return { browser: name, browserVersion: shortVersion(match[1], 1) };
+    }
+  }
+
+  return { browser: null, browserVersion: null };
+}
+
+/**
+ * Detect the operating system and its version
+ * @param userAgent - User agent string
+ * @returns OS name and version, or nulls
+ */
+function parseOs(userAgent: string): Pick<DeviceInfo, 'os' | 'osVersion'> {
+  let match: RegExpExecArray | null;
+
+  if ((match = /Windows NT ([\d.]+)/.exec(userAgent))) {
+    return { os: 'Windows', osVersion: WINDOWS_VERSIONS[match[1]] || null };
+  }
+  if ((match = /(?:iPhone|CPU) OS ([\d_]+)/.exec(userAgent))) {
+    return { os: userAgent.includes('iPad') ? 'iPadOS' : 'iOS', osVersion: shortVersion(match[1], 2) };
+  }
+  if ((match = /Android ([\d.]+)/.exec(userAgent))) {
+    return { os: 'Android', osVersion: shortVersion(match[1], 2) };
+  }
+  if ((match = /Mac OS X ([\d_.]+)/.exec(userAgent))) {
+    return { os: 'macOS', osVersion: shortVersion(match[1], 2) };
+  }
+  if (userAgent.includes('CrOS')) {
+    return { os: 'ChromeOS', osVersion: null };
+  }
+  if (userAgent.includes('Linux')) {
+    return { os: 'Linux', osVersion: null };
+  }
+
+  return { os: null, osVersion: null };
+}
+
+/**
+ * Classify the device as desktop, mobile or tablet
+ * @param userAgent - User agent string
+ * @returns Device class
+ */
+function parseDeviceType(userAgent: string): DeviceType {
+  // Android tablets leave "Mobile" out of the user agent
+  if (/iPad|Tablet|PlayBook|Silk/.test(userAgent)) return 'tablet';
+  if (userAgent.includes('Android')) {
+    return userAgent.includes('Mobile') ? 'mobile' : 'tablet';
+  }
+  if (/Mobile|iPhone|iPod/.test(userAgent)) return 'mobile';
+  if (/Windows|Macintosh|CrOS|Linux|X11/.test(userAgent)) return 'desktop';
+
+  return 'unknown';
+}
+
+/**
+ * Describe the browser, operating system and device class behind a user agent
+ * iPads in desktop mode send a Macintosh user agent and are reported as desktop.
+ * @param userAgent - User agent string
+ * @returns Parsed device details; unrecognised parts are null
+ */
+export function parseUserAgent(userAgent?: string | null): DeviceInfo {
+  if (!userAgent) {
+    return { browser: null, browserVersion: null, os: null, osVersion: null, deviceType: 'unknown' };
+  }
+
+  return {
+    ...parseBrowser(userAgent),
+    ...parseOs(userAgent),
+    deviceType: parseDeviceType(userAgent),
+  };
+}
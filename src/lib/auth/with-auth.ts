@@ -0,0 +1,343 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyToken, type JWTPayload } from '@/lib/auth/jwt';
+import { validateSession } from '@/lib/auth/session';
+import { ACCESS_TOKEN_COOKIE, clearAuthCookies } from '@/lib/auth/cookies';
+import { meetsRequirement, type AccessRequirement, type Role } from '@/lib/auth/rbac';
+import { canGrantScope, findApiToken, isApiToken, type ApiScope } from '@/lib/auth/api-tokens';
+import { UserRepository } from '@/lib/repositories/user-repository';
+import { getDatabase } from '@/lib/d1-client';
+
+export interface AuthenticatedUser {
+  id: string;
+  email: string;
+  fullName: string;
+  role: Role;
+  emailVerified: boolean;
+  deleteAfter: string | null; // set while an account deletion is pending
+}
+
+export interface AuthenticatedSession {
+  id: string;
+  // Where the access token came from: the browser cookie or an Authorization header
+  source: 'cookie' | 'bearer';
+}
+
+export interface AuthenticatedApiToken {
+  id: string;
+  name: string;
+  scopes: ApiScope[];
+}
+
+export interface AuthenticatedContext {
+  user: AuthenticatedUser;
+  session: AuthenticatedSession;
+}
+
+// Context for routes that also accept personal access tokens: exactly one of
+// session or apiToken is set
+export interface ApiAuthenticatedContext {
+  user: AuthenticatedUser;
+  session: AuthenticatedSession | null;
+  apiToken: AuthenticatedApiToken | null;
+}
+
+// Routes open to personal access tokens name the scope a token needs
+export interface ApiAccessRequirement extends AccessRequirement {
+  scope: ApiScope;
+}
+
+type Result<Context> =
+  | { auth: Context; response?: undefined }
+  | { auth?: undefined; response: NextResponse };
+
+export type AuthResult = Result<AuthenticatedContext>;
+export type ApiAuthResult = Result<ApiAuthenticatedContext>;
+
+type Handler<Context, Params> = (
+  request: NextRequest,
+  context: Context & { params: Promise<Params> }
+) => Promise<Response>;
+
+export type AuthenticatedHandler<Params> = Handler<AuthenticatedContext, Params>;
+export type ApiAuthenticatedHandler<Params> = Handler<ApiAuthenticatedContext, Params>;
+
+/**
+ * Read the access token from an `Authorization: Bearer` header or the auth cookie
+ * @param request - Incoming request
+ * @returns Token and where it came from, or null if none was sent
+ */
+function extractAccessToken(
+  request: NextRequest
+): { token: string; source: AuthenticatedSession['source'] } | null {
+  const authorization = request.headers.get('authorization');
+  if (authorization?.startsWith('Bearer ')) {
+    return { token: authorization.slice('Bearer '.length).trim(), source: 'bearer' };
+  }
+
+  const cookie = request.cookies.get(ACCESS_TOKEN_COOKIE)?.value;
+  return cookie ? { token: cookie, source: 'cookie' } : null;
+}
+
+/**
+ * Load the user behind a credential and check they may use the route
+ * Read fresh on every request so deactivation and role changes apply immediately.
+ * @param db - D1 database instance
+ * @param userId - User the credential belongs to
+ * @param requirement - Required role(s) and/or permission(s)
+ * @returns The user, or a 401/403 response to return as-is
+ */
+async function loadAuthorizedUser(
+  db: D1Database,
+  userId: string,
+  requirement: AccessRequirement
+): Promise<
+  | { user: AuthenticatedUser; response?: undefined }
+  | { user?: undefined; response: NextResponse }
+> {
+  const user = await UserRepository.findById(db, userId);
+
+  if (!user) {
+    return {
+      response: NextResponse.json(
+        { error: 'Session invalid or expired' },
+        { status: 401 }
+      ),
+    };
+  }
+
+  if (!user.isActive) {
+    return {
+      response: NextResponse.json(
+        { error: 'Account is inactive', code: 'account_inactive' },
+        { status: 403 }
+      ),
+    };
+  }
+
+  if (!meetsRequirement(user.role, requirement)) {
+    return {
+      response: NextResponse.json(
+        { error: 'Forbidden', code: 'forbidden' },
+        { status: 403 }
+      ),
+    };
+  }
+
+  return {
+    user: {
+      id: user.id,
+      email: user.email,
+      fullName: user.fullName,
+      role: user.role,
+      emailVerified: !!user.emailVerifiedAt,
+      deleteAfter: user.deleteAfter,
+    },
+  };
+}
+
+/**
+ * Authenticate a request: token, JWT signature, live session, active user and access requirement
+ * Personal access tokens are refused; see authenticateApiRequest.
+ * @param request - Incoming request
+ * @param requirement - Optional required role(s) and/or permission(s)
+ * @returns The authenticated user and session, or a 401/403 response to return as-is
+ */
+export async function authenticateRequest(
+  request: NextRequest,
+  requirement: AccessRequirement = {}
+): Promise<AuthResult> {
+  const extracted = extractAccessToken(request);
+
+  if (!extracted) {
+    return {
+      response: NextResponse.json(
+        { error: 'Not authenticated' },
+        { status: 401 }
+      ),
+    };
+  }
+
+  if (extracted.source === 'bearer' && isApiToken(extracted.token)) {
+    return {
+      response: NextResponse.json(
+        { error: 'API tokens cannot be used for this endpoint', code: 'token_not_allowed' },
+        { status: 403 }
+      ),
+    };
+  }
+
+  let payload: JWTPayload;
+  try {
+    payload = await verifyToken(extracted.token);
+  } catch {
+    return {
+      response: NextResponse.json(
+        { error: 'Invalid or expired token' },
+        { status: 401 }
+      ),
+    };
+  }
+
+  const db = getDatabase();
+
+  if (!(await validateSession(db, payload.sessionId))) {
+    const response = NextResponse.json(
+      { error: 'Session invalid or expired' },
+      { status: 401 }
+    );
+    if (extracted.source === 'cookie') {
+      clearAuthCookies(response);
+    }
+    return { response };
+  }
+
+  const loaded = await loadAuthorizedUser(db, payload.userId, requirement);
+  if (loaded.response) {
+    return loaded;
+  }
+
+  return {
+    auth: {
+      user: loaded.user,
+      session: {
+        id: payload.sessionId,
+        source: extracted.source,
+      },
+    },
+  };
+}
+
+/**
+ * Authenticate a request that may use a personal access token instead of a session
+ * The token must carry the required scope, and its owner must still be allowed the
+ * scope and meet the requirement. Session credentials are checked as usual.
+ * @param request - Incoming request
+ * @param requirement - Required scope, plus optional role(s) and/or permission(s)
+ * @returns The authenticated user with their session or token, or a 401/403 response
+ */
+export async function authenticateApiRequest(
+  request: NextRequest,
+  requirement: ApiAccessRequirement
+): Promise<ApiAuthResult> {
+  const extracted = extractAccessToken(request);
+
+  if (!extracted || extracted.source !== 'bearer' || !isApiToken(extracted.token)) {
+    const result = await authenticateRequest(request, requirement);
+    return result.response ? result : { auth: { ...result.auth, apiToken: null } };
+  }
+
+  const db = getDatabase();
+  const apiToken = await findApiToken(db, extracted.token);
+
+  if (!apiToken) {
+    return {
+      response: NextResponse.json(
+        { error: 'Invalid or expired token' },
+        { status: 401 }
+      ),
+    };
+  }
+
+  if (!apiToken.scopes.includes(requirement.scope)) {
+    return {
+      response: NextResponse.json(
+        { error: `Token is missing the ${requirement.scope} scope`, code: 'insufficient_scope' },
+        { status: 403 }
+      ),
+    };
+  }
+
+  const loaded = await loadAuthorizedUser(db, apiToken.userId, requirement);
+  if (loaded.response) {
+    return loaded;
+  }
+
+  // The owner may have lost the permission since the token was created
+  if (!canGrantScope(loaded.user.role, requirement.scope)) {
+    return {
+      response: NextResponse.json(
+        { error: 'Forbidden', code: 'forbidden' },
+        { status: 403 }
+      ),
+    };
+  }
+
+  return {
+    auth: {
+      user: loaded.user,
+      session: null,
+      apiToken: {
+        id: apiToken.id,
+        name: apiToken.name,
+        scopes: apiToken.scopes,
+      },
+    },
+  };
+}
+
+/**
+ * Turn an authenticator and a handler into a Next.js route handler
+ * @param authenticate - Produces the context or an error response
+ * @param handler - Route handler receiving the context
+ * @returns Route handler for Next.js
+ */
+function createRouteHandler<Context, Params>(
+  authenticate: (request: NextRequest) => Promise<Result<Context>>,
+  handler: Handler<Context, Params>
+) {
+  return async (
+    request: NextRequest,
+    routeContext: { params: Promise<Params> }
+  ): Promise<Response> => {
+    let result: Result<Context>;
+    try {
+      result = await authenticate(request);
+    } catch (error) {
+      console.error('Authentication error:', error);
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      );
+    }
+
+    if (result.response) {
+      return result.response;
+    }
+
+    return handler(request, { ...result.auth, params: routeContext.params });
+  };
+}
+
+/**
+ * Wrap a route handler so it only runs for authenticated, active users
+ * Usage: `export const GET = withAuth(async (request, { user, session, params }) => { ... });`
+ * @param handler - Route handler receiving the authenticated context
+ * @param requirement - Optional required role(s) and/or permission(s)
+ * @returns Route handler for Next.js
+ */
+export function withAuth<Params = Record<string, string>>(
+  handler: AuthenticatedHandler<Params>,
+  requirement: AccessRequirement = {}
+) {
+  return createRouteHandler(
+    (request) => authenticateRequest(request, requirement),
+    handler
+  );
+}
+
+/**
+ * Wrap a route handler that scripts may also call with a personal access token
+ * Usage: `export const GET = withApiAuth(async (request, { user, apiToken }) => { ... }, { scope: 'mcqs:read' });`
+ * @param handler - Route handler receiving the authenticated context
+ * @param requirement - Scope a token needs, plus optional role(s) and/or permission(s)
+ * @returns Route handler for Next.js
+ */
+export function withApiAuth<Params = Record<string, string>>(
+  handler: ApiAuthenticatedHandler<Params>,
+  requirement: ApiAccessRequirement
+) {
+  return createRouteHandler(
+    (request) => authenticateApiRequest(request, requirement),
+    handler
+  );
+}
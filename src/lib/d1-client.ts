@@ -1,4 +1,5 @@
 import { getCloudflareContext } from '@opennextjs/cloudflare';
+import type { z } from 'zod';
 
 /**
  * Get D1 database from Cloudflare context or use local SQLite for development
@@ -40,6 +41,8 @@ function getLocalD1Adapter(): D1Database {
   const { join } = require('path');
   // eslint-disable-next-line @typescript-eslint/no-require-imports
   const { existsSync, mkdirSync } = require('fs');
+  // eslint-disable-next-line @typescript-eslint/no-require-imports
+  const { createLocalD1Database } = require('./d1-local') as typeof import('./d1-local');
   
   // Create data directory if it doesn't exist
   const dataDir = join(process.cwd(), 'data');
@@ -55,93 +58,41 @@ function getLocalD1Adapter(): D1Database {
   
   console.log('📂 Using local SQLite database:', dbPath);
   
-  // Create D1-compatible adapter
-  const adapter = {
-    prepare(sql: string) {
-      const stmt = db.prepare(sql);
-      
-      return {
-        bind: (...params: unknown[]) => {
-          return {
-            all: async <T>() => {
-              try {
-                const results = stmt.all(...params) as T[];
-                return { results, success: true };
-              } catch (error) {
-                console.error('Query error:', error);
-                throw error;
-              }
-            },
-            first: async <T>() => {
-              try {
-                const result = stmt.get(...params) as T | undefined;
-                return result || null;
-              } catch (error) {
-                console.error('Query error:', error);
-                throw error;
-              }
-            },
-            run: async () => {
-              try {
-                const info = stmt.run(...params);
-                return { success: true, meta: { changes: info.changes, last_row_id: info.lastInsertRowid } };
-              } catch (error) {
-                console.error('Mutation error:', error);
-                throw error;
-              }
-            },
-          };
-        },
-        all: async <T>() => {
-          try {
-            const results = stmt.all() as T[];
-            return { results, success: true };
-          } catch (error) {
-            console.error('Query error:', error);
-            throw error;
-          }
-        },
-        first: async <T>() => {
-          try {
-            const result = stmt.get() as T | undefined;
-            return result || null;
-          } catch (error) {
-            console.error('Query error:', error);
-            throw error;
-          }
-        },
-        run: async () => {
-          try {
-            const info = stmt.run();
-            return { success: true, meta: { changes: info.changes, last_row_id: info.lastInsertRowid } };
-          } catch (error) {
-            console.error('Mutation error:', error);
-            throw error;
-          }
-        },
-      };
-    }
-  };
-  
-  return adapter as unknown as D1Database;
+  return createLocalD1Database(db);
 }
 
 /**
  * Execute a query and return all results
+ * With a row schema (see db-schema.ts) every row is validated and mapped to
+ * its camelCase shape; a row that does not match throws.
  * @param db - D1 database instance
  * @param sql - SQL query string
  * @param params - Query parameters
+ * @param schema - Optional row schema
  * @returns Array of results
  */
+export async function executeQuery<S extends z.ZodType>(
+  db: D1Database,
+  sql: string,
+  params: unknown[],
+  schema: S
+): Promise<z.output<S>[]>;
 export async function executeQuery<T>(
   db: D1Database,
   sql: string,
-  params: unknown[] = []
-): Promise<T[]> {
+  params?: unknown[]
+): Promise<T[]>;
+export async function executeQuery(
+  db: D1Database,
+  sql: string,
+  params: unknown[] = [],
+  schema?: z.ZodType
+): Promise<unknown[]> {
   const stmt = db.prepare(sql);
   const bound = params.length > 0 ? stmt.bind(...params) : stmt;
-  const { results } = await bound.all<T>();
-  return results || [];
+  const { results } = await bound.all();
+  const rows = results || [];
+  return schema ? rows.map((row) => schema.parse(row)) : rows;
 }
 
 /**
@@ -149,14 +100,29 @@ export async function executeQuery<T>(
  * @param db - D1 database instance
  * @param sql - SQL query string
  * @param params - Query parameters
+ * @param schema - Optional row schema, as for executeQuery
  * @returns First result or null
  */
+export async function executeQueryFirst<S extends z.ZodType>(
+  db: D1Database,
+  sql: string,
+  params: unknown[],
+  schema: S
+): Promise<z.output<S> | null>;
 export async function executeQueryFirst<T>(
   db: D1Database,
   sql: string,
-  params: unknown[] = []
-): Promise<T | null> {
-  const results = await executeQuery<T>(db, sql, params);
+  params?: unknown[]
+): Promise<T | null>;
+export async function executeQueryFirst(
+  db: D1Database,
+  sql: string,
+  params: unknown[] = [],
+  schema?: z.ZodType
+): Promise<unknown> {
+  const results = schema
+    ? await executeQuery(db, sql, params, schema)
+    : await executeQuery<unknown>(db, sql, params);
   return results[0] || null;
 }
 
@@ -175,3 +141,57 @@ export async function executeMutation(
   const bound = params.length > 0 ? stmt.bind(...params) : stmt;
   await bound.run();
 }
+
+/**
+ * A statement to run as part of a batch
+ */
+export interface BatchStatement {
+  sql: string;
+  params?: unknown[];
+}
+
+export interface BatchResult<T = unknown> {
+  results: T[];
+  changes: number; // Rows written by the statement
+  lastRowId: number; // Rowid of the last inserted row (0 if none)
+}
+
+/**
+ * Execute several statements atomically, in one round trip
+ * D1 runs a batch as a single transaction: if any statement fails, none of
+ * them are applied and the error is thrown.
+ * @param db - D1 database instance
+ * @param statements - Statements to run, in order
+ * @returns One result per statement, in the same order
+ */
+export async function executeBatch<T = unknown>(
+  db: D1Database,
+  statements: BatchStatement[]
+): Promise<BatchResult<T>[]> {
+  if (statements.length === 0) {
+    return [];
+  }
+
+  const prepared = statements.map(({ sql, params = [] }) => {
+    const stmt = db.prepare(sql);
+    return params.length > 0 ? stmt.bind(...params) : stmt;
+  });
+
+  const results = await db.batch<T>(prepared);
+
+  return results.map((result) => ({
+    results: result.results || [],
+    changes: result.meta.changes ?? 0,
+    lastRowId: result.meta.last_row_id ?? 0,
+  }));
+}
+
+/**
+ * Whether an error is a UNIQUE constraint violation
+ * Lets callers turn a lost insert race into a conflict response.
+ * @param error - Error thrown by a query
+ * @returns True if a UNIQUE constraint failed
+ */
+export function isUniqueConstraintError(error: unknown): boolean {
+  return error instanceof Error && error.message.includes('UNIQUE constraint failed');
+}
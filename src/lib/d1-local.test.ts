@@ -0,0 +1,286 @@
+import Database from 'better-sqlite3';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { createLocalD1Database } from '@/lib/d1-local';
+
+// Conformance suite for the local D1 adapter. Every case states what D1 does,
+// so the same suite can run against miniflare's D1 (the Workers runtime's own
+// implementation) to check the adapter still matches it:
+//
+//   D1_CONFORMANCE_MINIFLARE=1 npm test -- src/lib/d1-local.test.ts
+//
+// The miniflare devDependency is pinned to the version wrangler depends on, so
+// the suite checks the same D1 that `wrangler dev` runs; update them together.
+
+interface D1Target {
+  name: string;
+  // Fresh, empty database for one test
+  open: () => Promise<D1Database>;
+  close: () => Promise<void>;
+}
+
+/**
+ * The adapter under test: a new in-memory SQLite database per test
+ * @returns Local target
+ */
+function localTarget(): D1Target {
+  return {
+    name: 'local adapter',
+    open: async () => createLocalD1Database(new Database(':memory:')),
+    close: async () => {},
+  };
+}
+
+/**
+ * Miniflare's D1, reset between tests by dropping the tables the suite creates
+ * @returns Miniflare target
+ */
+function miniflareTarget(): D1Target {
+  let miniflare: import('miniflare').Miniflare | null = null;
+
+  return {
+    name: 'miniflare D1',
+    open: async () => {
+      if (!miniflare) {
+        const { Miniflare } = await import('miniflare');
+        miniflare = new Miniflare({
+          modules: true,
+          script: 'export default { fetch() { return new Response(null); } }',
+          d1Databases: ['DB'],
+        });
+      }
+      const db = await miniflare.getD1Database('DB') as unknown as D1Database;
+      await db.exec('DROP TABLE IF EXISTS items;');
+      return db;
+    },
+    close: async () => {
+      await miniflare?.dispose();
+    },
+  };
+}
+
+const targets = process.env.D1_CONFORMANCE_MINIFLARE
+  ? [localTarget(), miniflareTarget()]
+  : [localTarget()];
+
+describe.each(targets)('D1 conformance: $name', (target) => {
+  let db: D1Database;
+
+  beforeAll(async () => {
+    // Start miniflare once up front so its startup isn't charged to the first test
+    await target.open();
+  }, 60_000);
+
+  afterAll(async () => {
+    await target.close();
+  });
+
+  beforeEach(async () => {
+    db = await target.open();
+    await db.exec('CREATE TABLE items (id INTEGER PRIMARY KEY, name TEXT UNIQUE NOT NULL, qty INTEGER, data BLOB);');
+    await db.batch([
+      db.prepare("INSERT INTO items (name, qty) VALUES ('apple', 3)"),
+      db.prepare("INSERT INTO items (name, qty) VALUES ('pear', 5)"),
+    ]);
+  });
+
+  describe('prepare', () => {
+    it('should not throw for invalid SQL until the statement runs', async () => {
+      const statement = db.prepare('SELEC 1');
+
+      await expect(statement.first()).rejects.toThrow(/^D1_ERROR: near "SELEC": syntax error/);
+    });
+  });
+
+  describe('first', () => {
+    it('should return the first row as an object', async () => {
+      const row = await db.prepare('SELECT name, qty FROM items ORDER BY id').first();
+
+      expect(row).toEqual({ name: 'apple', qty: 3 });
+    });
+
+    it('should return null when there are no rows', async () => {
+      const row = await db.prepare('SELECT name FROM items WHERE id = ?').bind(99).first();
+
+      expect(row).toBeNull();
+    });
+
+    it('should return a single column when one is named', async () => {
+      const qty = await db.prepare('SELECT name, qty FROM items WHERE name = ?').bind('pear').first('qty');
+
+      expect(qty).toBe(5);
+    });
+
+    it('should return null for a named column when there are no rows', async () => {
+      const qty = await db.prepare('SELECT qty FROM items WHERE id = ?').bind(99).first('qty');
+
+      expect(qty).toBeNull();
+    });
+
+    it('should reject a column the row does not have', async () => {
+      const statement = db.prepare('SELECT name FROM items').first('missing');
+
+      await expect(statement).rejects.toThrow('D1_COLUMN_NOTFOUND: Column not found (missing)');
+    });
+  });
+
+  describe('all and run', () => {
+    it('should return every row with meta', async () => {
+      const result = await db.prepare('SELECT name FROM items ORDER BY id').all<{ name: string }>();
+
+      expect(result.success).toBe(true);
+      expect(result.results).toEqual([{ name: 'apple' }, { name: 'pear' }]);
+      expect(result.meta.changed_db).toBe(false);
+    });
+
+    it('should report changes and the last row ID for writes', async () => {
+      const result = await db.prepare('INSERT INTO items (name, qty) VALUES (?, ?)').bind('plum', 1).run();
+
+      expect(result.meta.changes).toBe(1);
+      expect(result.meta.last_row_id).toBe(3);
+      expect(result.meta.changed_db).toBe(true);
+    });
+
+    it('should return rows from RETURNING and apply the write', async () => {
+      const row = await db
+        .prepare('UPDATE items SET qty = qty + 1 WHERE name = ? RETURNING qty')
+        .bind('apple')
+        .first('qty');
+
+      expect(row).toBe(4);
+      expect(await db.prepare("SELECT qty FROM items WHERE name = 'apple'").first('qty')).toBe(4);
+    });
+  });
+
+  describe('raw', () => {
+    it('should return rows as arrays', async () => {
+      const rows = await db.prepare('SELECT id, name FROM items ORDER BY id').raw();
+
+      expect(rows).toEqual([[1, 'apple'], [2, 'pear']]);
+    });
+
+    it('should put the column names first when asked', async () => {
+      const rows = await db.prepare('SELECT id, name FROM items ORDER BY id').raw({ columnNames: true });
+
+      expect(rows).toEqual([['id', 'name'], [1, 'apple'], [2, 'pear']]);
+    });
+  });
+
+  describe('parameters', () => {
+    it('should bind a numbered parameter to the value at that position', async () => {
+      const value = await db.prepare('SELECT ?1 AS value').bind(2).first('value');
+
+      expect(value).toBe(2);
+    });
+
+    it('should bind numbered parameters out of order and more than once', async () => {
+      const row = await db.prepare('SELECT ?2 AS a, ?1 AS b, ?2 AS c').bind('x', 'y').first();
+
+      expect(row).toEqual({ a: 'y', b: 'x', c: 'y' });
+    });
+
+    it('should number a plain parameter after the highest one before it', async () => {
+      const row = await db.prepare('SELECT ?1 AS a, ? AS b').bind('x', 'y').first();
+
+      expect(row).toEqual({ a: 'x', b: 'y' });
+    });
+
+    it('should leave question marks in strings and comments alone', async () => {
+      const row = await db
+        .prepare("SELECT '?1' AS quoted, ?1 AS bound -- trailing ?2\n")
+        .bind('x')
+        .first();
+
+      expect(row).toEqual({ quoted: '?1', bound: 'x' });
+    });
+
+    it('should reject too many values', async () => {
+      const statement = db.prepare('SELECT ? AS value').bind(1, 2).first();
+
+      await expect(statement).rejects.toThrow('D1_ERROR: Wrong number of parameter bindings for SQL query.');
+    });
+
+    it('should reject too few values', async () => {
+      const statement = db.prepare('SELECT ? AS a, ? AS b').bind(1).first();
+
+      await expect(statement).rejects.toThrow('D1_ERROR: Wrong number of parameter bindings for SQL query.');
+    });
+  });
+
+  describe('value types', () => {
+    it('should bind numbers and booleans as REAL', async () => {
+      const row = await db.prepare('SELECT typeof(?) AS flag, typeof(?) AS whole, ? AS value')
+        .bind(true, 7, false)
+        .first();
+
+      expect(row).toEqual({ flag: 'real', whole: 'real', value: 0 });
+    });
+
+    it('should store whole numbers in INTEGER columns as integers', async () => {
+      await db.prepare('UPDATE items SET qty = ? WHERE name = ?').bind(7, 'apple').run();
+
+      const type = await db.prepare("SELECT typeof(qty) AS type FROM items WHERE name = 'apple'").first('type');
+
+      expect(type).toBe('integer');
+    });
+
+    it('should return blobs as arrays of bytes', async () => {
+      await db.prepare('UPDATE items SET data = ? WHERE name = ?').bind(new Uint8Array([1, 2, 255]), 'apple').run();
+
+      const data = await db.prepare("SELECT data FROM items WHERE name = 'apple'").first('data');
+
+      expect(data).toEqual([1, 2, 255]);
+    });
+
+    it('should reject values D1 cannot bind', async () => {
+      expect(() => db.prepare('SELECT ?').bind(undefined))
+        .toThrow("D1_TYPE_ERROR: Type 'undefined' not supported for value 'undefined'");
+    });
+  });
+
+  describe('errors', () => {
+    it('should report constraint failures with the SQLite code', async () => {
+      const statement = db.prepare("INSERT INTO items (name) VALUES ('apple')").run();
+
+      await expect(statement).rejects.toThrow(
+        'D1_ERROR: UNIQUE constraint failed: items.name: SQLITE_CONSTRAINT'
+      );
+    });
+  });
+
+  describe('batch', () => {
+    it('should return one result per statement', async () => {
+      const results = await db.batch([
+        db.prepare('INSERT INTO items (name) VALUES (?)').bind('plum'),
+        db.prepare('SELECT count(*) AS total FROM items'),
+      ]);
+
+      expect(results).toHaveLength(2);
+      expect(results[0].meta.changes).toBe(1);
+      expect(results[1].results).toEqual([{ total: 3 }]);
+    });
+
+    it('should roll back every statement when one fails', async () => {
+      const batch = db.batch([
+        db.prepare('INSERT INTO items (name) VALUES (?)').bind('plum'),
+        db.prepare('UPDATE items SET qty = 0'),
+        db.prepare('INSERT INTO items (name) VALUES (?)').bind('apple'),
+      ]);
+
+      await expect(batch).rejects.toThrow(/^D1_ERROR: UNIQUE constraint failed/);
+
+      const rows = await db.prepare('SELECT name, qty FROM items ORDER BY id').all();
+      expect(rows.results).toEqual([{ name: 'apple', qty: 3 }, { name: 'pear', qty: 5 }]);
+    });
+  });
+
+  describe('exec', () => {
+    it('should run one statement per line', async () => {
+      const result = await db.exec(
+        "INSERT INTO items (name) VALUES ('plum');\nINSERT INTO items (name) VALUES ('fig');"
+      );
+
+      expect(result.count).toBe(2);
+      expect(await db.prepare('SELECT count(*) AS total FROM items').first('total')).toBe(4);
+    });
+  });
+});
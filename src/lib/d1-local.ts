@@ -0,0 +1,383 @@
+import type BetterSqlite3 from 'better-sqlite3';
+
+// D1 emulation on top of better-sqlite3, for local development without wrangler.
+// Mirrors what the Workers runtime does so code behaves the same locally and on D1:
+// - statements are prepared lazily, so SQL errors reject the query promise
+//   instead of throwing from prepare()
+// - bound values are checked and coerced as D1 does (booleans become 0/1,
+//   numbers are bound as REAL and converted by column affinity, ArrayBuffers
+//   and views as blobs)
+// - numbered parameters (?1, ?2) work as on D1, and binding the wrong number
+//   of values is an error
+// - blobs come back as arrays of bytes
+// - errors are Errors whose message starts with D1_ERROR / D1_TYPE_ERROR /
+//   D1_EXEC_ERROR / D1_COLUMN_NOTFOUND, with the SQLite error as `cause`
+// - run() and all() both return { success, meta, results }
+
+type SqliteValue = number | bigint | string | Buffer | null;
+
+interface LocalStatementState {
+  sql: string;
+  params: SqliteValue[];
+}
+
+// Lets batch() read the SQL and parameters back out of a prepared statement
+const STATEMENT_STATE = Symbol('d1LocalStatement');
+
+/**
+ * Wrap a better-sqlite3 error the way D1 reports it
+ * @param error - Error thrown by better-sqlite3
+ * @returns D1-style error
+ */
+function toD1Error(error: unknown): Error {
+  if (!(error instanceof Error)) {
+    return new Error(`D1_ERROR: ${String(error)}`);
+  }
+
+  if (/^D1_[A-Z_]+:/.test(error.message)) {
+    return error;
+  }
+
+  // SQLITE_CONSTRAINT_UNIQUE -> SQLITE_CONSTRAINT, as in D1's messages
+  const code = (error as { code?: string }).code;
+  const suffix = code ? `: ${code.split('_').slice(0, 2).join('_')}` : '';
+
+  return new Error(`D1_ERROR: ${error.message}${suffix}`, { cause: error });
+}
+
+/**
+ * Rewrite numbered parameters (?NNN) as anonymous ones for better-sqlite3
+ * better-sqlite3 only binds ?NNN by name, while D1 binds it to the NNN-th
+ * value. Every parameter becomes "?" and is mapped back to the value it refers
+ * to; a plain "?" takes the next number after the highest used so far, as in
+ * SQLite. Quoted strings, quoted identifiers and comments are left alone.
+ * @param sql - SQL as passed to prepare()
+ * @returns Rewritten SQL, the 1-based value index of each "?" in it, and how many values the SQL expects
+ */
+function translateParameters(sql: string): { sql: string; indexes: number[]; expected: number } {
+  const indexes: number[] = [];
+  let translated = '';
+  let highest = 0;
+  let i = 0;
+
+  while (i < sql.length) {
+    const char = sql[i];
+    let end = i + 1;
+
+    if (char === "'" || char === '"' || char === '`' || char === '[') {
+      const close = char === '[' ? ']' : char;
+      // A doubled quote inside a quoted string or identifier is an escaped quote
+      while (end < sql.length && (sql[end] !== close || (close !== ']' && sql[end + 1] === close))) {
+        end += sql[end] === close ? 2 : 1;
+      }
+      end = Math.min(end + 1, sql.length);
+    } else if (char === '-' && sql[i + 1] === '-') {
+      const newline = sql.indexOf('\n', i);
+      end = newline === -1 ? sql.length : newline;
+    } else if (char === '/' && sql[i + 1] === '*') {
+      const close = sql.indexOf('*/', i + 2);
+      end = close === -1 ? sql.length : close + 2;
+    } else if (char === '?') {
+      while (end < sql.length && sql[end] >= '0' && sql[end] <= '9') end++;
+      const index = end > i + 1 ? Number(sql.slice(i + 1, end)) : highest + 1;
+      highest = Math.max(highest, index);
+      indexes.push(index);
+      translated += '?';
+      i = end;
+      continue;
+    }
+
+    translated += sql.slice(i, end);
+    i = end;
+  }
+
+  return { sql: translated, indexes, expected: highest };
+}
+
+/**
+ * Check and convert one bound value as D1 does
+ * @param value - Value passed to bind()
+ * @returns Value better-sqlite3 stores with the same type D1 would
+ * @throws D1_TYPE_ERROR for values D1 cannot bind
+ */
+function toSqliteValue(value: unknown): SqliteValue {
+  if (value === null) return null;
+
+  switch (typeof value) {
+    case 'string':
+      return value;
+    case 'boolean':
+      return value ? 1 : 0;
+    case 'number':
+      // Bound as REAL, as on D1; INTEGER columns store whole numbers as integers
+      return value;
+    case 'object':
+      if (value instanceof ArrayBuffer) return Buffer.from(value);
+      if (ArrayBuffer.isView(value)) {
+        return Buffer.from(value.buffer, value.byteOffset, value.byteLength);
+      }
+      break;
+  }
+
+  throw new Error(`D1_TYPE_ERROR: Type '${typeof value}' not supported for value '${String(value)}'`);
+}
+
+/**
+ * Convert a value read from SQLite to what D1 returns
+ * @param value - Column value from better-sqlite3
+ * @returns Same value, with blobs as arrays of bytes
+ */
+function fromSqliteValue(value: unknown): unknown {
+  return Buffer.isBuffer(value) ? Array.from(value) : value;
+}
+
+/**
+ * Convert every column of a row read from SQLite
+ * @param row - Row object from better-sqlite3
+ * @returns Row as D1 returns it
+ */
+function fromSqliteRow(row: Record<string, unknown>): Record<string, unknown> {
+  const converted: Record<string, unknown> = {};
+  for (const [column, value] of Object.entries(row)) {
+    converted[column] = fromSqliteValue(value);
+  }
+  return converted;
+}
+
+/**
+ * Create a D1Database backed by a better-sqlite3 connection
+ * @param sqlite - Open better-sqlite3 database
+ * @returns Object implementing the full D1Database interface
+ */
+export function createLocalD1Database(sqlite: BetterSqlite3.Database): D1Database {
+  let commits = 0;
+
+  /**
+   * Database size for meta.size_after
+   * @returns Size in bytes
+   */
+  const databaseSize = (): number =>
+    (sqlite.pragma('page_count', { simple: true }) as number) *
+    (sqlite.pragma('page_size', { simple: true }) as number);
+
+  /**
+   * Compile a statement and line its bound values up with its parameters
+   * @param state - SQL and bound parameters
+   * @returns better-sqlite3 statement and the values to run it with
+   * @throws D1_ERROR if the number of values doesn't match the SQL
+   */
+  const compile = (state: LocalStatementState): { stmt: BetterSqlite3.Statement; params: SqliteValue[] } => {
+    const { sql, indexes, expected } = translateParameters(state.sql);
+    const stmt = sqlite.prepare(sql);
+
+    if (state.params.length !== expected) {
+      throw new Error('D1_ERROR: Wrong number of parameter bindings for SQL query.');
+    }
+
+    return { stmt, params: indexes.map((index) => state.params[index - 1]) };
+  };
+
+  /**
+   * Run a statement and build D1's result object
+   * @param state - SQL and bound parameters
+   * @returns Rows and meta
+   */
+  const execute = <T>(state: LocalStatementState): D1Result<T> => {
+    const started = performance.now();
+    const { stmt, params } = compile(state);
+
+    let results: T[] = [];
+    let changes = 0;
+    let lastRowId = 0;
+
+    if (stmt.reader) {
+      const totalChanges = sqlite.prepare('SELECT total_changes()').pluck();
+      const before = totalChanges.get() as number;
+      results = (stmt.all(...params) as Record<string, unknown>[]).map(fromSqliteRow) as T[];
+      // INSERT ... RETURNING is a reader that also writes
+      changes = (totalChanges.get() as number) - before;
+      if (changes > 0) {
+        lastRowId = Number(sqlite.prepare('SELECT last_insert_rowid()').pluck().get());
+      }
+    } else {
+      const info = stmt.run(...params);
+      changes = info.changes;
+      lastRowId = Number(info.lastInsertRowid);
+    }
+
+    if (changes > 0) {
+      commits++;
+    }
+
+    return {
+      success: true,
+      results,
+      meta: {
+        served_by: 'local-sqlite',
+        duration: performance.now() - started,
+        changes,
+        last_row_id: lastRowId,
+        changed_db: changes > 0,
+        size_after: databaseSize(),
+        rows_read: results.length,
+        rows_written: changes,
+      },
+    };
+  };
+
+  /**
+   * Create a prepared statement; SQL is compiled when it runs, as on D1
+   * @param state - SQL and bound parameters
+   * @param onComplete - Called after the statement runs successfully (used by sessions)
+   * @returns D1PreparedStatement
+   */
+  const createStatement = (state: LocalStatementState, onComplete?: () => void): D1PreparedStatement => {
+    /**
+     * Run an operation, reporting failures as D1 errors
+     * @param operation - Synchronous better-sqlite3 work
+     * @returns Promise of the operation's result
+     */
+    const settle = async <R>(operation: () => R): Promise<R> => {
+      let result: R;
+      try {
+        result = operation();
+      } catch (error) {
+        throw toD1Error(error);
+      }
+      onComplete?.();
+      return result;
+    };
+
+    const statement = {
+      [STATEMENT_STATE]: state,
+
+      bind(...values: unknown[]) {
+        return createStatement({ sql: state.sql, params: values.map(toSqliteValue) }, onComplete);
+      },
+
+      first<T>(column?: string): Promise<T | null> {
+        return settle(() => {
+          const row = execute<Record<string, unknown>>(state).results[0];
+
+          if (!row) return null;
+          if (column === undefined) return row as T;
+          if (!(column in row)) {
+            throw new Error(`D1_COLUMN_NOTFOUND: Column not found (${column})`);
+          }
+          return row[column] as T;
+        });
+      },
+
+      run<T>(): Promise<D1Result<T>> {
+        return settle(() => execute<T>(state));
+      },
+
+      all<T>(): Promise<D1Result<T>> {
+        return settle(() => execute<T>(state));
+      },
+
+      raw<T>(options?: { columnNames?: boolean }): Promise<T[]> {
+        return settle(() => {
+          const { stmt, params } = compile(state);
+
+          if (!stmt.reader) {
+            stmt.run(...params);
+            return (options?.columnNames ? [[]] : []) as T[];
+          }
+
+          const rows = (stmt.raw(true).all(...params) as unknown[][])
+            .map((row) => row.map(fromSqliteValue));
+
+          if (options?.columnNames) {
+            return [stmt.columns().map((column) => column.name), ...rows] as T[];
+          }
+          return rows as T[];
+        });
+      },
+    };
+
+    return statement as unknown as D1PreparedStatement;
+  };
+
+  /**
+   * Run statements in one transaction; if any fails, none are applied
+   * @param statements - Statements created by this database's prepare()
+   * @returns One result per statement
+   */
+  const batch = async <T>(statements: D1PreparedStatement[]): Promise<D1Result<T>[]> => {
+    const states = statements.map((statement) => {
+      const state = (statement as unknown as { [STATEMENT_STATE]?: LocalStatementState })[STATEMENT_STATE];
+      if (!state) {
+        throw new Error('D1_ERROR: batch() only accepts statements from this database');
+      }
+      return state;
+    });
+
+    try {
+      return sqlite.transaction(() => states.map((state) => execute<T>(state)))();
+    } catch (error) {
+      throw toD1Error(error);
+    }
+  };
+
+  const database = {
+    prepare(query: string) {
+      return createStatement({ sql: query, params: [] });
+    },
+
+    batch,
+
+    /**
+     * Run raw SQL, one statement per line, without prepared statements (as D1 does)
+     * @param query - SQL with one complete statement per line
+     * @returns Number of statements run and the time taken
+     */
+    async exec(query: string): Promise<D1ExecResult> {
+      const started = performance.now();
+      const lines = query.split('\n');
+      let count = 0;
+
+      for (let i = 0; i < lines.length; i++) {
+        const line = lines[i].trim();
+        if (!line) continue;
+
+        try {
+          sqlite.exec(line);
+          count++;
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          throw new Error(`D1_EXEC_ERROR: Error in line ${i + 1}: ${line}: ${message}`, { cause: error });
+        }
+      }
+
+      commits++;
+      return { count, duration: performance.now() - started };
+    },
+
+    withSession(constraintOrBookmark?: string): D1DatabaseSession {
+      // A single local database is always consistent; the bookmark only tracks writes
+      let bookmark: string | null =
+        constraintOrBookmark && !constraintOrBookmark.startsWith('first-') ? constraintOrBookmark : null;
+      const updateBookmark = () => {
+        bookmark = `local-${commits}`;
+      };
+
+      return {
+        prepare: (query: string) => createStatement({ sql: query, params: [] }, updateBookmark),
+        batch: async <T>(statements: D1PreparedStatement[]) => {
+          const results = await batch<T>(statements);
+          updateBookmark();
+          return results;
+        },
+        getBookmark: () => bookmark,
+      } as unknown as D1DatabaseSession;
+    },
+
+    async dump(): Promise<ArrayBuffer> {
+      const buffer = sqlite.serialize();
+      return buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength) as ArrayBuffer;
+    },
+  };
+
+  return database as unknown as D1Database;
+}
@@ -0,0 +1,80 @@
+import { z } from 'zod';
+import { isRole, type Role } from '@/lib/auth/rbac';
+
+// Row schemas: the single source of truth for each table's TypeScript shape.
+// Each schema validates a row as D1 returns it (snake_case columns) and maps
+// it to camelCase. Pass one to executeQuery/executeQueryFirst:
+//
+//   const sessions = await executeQuery(db, 'SELECT * FROM sessions WHERE user_id = ?', [userId], sessionRow);
+
+type CamelCase<S extends string> = S extends `${infer Head}_${infer Tail}`
+  ? `${Head}${Capitalize<CamelCase<Tail>>}`
+  : S;
+
+type CamelCaseKeys<T> = { [K in keyof T as K extends string ? CamelCase<K> : K]: T[K] };
+
+/**
+ * Convert a snake_case column name to camelCase
+ * @param column - Column name (e.g. "last_active_at")
+ * @returns camelCase name (e.g. "lastActiveAt")
+ */
+function toCamelCase(column: string): string {
+  return column.replace(/_([a-z0-9])/g, (_, char: string) => char.toUpperCase());
+}
+
+/**
+ * Define a row schema from a table's columns
+ * Columns not in the shape are dropped, so `SELECT *` stays safe as tables grow.
+ * @param columns - zod type of each column, keyed by column name
+ * @returns Schema that validates a row and returns it with camelCase keys
+ */
+export function rowSchema<Shape extends z.ZodRawShape>(columns: Shape) {
+  return z.object(columns).transform((row) => {
+    const mapped: Record<string, unknown> = {};
+    for (const [column, value] of Object.entries(row)) {
+      mapped[toCamelCase(column)] = value;
+    }
+    return mapped as CamelCaseKeys<z.output<z.ZodObject<Shape>>>;
+  });
+}
+
+// SQLite has no boolean type; flags are stored as 0/1 integers
+export const sqliteBoolean = z.number().int().transform((value) => value !== 0);
+
+// DATETIME columns are text: CURRENT_TIMESTAMP ("2026-01-31 12:00:00") or ISO 8601
+export const sqliteTimestamp = z.string();
+
+export const userRow = rowSchema({
+  id: z.string(),
+  email: z.string(),
+  password_hash: z.string(),
+  has_password: sqliteBoolean,
+  full_name: z.string(),
+  role: z.custom<Role>(isRole, 'Unknown role'),
+  is_active: sqliteBoolean,
+  email_verified_at: sqliteTimestamp.nullable(),
+  delete_after: sqliteTimestamp.nullable(),
+  created_at: sqliteTimestamp,
+  updated_at: sqliteTimestamp,
+  last_login_at: sqliteTimestamp.nullable(),
+});
+
+export type UserRecord = z.output<typeof userRow>;
+
+export const sessionRow = rowSchema({
+  id: z.string(),
+  user_id: z.string(),
+  token_hash: z.string(),
+  ip_address: z.string().nullable(),
+  user_agent: z.string().nullable(),
+  country: z.string().nullable(),
+  region: z.string().nullable(),
+  city: z.string().nullable(),
+  nickname: z.string().nullable(),
+  created_at: sqliteTimestamp,
+  expires_at: sqliteTimestamp,
+  last_active_at: sqliteTimestamp,
+  is_active: sqliteBoolean,
+});
+
+export type SessionRecord = z.output<typeof sessionRow>;
@@ -0,0 +1,69 @@
+import type { NextRequest } from 'next/server';
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+/**
+ * Send a transactional email
+ *
+ * Delivers through the HTTP email API configured by EMAIL_API_URL /
+ * EMAIL_API_KEY / EMAIL_FROM. When no API is configured (local development)
+ * the message is logged to the console instead so links can be followed.
+ * @param message - Recipient, subject and plain text body
+ * @throws Error in production if no email API is configured
+ */
+export async function sendEmail(message: EmailMessage): Promise<void> {
+  const apiUrl = process.env.EMAIL_API_URL;
+
+  if (!apiUrl) {
+    // Messages carry reset and verification tokens; never log them in production
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error('Email delivery is not configured. Set EMAIL_API_URL.');
+    }
+    console.log(`📧 Email to ${message.to}: ${message.subject}\n${message.text}`);
+    return;
+  }
+
+  const response = await fetch(apiUrl, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${process.env.EMAIL_API_KEY || ''}`,
+    },
+    body: JSON.stringify({
+      from: process.env.EMAIL_FROM || 'QuizMaker <no-reply@quizmaker.app>',
+      to: message.to,
+      subject: message.subject,
+      text: message.text,
+    }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Email delivery failed with status ${response.status}`);
+  }
+}
+
+/**
+ * Origin to build emailed links from
+ * Uses the configured APP_URL so a forged Host header cannot point links at
+ * another site. Outside production the request's own origin is used if unset.
+ * @param request - Incoming request (development fallback only)
+ * @returns App origin (e.g. https://quizmaker.app)
+ * @throws Error in production if APP_URL is not set
+ */
+export function getAppOrigin(request: NextRequest): string {
+  const appUrl = process.env.APP_URL;
+
+  if (appUrl) {
+    return new URL(appUrl).origin;
+  }
+
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('APP_URL is not configured');
+  }
+
+  return request.nextUrl.origin;
+}
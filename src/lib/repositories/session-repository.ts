@@ -0,0 +1,240 @@
+import { executeQuery, executeQueryFirst, executeMutation, type BatchStatement } from '@/lib/d1-client';
+import { sessionRow, type SessionRecord } from '@/lib/db-schema';
+
+// Data access for the sessions table. Token handling, expiry and rotation
+// rules live in lib/auth/session.ts, which builds on these functions.
+
+export interface NewSession {
+  id: string;
+  userId: string;
+  tokenHash: string;
+  ipAddress: string | null;
+  userAgent: string | null;
+  country: string | null;
+  region: string | null;
+  city: string | null;
+  createdAt: string;
+  expiresAt: string;
+}
+
+/**
+ * Find an active session by ID
+ * @param db - D1 database instance
+ * @param id - Session ID
+ * @returns Session or null if not found or revoked
+ */
+async function findActiveById(db: D1Database, id: string): Promise<SessionRecord | null> {
+  return executeQueryFirst(
+    db,
+    'SELECT * FROM sessions WHERE id = ? AND is_active = 1',
+    [id],
+    sessionRow
+  );
+}
+
+/**
+ * Find a session by the hash of its current refresh token, active or not
+ * @param db - D1 database instance
+ * @param tokenHash - SHA-256 hash of the refresh token
+ * @returns Session or null if no session holds that token
+ */
+async function findByTokenHash(db: D1Database, tokenHash: string): Promise<SessionRecord | null> {
+  return executeQueryFirst(
+    db,
+    'SELECT * FROM sessions WHERE token_hash = ?',
+    [tokenHash],
+    sessionRow
+  );
+}
+
+/**
+ * List a user's active sessions
+ * @param db - D1 database instance
+ * @param userId - User ID
+ * @returns Sessions, most recently active first
+ */
+async function listActiveSessions(db: D1Database, userId: string): Promise<SessionRecord[]> {
+  return executeQuery(
+    db,
+    `SELECT * FROM sessions
+     WHERE user_id = ? AND is_active = 1
+     ORDER BY last_active_at DESC`,
+    [userId],
+    sessionRow
+  );
+}
+
+/**
+ * Build the insert for a new session without running it
+ * @param session - New session's details
+ * @returns Statement to run alone or in a batch
+ */
+function createStatement(session: NewSession): BatchStatement {
+  return {
+    sql: `INSERT INTO sessions (id, user_id, token_hash, ip_address, user_agent, country, region, city,
+                                created_at, expires_at, last_active_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    params: [
+      session.id,
+      session.userId,
+      session.tokenHash,
+      session.ipAddress,
+      session.userAgent,
+      session.country,
+      session.region,
+      session.city,
+      session.createdAt,
+      session.expiresAt,
+      session.createdAt,
+    ],
+  };
+}
+
+/**
+ * Record activity on a session
+ * @param db - D1 database instance
+ * @param id - Session ID
+ */
+async function touch(db: D1Database, id: string): Promise<void> {
+  await executeMutation(
+    db,
+    'UPDATE sessions SET last_active_at = CURRENT_TIMESTAMP WHERE id = ?',
+    [id]
+  );
+}
+
+/**
+ * Build the swap of a session's refresh token hash, pushing its expiry out
+ * Only takes effect while the session is active and still holds the expected
+ * hash, so of two concurrent rotations exactly one changes a row.
+ * @param id - Session ID
+ * @param currentTokenHash - Hash the session must currently hold
+ * @param tokenHash - Hash of the new refresh token
+ * @param expiresAt - New expiry (ISO 8601)
+ * @returns Statement to run alone or in a batch
+ */
+function replaceTokenStatement(
+  id: string,
+  currentTokenHash: string,
+  tokenHash: string,
+  expiresAt: string
+): BatchStatement {
+  return {
+    sql: `UPDATE sessions
+          SET token_hash = ?, expires_at = ?, last_active_at = CURRENT_TIMESTAMP
+          WHERE id = ? AND token_hash = ? AND is_active = 1`,
+    params: [tokenHash, expiresAt, id, currentTokenHash],
+  };
+}
+
+/**
+ * Set or clear the nickname of one of a user's active sessions
+ * @param db - D1 database instance
+ * @param userId - Owner of the session
+ * @param id - Session ID
+ * @param nickname - New nickname, or null to clear it
+ * @returns True if the session was found and updated
+ */
+async function setNickname(
+  db: D1Database,
+  userId: string,
+  id: string,
+  nickname: string | null
+): Promise<boolean> {
+  const existing = await executeQueryFirst<{ id: string }>(
+    db,
+    'SELECT id FROM sessions WHERE id = ? AND user_id = ? AND is_active = 1',
+    [id, userId]
+  );
+
+  if (!existing) {
+    return false;
+  }
+
+  await executeMutation(
+    db,
+    'UPDATE sessions SET nickname = ? WHERE id = ?',
+    [nickname, id]
+  );
+
+  return true;
+}
+
+/**
+ * Revoke a single session
+ * @param db - D1 database instance
+ * @param id - Session ID
+ */
+async function revoke(db: D1Database, id: string): Promise<void> {
+  await executeMutation(
+    db,
+    'UPDATE sessions SET is_active = 0 WHERE id = ?',
+    [id]
+  );
+}
+
+/**
+ * Revoke one of a user's sessions if it is still active
+ * Conditional, so of several concurrent callers exactly one sees true.
+ * @param db - D1 database instance
+ * @param userId - Owner of the session
+ * @param id - Session ID
+ * @returns True if this call revoked the session
+ */
+async function revokeIfActive(db: D1Database, userId: string, id: string): Promise<boolean> {
+  const revoked = await executeQueryFirst<{ id: string }>(
+    db,
+    'UPDATE sessions SET is_active = 0 WHERE id = ? AND user_id = ? AND is_active = 1 RETURNING id',
+    [id, userId]
+  );
+
+  return !!revoked;
+}
+
+/**
+ * Revoke all of a user's sessions, optionally keeping one
+ * @param db - D1 database instance
+ * @param userId - User ID
+ * @param keepId - Session to leave signed in
+ */
+async function revokeAllForUser(db: D1Database, userId: string, keepId?: string): Promise<void> {
+  if (keepId) {
+    await executeMutation(
+      db,
+      'UPDATE sessions SET is_active = 0 WHERE user_id = ? AND id != ?',
+      [userId, keepId]
+    );
+    return;
+  }
+
+  await executeMutation(
+    db,
+    'UPDATE sessions SET is_active = 0 WHERE user_id = ?',
+    [userId]
+  );
+}
+
+/**
+ * Revoke every active session past its expiry
+ * @param db - D1 database instance
+ */
+async function revokeExpired(db: D1Database): Promise<void> {
+  await executeMutation(
+    db,
+    'UPDATE sessions SET is_active = 0 WHERE expires_at < CURRENT_TIMESTAMP AND is_active = 1'
+  );
+}
+
+export const SessionRepository = {
+  findActiveById,
+  findByTokenHash,
+  listActiveSessions,
+  createStatement,
+  touch,
+  replaceTokenStatement,
+  setNickname,
+  revoke,
+  revokeIfActive,
+  revokeAllForUser,
+  revokeExpired,
+};
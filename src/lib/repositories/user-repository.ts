@@ -0,0 +1,276 @@
+import { executeQuery, executeQueryFirst, executeMutation, type BatchStatement } from '@/lib/d1-client';
+import { userRow, type UserRecord } from '@/lib/db-schema';
+import type { Role } from '@/lib/auth/rbac';
+
+// Data access for the users table. Routes and auth modules go through these
+// functions instead of embedding SQL; rows come back as UserRecord (db-schema.ts).
+
+export interface NewUser {
+  id: string;
+  email: string;
+  passwordHash: string;
+  fullName: string;
+  role: Role;
+  emailVerifiedAt?: string; // set when a sign-in provider has already verified the address
+  hasPassword?: boolean; // false when passwordHash is a random placeholder; defaults to true
+}
+
+/**
+ * Find a user by ID
+ * @param db - D1 database instance
+ * @param id - User ID
+ * @returns User or null if not found
+ */
+async function findById(db: D1Database, id: string): Promise<UserRecord | null> {
+  return executeQueryFirst(db, 'SELECT * FROM users WHERE id = ?', [id], userRow);
+}
+
+/**
+ * Find a user by email address
+ * @param db - D1 database instance
+ * @param email - Email address (any case)
+ * @returns User or null if no account uses the address
+ */
+async function findByEmail(db: D1Database, email: string): Promise<UserRecord | null> {
+  return executeQueryFirst(db, 'SELECT * FROM users WHERE email = ?', [email.toLowerCase()], userRow);
+}
+
+/**
+ * Build the insert for a new user without running it
+ * Lets the user be created in the same batch as related rows (see signup).
+ * @param user - New user's details
+ * @returns Statement to run alone or in a batch
+ */
+function createStatement(user: NewUser): BatchStatement {
+  return {
+    sql: `INSERT INTO users (id, email, password_hash, has_password, full_name, role, email_verified_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?)`,
+    params: [
+      user.id,
+      user.email.toLowerCase(),
+      user.passwordHash,
+      user.hasPassword === false ? 0 : 1,
+      user.fullName,
+      user.role,
+      user.emailVerifiedAt || null,
+    ],
+  };
+}
+
+/**
+ * Create a user
+ * @param db - D1 database instance
+ * @param user - New user's details
+ */
+async function create(db: D1Database, user: NewUser): Promise<void> {
+  const { sql, params } = createStatement(user);
+  await executeMutation(db, sql, params);
+}
+
+/**
+ * Record that a user has just signed in
+ * @param db - D1 database instance
+ * @param id - User ID
+ */
+async function touchLastLogin(db: D1Database, id: string): Promise<void> {
+  await executeMutation(
+    db,
+    'UPDATE users SET last_login_at = CURRENT_TIMESTAMP WHERE id = ?',
+    [id]
+  );
+}
+
+/**
+ * Activate or deactivate a user; inactive users cannot sign in
+ * @param db - D1 database instance
+ * @param id - User ID
+ * @param isActive - Whether the account may be used
+ */
+async function setActive(db: D1Database, id: string, isActive: boolean): Promise<void> {
+  await executeMutation(
+    db,
+    'UPDATE users SET is_active = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
+    [isActive ? 1 : 0, id]
+  );
+}
+
+/**
+ * Deactivate a user
+ * @param db - D1 database instance
+ * @param id - User ID
+ */
+async function deactivate(db: D1Database, id: string): Promise<void> {
+  await setActive(db, id, false);
+}
+
+/**
+ * Replace a user's password hash with one for a password they chose
+ * @param db - D1 database instance
+ * @param id - User ID
+ * @param passwordHash - New bcrypt hash
+ */
+async function updatePassword(db: D1Database, id: string, passwordHash: string): Promise<void> {
+  await executeMutation(
+    db,
+    'UPDATE users SET password_hash = ?, has_password = 1, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
+    [passwordHash, id]
+  );
+}
+
+/**
+ * Build the takeover of an account whose email was never verified
+ * Marks the address verified and replaces the password with a placeholder,
+ * only if the address is still unverified (see identities.ts).
+ * @param id - User ID
+ * @param passwordHash - Hash of a random placeholder password
+ * @returns Statement to run alone or in a batch
+ */
+function claimUnverifiedStatement(id: string, passwordHash: string): BatchStatement {
+  return {
+    sql: `UPDATE users
+          SET password_hash = ?, has_password = 0, email_verified_at = CURRENT_TIMESTAMP,
+              updated_at = CURRENT_TIMESTAMP
+          WHERE id = ? AND email_verified_at IS NULL`,
+    params: [passwordHash, id],
+  };
+}
+
+/**
+ * Build the change of a user's email address, applied only if it is still the expected one
+ * Lets the change run in the same batch as spending its confirmation token
+ * (see email-change.ts).
+ * @param id - User ID
+ * @param email - New address (any case)
+ * @param verifiedAt - When the new address was verified, or null if it is not yet
+ * @param currentEmail - Address the user must still have
+ * @returns Statement to run alone or in a batch
+ */
+function setEmailStatement(
+  id: string,
+  email: string,
+  verifiedAt: string | null,
+  currentEmail: string
+): BatchStatement {
+  return {
+    sql: `UPDATE users SET email = ?, email_verified_at = ?, updated_at = CURRENT_TIMESTAMP
+          WHERE id = ? AND email = ?`,
+    params: [email.toLowerCase(), verifiedAt, id, currentEmail.toLowerCase()],
+  };
+}
+
+/**
+ * Mark a user's current email address as verified, keeping an earlier verification time
+ * @param db - D1 database instance
+ * @param id - User ID
+ * @param verifiedAt - Verification time (ISO 8601)
+ */
+async function markEmailVerified(db: D1Database, id: string, verifiedAt: string): Promise<void> {
+  await executeMutation(
+    db,
+    `UPDATE users SET email_verified_at = ?, updated_at = CURRENT_TIMESTAMP
+     WHERE id = ? AND email_verified_at IS NULL`,
+    [verifiedAt, id]
+  );
+}
+
+/**
+ * Change a user's display name
+ * @param db - D1 database instance
+ * @param id - User ID
+ * @param fullName - New name
+ */
+async function setFullName(db: D1Database, id: string, fullName: string): Promise<void> {
+  await executeMutation(
+    db,
+    'UPDATE users SET full_name = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
+    [fullName, id]
+  );
+}
+
+/**
+ * Schedule or cancel a user's account deletion
+ * @param db - D1 database instance
+ * @param id - User ID
+ * @param deleteAfter - When to delete the account (ISO 8601), or null to cancel
+ */
+async function setDeleteAfter(db: D1Database, id: string, deleteAfter: string | null): Promise<void> {
+  await executeMutation(
+    db,
+    'UPDATE users SET delete_after = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
+    [deleteAfter, id]
+  );
+}
+
+/**
+ * List users whose account deletion is due
+ * @param db - D1 database instance
+ * @param now - Current time (ISO 8601)
+ * @returns Users with delete_after at or before now
+ */
+async function listDueForDeletion(db: D1Database, now: string): Promise<UserRecord[]> {
+  return executeQuery(
+    db,
+    'SELECT * FROM users WHERE delete_after IS NOT NULL AND delete_after <= ?',
+    [now],
+    userRow
+  );
+}
+
+/**
+ * Permanently delete a user; related rows go with it (ON DELETE CASCADE)
+ * @param db - D1 database instance
+ * @param id - User ID
+ */
+async function deleteById(db: D1Database, id: string): Promise<void> {
+  await executeMutation(db, 'DELETE FROM users WHERE id = ?', [id]);
+}
+
+/**
+ * Get a user's row as stored, without the password hash, for the data export
+ * @param db - D1 database instance
+ * @param id - User ID
+ * @returns Row with its database column names, or null if not found
+ */
+async function findExportRow(db: D1Database, id: string): Promise<Record<string, unknown> | null> {
+  return executeQueryFirst<Record<string, unknown>>(
+    db,
+    `SELECT id, email, full_name, role, is_active, email_verified_at, created_at, updated_at,
+            last_login_at, delete_after
+     FROM users WHERE id = ?`,
+    [id]
+  );
+}
+
+/**
+ * Change a user's role
+ * @param db - D1 database instance
+ * @param id - User ID
+ * @param role - New role
+ */
+async function setRole(db: D1Database, id: string, role: Role): Promise<void> {
+  await executeMutation(
+    db,
+    'UPDATE users SET role = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
+    [role, id]
+  );
+}
+
+export const UserRepository = {
+  findById,
+  findByEmail,
+  createStatement,
+  create,
+  touchLastLogin,
+  setActive,
+  deactivate,
+  setRole,
+  updatePassword,
+  claimUnverifiedStatement,
+  setEmailStatement,
+  markEmailVerified,
+  setFullName,
+  setDeleteAfter,
+  listDueForDeletion,
+  deleteById,
+  findExportRow,
+};
@@ -1,55 +1,173 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { verifyToken } from '@/lib/auth/jwt';
+import { verifyToken, type JWTPayload } from '@/lib/auth/jwt';
+import { ACCESS_TOKEN_COOKIE, REFRESH_TOKEN_COOKIE } from '@/lib/auth/cookies';
+import { meetsRequirement, isRole, type AccessRequirement } from '@/lib/auth/rbac';
+import { CSRF_COOKIE, checkCsrf, setCsrfCookie } from '@/lib/auth/csrf';
+import { getCloudflareContext } from '@opennextjs/cloudflare';
 
-// Routes that require authentication
-const protectedPaths = ['/dashboard', '/mcqs'];
+// Routes that require authentication, optionally with a role or permission
+const protectedPaths: { path: string; requirement?: AccessRequirement }[] = [
+  { path: '/dashboard' },
+  { path: '/mcqs', requirement: { permission: 'mcqs:manage' } },
+  { path: '/admin', requirement: { permission: 'admin:access' } },
+];
 
 // Routes that should redirect to dashboard if already authenticated
 const authPaths = ['/login', '/signup'];
 
-export async function middleware(request: NextRequest) {
-  const token = request.cookies.get('auth-token')?.value;
+// How long a session lookup is trusted before D1 is asked again
+const SESSION_CACHE_TTL_MS = 10 * 1000; // 10 seconds
+
+// Per-isolate cache of recent lookups (sessionId -> active, checkedAt).
+// Revocation takes effect within the TTL; revoked entries never come back to life.
+const sessionCache = new Map<string, { active: boolean; checkedAt: number }>();
+
+/**
+ * Check that the session behind a verified JWT has not been revoked
+ * @param sessionId - Session ID from the JWT
+ * @returns False if the session is revoked or expired, or cannot be checked
+ */
+async function checkSession(sessionId: string): Promise<boolean> {
+  const cached = sessionCache.get(sessionId);
+  if (cached && (!cached.active || Date.now() - cached.checkedAt < SESSION_CACHE_TTL_MS)) {
+    return cached.active;
+  }
+
+  // Query the D1 binding directly: d1-client pulls in the Node-only local adapter
+  let db: D1Database | undefined;
+  try {
+    db = getCloudflareContext().env.quizmaker_database;
+  } catch {
+    db = undefined;
+  }
+
+  if (!db) {
+    // Plain `next dev` has no binding - API routes still validate the session.
+    // Anywhere else a missing binding is a misconfiguration, so fail closed.
+    return process.env.NEXTJS_ENV === 'development';
+  }
+
+  try {
+    const session = await db
+      .prepare('SELECT expires_at FROM sessions WHERE id = ? AND is_active = 1')
+      .bind(sessionId)
+      .first<{ expires_at: string }>();
+    const active = !!session && new Date() <= new Date(session.expires_at);
+
+    if (sessionCache.size > 1000) {
+      sessionCache.clear();
+    }
+    sessionCache.set(sessionId, { active, checkedAt: Date.now() });
+
+    return active;
+  } catch (error) {
+    // Can't confirm the session wasn't revoked; don't let it through
+    console.error('Middleware session check failed:', error);
+    return false;
+  }
+}
+
+/**
+ * Redirect to login and drop the cookies of a dead session
+ * @param request - Incoming request
+ * @param pathname - Page to return to after logging in
+ * @returns Redirect response
+ */
+function redirectToLogin(request: NextRequest, pathname: string): NextResponse {
+  const loginUrl = new URL('/login', request.url);
+  loginUrl.searchParams.set('redirect', pathname);
+  const response = NextResponse.redirect(loginUrl);
+  response.cookies.delete(ACCESS_TOKEN_COOKIE);
+  response.cookies.delete(REFRESH_TOKEN_COOKIE);
+  return response;
+}
+
+/**
+ * Make sure the browser holds a CSRF token before it needs one
+ * @param request - Incoming request
+ * @param response - Response to attach the cookie to
+ * @returns The same response
+ */
+function ensureCsrfCookie(request: NextRequest, response: NextResponse): NextResponse {
+  if (!request.cookies.has(CSRF_COOKIE)) {
+    setCsrfCookie(response);
+  }
+  return response;
+}
+
+/**
+ * Authentication and role checks for page navigations
+ * @param request - Incoming request
+ * @returns Response to continue, redirect, or refresh the session
+ */
+async function handlePageRequest(request: NextRequest): Promise<NextResponse> {
+  const token = request.cookies.get(ACCESS_TOKEN_COOKIE)?.value;
+  const hasRefreshToken = request.cookies.has(REFRESH_TOKEN_COOKIE);
   const { pathname } = request.nextUrl;
 
   // Check if the path is protected
-  const isProtectedPath = protectedPaths.some((path) =>
+  const protectedPath = protectedPaths.find(({ path }) =>
     pathname.startsWith(path)
   );
 
   // Check if the path is an auth page
   const isAuthPath = authPaths.some((path) => pathname.startsWith(path));
 
-  if (isProtectedPath) {
+  if (protectedPath) {
     // Protected route - require authentication
-    if (!token) {
-      const loginUrl = new URL('/login', request.url);
-      loginUrl.searchParams.set('redirect', pathname);
-      return NextResponse.redirect(loginUrl);
+    if (token) {
+      let payload: JWTPayload | null = null;
+      try {
+        // Verify JWT token (lightweight check for Edge Runtime)
+        payload = await verifyToken(token);
+      } catch {
+        // Expired or invalid access token - fall through to refresh or login
+      }
+
+      // Tokens without a role predate RBAC; treat them as expired so they get refreshed
+      if (payload && isRole(payload.role)) {
+        // Revoked sessions (logout-all, "Logout" on another device) lose access immediately
+        if (!await checkSession(payload.sessionId)) {
+          return redirectToLogin(request, pathname);
+        }
+
+        // Authenticated but not allowed here
+        if (protectedPath.requirement && !meetsRequirement(payload.role, protectedPath.requirement)) {
+          const forbiddenUrl = new URL('/forbidden', request.url);
+          forbiddenUrl.searchParams.set('from', pathname);
+          return NextResponse.redirect(forbiddenUrl);
+        }
+
+        return NextResponse.next();
+      }
     }
 
-    try {
-      // Verify JWT token (lightweight check for Edge Runtime)
-      // Full session validation will happen in API routes
-      await verifyToken(token);
-      return NextResponse.next();
-    } catch {
-      // Invalid token - redirect to login
-      const response = NextResponse.redirect(new URL('/login', request.url));
-      response.cookies.delete('auth-token');
-      return response;
+    if (hasRefreshToken) {
+      // Access token expired - rotate the refresh token and come back
+      const refreshUrl = new URL('/api/auth/refresh', request.url);
+      refreshUrl.searchParams.set('redirect', pathname + request.nextUrl.search);
+      return NextResponse.redirect(refreshUrl);
     }
+
+    return redirectToLogin(request, pathname);
   }
 
   if (isAuthPath && token) {
     // User is already authenticated, redirect to dashboard
     try {
-      // Just verify the JWT is valid
-      await verifyToken(token);
-      return NextResponse.redirect(new URL('/dashboard', request.url));
+      // Verify the JWT and that its session is still live
+      const { sessionId } = await verifyToken(token);
+      if (await checkSession(sessionId)) {
+        return NextResponse.redirect(new URL('/dashboard', request.url));
+      }
+      const response = NextResponse.next();
+      response.cookies.delete(ACCESS_TOKEN_COOKIE);
+      response.cookies.delete(REFRESH_TOKEN_COOKIE);
+      return response;
     } catch {
       // Invalid token - clear it and continue to auth page
       const response = NextResponse.next();
-      response.cookies.delete('auth-token');
+      response.cookies.delete(ACCESS_TOKEN_COOKIE);
       return response;
     }
   }
@@ -57,17 +175,32 @@ export async function middleware(request: NextRequest) {
   return NextResponse.next();
 }
 
+export async function middleware(request: NextRequest) {
+  // Every state-changing API request is checked here, before any route handler runs
+  if (request.nextUrl.pathname.startsWith('/api/')) {
+    const csrfError = checkCsrf(request);
+    if (csrfError) {
+      return ensureCsrfCookie(
+        request,
+        NextResponse.json({ error: csrfError, code: 'csrf_failed' }, { status: 403 })
+      );
+    }
+    return ensureCsrfCookie(request, NextResponse.next());
+  }
+
+  return ensureCsrfCookie(request, await handlePageRequest(request));
+}
+
 export const config = {
   matcher: [
     /*
      * Match all request paths except:
-     * - api (API routes)
      * - _next/static (static files)
      * - _next/image (image optimization files)
      * - favicon.ico (favicon file)
      * - public folder
      */
-    '/((?!api|_next/static|_next/image|favicon.ico|.*\\..*$).*)',
+    '/((?!_next/static|_next/image|favicon.ico|.*\\..*$).*)',
   ],
 };
 